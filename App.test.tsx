@@ -0,0 +1,141 @@
+import React from 'react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { BlockedReason } from '@google/genai';
+import App from './App';
+import { selectProvider } from './services/providers';
+import { saveApiKey, clearApiKey, setCredentialMode } from './services/credentials';
+import { getPromptLibrary } from './services/promptLibrary';
+import { fakeGenAI, imageResponse } from './test/fakeGenAI';
+
+const LOGO_ALT = /^More Wisdom logo/;
+
+const openAt = (hash: string) => {
+  window.history.replaceState(null, '', hash);
+  return render(<App />);
+};
+
+// One variation keeps the fake's call count and the DOM simple.
+const generate = () => {
+  fireEvent.change(screen.getByLabelText('Variations'), { target: { value: '1' } });
+  fireEvent.click(screen.getByRole('button', { name: /Generate/ }));
+};
+
+describe('App', () => {
+  beforeEach(() => {
+    selectProvider('gemini');
+    setCredentialMode('userKey');
+    clearApiKey();
+  });
+
+  describe('step transitions', () => {
+    it('starts on Setup and continues to Design once a key is saved', async () => {
+      openAt('/');
+      expect(screen.getByRole('heading', { name: "Let's build your brand." })).toBeTruthy();
+      const start = screen.getByRole('button', { name: /Get Started/ }) as HTMLButtonElement;
+      expect(start.disabled).toBe(true);
+
+      act(() => saveApiKey('test-key'));
+      expect(start.disabled).toBe(false);
+      fireEvent.click(start);
+
+      expect(await screen.findByRole('heading', { name: 'Design Your Logo' })).toBeTruthy();
+      expect(window.location.hash).toBe('#/design');
+    });
+
+    it('sends a project step without credentials back to Setup', async () => {
+      openAt('/#/design');
+      await waitFor(() => expect(window.location.hash).toBe('#/'));
+      expect(screen.getByRole('heading', { name: "Let's build your brand." })).toBeTruthy();
+    });
+
+    it('sends Animate without a logo back to Design', async () => {
+      saveApiKey('test-key');
+      openAt('/#/animate');
+      expect(await screen.findByRole('heading', { name: 'Design Your Logo' })).toBeTruthy();
+      expect(window.location.hash).toBe('#/design');
+    });
+
+    it('saves a project on the first generation and unlocks Animate', async () => {
+      saveApiKey('test-key');
+      fakeGenAI.generateContent.mockResolvedValue(imageResponse('abc', 'image/jpeg'));
+      openAt('/#/design');
+
+      generate();
+
+      const preview = await screen.findByRole('img', { name: LOGO_ALT }) as HTMLImageElement;
+      expect(preview.getAttribute('src')).toBe('data:image/jpeg;base64,abc');
+      expect(fakeGenAI.generateContent).toHaveBeenCalledTimes(1);
+      await waitFor(() => expect(window.location.hash).toMatch(/^#\/projects\/[^/]+\/design$/));
+
+      fireEvent.click(screen.getByRole('button', { name: 'Animator' }));
+      expect(await screen.findByRole('heading', { name: 'Bring it to Life' })).toBeTruthy();
+      expect(window.location.hash).toMatch(/^#\/projects\/[^/]+\/animate$/);
+    });
+  });
+
+  it('records refine instructions in the prompt history', async () => {
+    saveApiKey('test-key');
+    fakeGenAI.generateContent.mockResolvedValue(imageResponse('abc', 'image/jpeg'));
+    openAt('/#/design');
+    generate();
+    await screen.findByRole('img', { name: LOGO_ALT });
+
+    fireEvent.click(screen.getByRole('button', { name: /^Refine$/ }));
+    fireEvent.change(screen.getByPlaceholderText(/Keep everything/), { target: { value: 'make the owl blue' } });
+    fireEvent.click(screen.getByRole('button', { name: /Refine Selected Version/ }));
+
+    await waitFor(() => expect(fakeGenAI.generateContent).toHaveBeenCalledTimes(2));
+    expect(getPromptLibrary().history.find(entry => entry.kind === 'refine')?.prompt).toBe('make the owl blue');
+  });
+
+  describe('error banners', () => {
+    beforeEach(() => {
+      saveApiKey('test-key');
+    });
+
+    it('offers a retry when no image comes back', async () => {
+      fakeGenAI.generateContent
+        .mockResolvedValueOnce({ candidates: [] })
+        .mockResolvedValueOnce(imageResponse());
+      openAt('/#/design');
+
+      generate();
+
+      const banner = await screen.findByRole('alert');
+      expect(banner.textContent).toContain('No image returned');
+      fireEvent.click(screen.getByRole('button', { name: /Try again/ }));
+
+      expect(await screen.findByRole('img', { name: LOGO_ALT })).toBeTruthy();
+      expect(screen.queryByRole('alert')).toBeNull();
+    });
+
+    it('points safety blocks at the brief and can be dismissed', async () => {
+      fakeGenAI.generateContent.mockResolvedValue({ promptFeedback: { blockReason: BlockedReason.SAFETY } });
+      openAt('/#/design');
+
+      generate();
+
+      const banner = await screen.findByRole('alert');
+      expect(banner.textContent).toContain('Blocked by safety filters');
+      expect(screen.getByRole('button', { name: /Edit brief/ })).toBeTruthy();
+      expect(screen.queryByRole('button', { name: /Try again/ })).toBeNull();
+
+      fireEvent.click(screen.getByTitle('Dismiss'));
+      expect(screen.queryByRole('alert')).toBeNull();
+    });
+
+    it('sends key problems back to Setup', async () => {
+      fakeGenAI.generateContent.mockRejectedValue(Object.assign(new Error('Permission denied.'), { status: 403 }));
+      openAt('/#/design');
+
+      generate();
+
+      const banner = await screen.findByRole('alert');
+      expect(banner.textContent).toContain('API key problem');
+      fireEvent.click(screen.getByRole('button', { name: /Re-select API key/ }));
+
+      expect(await screen.findByRole('heading', { name: "Let's build your brand." })).toBeTruthy();
+    });
+  });
+});
@@ -1,133 +1,602 @@
 
-import React, { useState, useEffect } from 'react';
-import { AppStep, LogoData, AnimationData, ImageSize, AspectRatio } from './types';
-import { generateLogo, animateLogo } from './services/geminiService';
-
-// Define Global Window Types
-// Fix: Use the expected AIStudio interface and add 'readonly' modifier to match global environment.
-declare global {
-  interface AIStudio {
-    hasSelectedApiKey: () => Promise<boolean>;
-    openSelectKey: () => Promise<void>;
-  }
-
-  interface Window {
-    readonly aistudio: AIStudio;
-  }
-}
+import React, { useState, useEffect, useRef } from 'react';
+import { AppStep, LogoData, LogoCandidate, AnimationData, ImageSize, AspectRatio, Project, BrandBrief, ReferenceImage, ReferenceMode, AnimationPresetId } from './types';
+import { extractPalette } from './services/palette';
+import { generateAltText } from './services/legibility';
+import { exportProjectFile, PROJECT_FILE_EXTENSION } from './services/projectFile';
+import { buildPresentation } from './services/presentation';
+import { downloadBlob, slugify } from './services/imageUtils';
+import { generateLogo, refineLogo, translateBrief } from './services/generationService';
+import { getProvider } from './services/providers';
+import { getCredentialMode, hasCredentials, requestCredentials, credentialsConfigured } from './services/credentials';
+import { navigate, guardRoute, isProjectStep, sameRoute } from './services/router';
+import { Selection, EMPTY_SELECTION_HISTORY, sameSelection, recordSelection, undoSelection, redoSelection } from './services/selectionHistory';
+import { saveProject, getVideo, getProject } from './services/projectStore';
+import { submitVideoBatch, retryVideoJob, onVideoJobSettled, setSpendApprover, getVideoJobs, isJobPending, DEFAULT_JOB_TIMEOUT_MS } from './services/jobManager';
+import { GenerationError, classifyError } from './services/errors';
+import { useVideoJobs } from './hooks/useVideoJobs';
+import { useUsage } from './hooks/useUsage';
+import { useRoute } from './hooks/useRoute';
+import { useCredentials } from './hooks/useCredentials';
+import { useTranslation } from './hooks/useLocale';
+import { LOCALES, Locale, TranslationKey, setLocale } from './services/i18n';
+import { checkBudget, estimateRequest, summarizeUsage, dayKey, formatCost } from './services/usageMeter';
+import { DEFAULT_BRIEF, DEFAULT_ANIMATION_PROMPT, ANIMATION_PRESETS, REFERENCE_MODES, compileBrief } from './services/promptBuilder';
+import { recordPrompt, setPromptThumbnail, setPromptThumbnailFor, createImageThumbnail, createVideoThumbnail } from './services/promptLibrary';
+import CandidateGrid from './components/CandidateGrid';
+import VersionHistory from './components/VersionHistory';
+import ProjectLibrary from './components/ProjectLibrary';
+import BrandKitButton from './components/BrandKitButton';
+import VectorizePanel from './components/VectorizePanel';
+import BriefForm from './components/BriefForm';
+import JobPanel from './components/JobPanel';
+import QueuePanel from './components/QueuePanel';
+import ErrorBanner from './components/ErrorBanner';
+import VideoEditor from './components/VideoEditor';
+import ImageDropzone from './components/ImageDropzone';
+import PalettePanel from './components/PalettePanel';
+import LockedPaletteNotice from './components/LockedPaletteNotice';
+import MockupPanel from './components/MockupPanel';
+import LegibilityPanel from './components/LegibilityPanel';
+import PromptLibrary from './components/PromptLibrary';
+import UsagePanel from './components/UsagePanel';
+import CredentialsSetup from './components/CredentialsSetup';
+
+const LOADING_MESSAGES: TranslationKey[] = [
+  'app.loading.concepts',
+  'app.loading.proportions',
+  'app.loading.palettes',
+  'app.loading.edges',
+  'app.loading.impact',
+  'app.loading.touch'
+];
+
+const REFERENCE_LABELS: Record<ReferenceMode, TranslationKey> = {
+  inspire: 'design.reference.inspire',
+  redraw: 'design.reference.redraw'
+};
+
+const PRESET_LABELS: Record<AnimationPresetId, TranslationKey> = {
+  reveal: 'animate.preset.reveal',
+  pulse: 'animate.preset.pulse',
+  particleAssemble: 'animate.preset.particleAssemble',
+  parallaxFloat: 'animate.preset.parallaxFloat'
+};
+
+const FORMAT_LABELS: [AspectRatio, TranslationKey][] = [
+  ['16:9', 'animate.format.landscape'],
+  ['9:16', 'animate.format.portrait'],
+  ['1:1', 'animate.format.square']
+];
 
 const App: React.FC = () => {
-  const [step, setStep] = useState<AppStep>(AppStep.Setup);
+  const { t, locale } = useTranslation();
+  const route = useRoute();
+  const step = route.step;
   const [logo, setLogo] = useState<LogoData | null>(null);
+  const [candidates, setCandidates] = useState<LogoCandidate[]>([]);
+  const [variationCount, setVariationCount] = useState(4);
+  const [brief, setBrief] = useState<BrandBrief>(DEFAULT_BRIEF);
+  const [reference, setReference] = useState<ReferenceImage | null>(null);
+  const [referenceMode, setReferenceMode] = useState<ReferenceMode>('inspire');
+  const [lockedPalette, setLockedPalette] = useState<string[] | null>(null);
+  const [versions, setVersions] = useState<LogoData[]>([]);
+  const [designMode, setDesignMode] = useState<'generate' | 'refine'>('generate');
+  const [previewMode, setPreviewMode] = useState<'artwork' | 'mockups' | 'legibility'>('artwork');
+  const [isRefining, setIsRefining] = useState(false);
+  const [refineInstruction, setRefineInstruction] = useState('');
   const [animation, setAnimation] = useState<AnimationData | null>(null);
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [animations, setAnimations] = useState<AnimationData[]>([]);
+  const [project, setProject] = useState<Pick<Project, 'id' | 'name' | 'createdAt'> | null>(null);
+  const [resumeStep, setResumeStep] = useState<AppStep>(AppStep.Design);
+  const [selectionHistory, setSelectionHistory] = useState(EMPTY_SELECTION_HISTORY);
+  // Project being opened; its URL may arrive before its state does.
+  const loadingProjectId = useRef<string | null>(null);
+  const [jobTimeoutMs, setJobTimeoutMs] = useState(DEFAULT_JOB_TIMEOUT_MS);
+  const videoJobs = useVideoJobs();
+  const usage = useUsage();
+  const [error, setError] = useState<GenerationError | string | null>(null);
+  const [retryFailed, setRetryFailed] = useState<(() => void) | null>(null);
   const [imageSize, setImageSize] = useState<ImageSize>('1K');
-  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
+  const [aspectRatios, setAspectRatios] = useState<AspectRatio[]>(['16:9']);
+  const [animationPrompts, setAnimationPrompts] = useState<string[]>([DEFAULT_ANIMATION_PROMPT]);
+  // Prompt that presets and the prompt library write into.
+  const [activePromptIndex, setActivePromptIndex] = useState(0);
+  const [sidePanel, setSidePanel] = useState<'queue' | 'usage' | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
   const [progressMessage, setProgressMessage] = useState('');
 
-  const loadingMessages = [
-    "Synthesizing visual concepts...",
-    "Perfecting geometric proportions...",
-    "Applying professional color palettes...",
-    "Polishing vector edges...",
-    "Optimizing for education and impact...",
-    "Adding that 'More Wisdom' touch..."
-  ];
-
-  const animationMessages = [
-    "Infusing motion into the design...",
-    "Calculating fluid dynamics...",
-    "Rendering cinematic lighting...",
-    "Bringing your brand to life...",
-    "Finalizing visual storytelling...",
-    "Just a moment longer, greatness takes time..."
-  ];
-
-  // Fix: Handle mandatory API key selection and assume success to prevent race conditions.
+  const credentialSettings = useCredentials();
+  const workflowReady = !getProvider().requiresApiKey || credentialsConfigured(credentialSettings);
+
+  // Steps are URLs; the project steps carry the open project's id.
+  const setStep = (next: AppStep, projectId = project?.id) =>
+    navigate({ step: next, projectId: isProjectStep(next) ? projectId : undefined });
+
+  // Remember the last working step so a reopened project resumes there.
+  useEffect(() => {
+    if (step === AppStep.Design || step === AppStep.Animate || step === AppStep.View) {
+      setResumeStep(step);
+    }
+  }, [step]);
+
+  // The open project in its stored form, as autosaved and exported.
+  const snapshotProject = (): Project | null => {
+    if (!project) return null;
+    const favorites = new Set(candidates.filter(c => c.favorite).map(c => c.id));
+    return {
+      ...project,
+      updatedAt: Date.now(),
+      step: resumeStep,
+      logos: versions.map(({ url, ...stored }) => ({ ...stored, favorite: favorites.has(stored.id) })),
+      selectedLogoId: logo?.id,
+      animations: animations.map(({ videoUrl, video, ...stored }) => stored),
+      selectedAnimationId: animation?.id,
+      brief,
+      lockedPalette: lockedPalette || undefined
+    };
+  };
+
+  // Autosave the open project shortly after anything worth keeping changes.
+  useEffect(() => {
+    const snapshot = snapshotProject();
+    if (!snapshot) return;
+    const timer = setTimeout(() => {
+      saveProject(snapshot).catch((err: any) => setError(t('app.saveFailed', { reason: err?.message || t('app.storageUnavailable') })));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [project, versions, logo, animations, animation, candidates, resumeStep, brief, lockedPalette]);
+
+  // `requested` is the step from the URL when the project is opened by link,
+  // reload or Back; otherwise the project resumes where it was left.
+  const openProject = async (saved: Project, requested?: AppStep) => {
+    setError(null);
+    if (saved.id !== project?.id) loadingProjectId.current = saved.id;
+    try {
+      const restoredAnimations: AnimationData[] = [];
+      for (const stored of saved.animations) {
+        const video = await getVideo(saved.id, stored.id);
+        if (video) restoredAnimations.push({ ...stored, video, videoUrl: URL.createObjectURL(video) });
+      }
+      animations.forEach(a => URL.revokeObjectURL(a.videoUrl));
+
+      const restoredLogos: LogoData[] = saved.logos.map(({ favorite, ...stored }) => ({
+        ...stored,
+        url: `data:${stored.mimeType};base64,${stored.base64}`
+      }));
+      const favoriteIds = new Set(saved.logos.filter(l => l.favorite).map(l => l.id));
+      const selectedLogo = restoredLogos.find(l => l.id === saved.selectedLogoId) || restoredLogos[restoredLogos.length - 1] || null;
+      const selectedAnimation = restoredAnimations.find(a => a.id === saved.selectedAnimationId) || restoredAnimations[restoredAnimations.length - 1] || null;
+
+      setProject({ id: saved.id, name: saved.name, createdAt: saved.createdAt });
+      setVersions(restoredLogos);
+      setCandidates(restoredLogos.filter(l => favoriteIds.has(l.id)).map(l => ({ id: l.id, status: 'ready', logo: l, favorite: true })));
+      setLogo(selectedLogo);
+      setAnimations(restoredAnimations);
+      setAnimation(selectedAnimation);
+      setBrief(saved.brief || DEFAULT_BRIEF);
+      setLockedPalette(saved.lockedPalette || null);
+      if (selectedAnimation) setAspectRatios([selectedAnimation.aspectRatio]);
+
+      // Fall back to the furthest step the restored data still supports.
+      const target = guardRoute(
+        { step: requested || saved.step, projectId: saved.id },
+        { ready: workflowReady, hasLogo: !!selectedLogo, hasAnimation: !!selectedAnimation }
+      );
+      if (isProjectStep(target.step)) setResumeStep(target.step);
+      navigate(target, { replace: !!requested });
+    } catch (err: any) {
+      loadingProjectId.current = null;
+      setError(err?.message || t('app.openFailed'));
+    }
+  };
+
+  const startNewProject = () => {
+    animations.forEach(a => URL.revokeObjectURL(a.videoUrl));
+    setProject(null);
+    setVersions([]);
+    setCandidates([]);
+    setLogo(null);
+    setAnimations([]);
+    setAnimation(null);
+    setBrief(DEFAULT_BRIEF);
+    setLockedPalette(null);
+    setDesignMode('generate');
+    setError(null);
+    navigate({ step: AppStep.Design });
+  };
+
+  // A project URL that is not the open project (a link, reload or Back)
+  // loads that project.
+  useEffect(() => {
+    const id = route.projectId;
+    if (!id || id === project?.id || loadingProjectId.current === id) return;
+    loadingProjectId.current = id;
+    getProject(id)
+      .then(saved => {
+        if (saved) return openProject(saved, route.step);
+        loadingProjectId.current = null;
+        setError(t('app.projectMissing'));
+        navigate({ step: AppStep.Library }, { replace: true });
+      })
+      .catch((err: any) => {
+        loadingProjectId.current = null;
+        setError(err?.message || t('app.openFailed'));
+      });
+  }, [route.projectId]);
+
+  // Route guards: give an unsaved-project URL the project's id once it has
+  // one, and send steps whose prerequisites are missing back a step.
+  useEffect(() => {
+    if (route.projectId && route.projectId !== project?.id) return;
+    if (isProjectStep(route.step) && !route.projectId && project) {
+      navigate({ ...route, projectId: project.id }, { replace: true });
+      return;
+    }
+    const guarded = guardRoute(route, { ready: workflowReady, hasLogo: !!logo, hasAnimation: !!animation });
+    if (!sameRoute(guarded, route)) navigate(guarded, { replace: true });
+  }, [route, project?.id, logo, animation, workflowReady]);
+
+  // Every change of selected logo or animation is undoable, except the ones
+  // made by undo and redo themselves.
+  const lastSelection = useRef<Selection>({});
+  const applyingHistory = useRef(false);
+  useEffect(() => {
+    const current = { logoId: logo?.id, animationId: animation?.id };
+    const previous = lastSelection.current;
+    lastSelection.current = current;
+    if (applyingHistory.current) {
+      applyingHistory.current = false;
+      return;
+    }
+    if (sameSelection(previous, current) || (!previous.logoId && !previous.animationId)) return;
+    setSelectionHistory(history => recordSelection(history, previous));
+  }, [logo?.id, animation?.id]);
+
+  // Declared after the effect above so that opening a project starts clean.
+  useEffect(() => {
+    setSelectionHistory(EMPTY_SELECTION_HISTORY);
+    if (loadingProjectId.current === project?.id) loadingProjectId.current = null;
+  }, [project?.id]);
+
+  const applySelection = (selection: Selection) => {
+    const nextLogo = versions.find(v => v.id === selection.logoId) || null;
+    const nextAnimation = animations.find(a => a.id === selection.animationId) || null;
+    if (sameSelection({ logoId: nextLogo?.id, animationId: nextAnimation?.id }, lastSelection.current)) return;
+    applyingHistory.current = true;
+    setLogo(nextLogo);
+    setAnimation(nextAnimation);
+  };
+
+  const undo = () => {
+    const result = undoSelection(selectionHistory, lastSelection.current);
+    if (!result) return;
+    setSelectionHistory(result.history);
+    applySelection(result.selection);
+  };
+
+  const redo = () => {
+    const result = redoSelection(selectionHistory, lastSelection.current);
+    if (!result) return;
+    setSelectionHistory(result.history);
+    applySelection(result.selection);
+  };
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y), unless a text field has focus
+  // and should get its own undo.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || !isProjectStep(step)) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [step, selectionHistory, versions, animations]);
+
+  // In AI Studio a missing key opens the picker; success is assumed once it
+  // closes to avoid racing the host. Other modes are set up on this step.
   const checkApiKey = async () => {
+    if (!getProvider().requiresApiKey) {
+      setStep(AppStep.Design);
+      return;
+    }
     try {
-      const hasKey = await window.aistudio.hasSelectedApiKey();
-      if (hasKey) {
-        setStep(AppStep.Design);
-      } else {
-        await window.aistudio.openSelectKey();
-        setStep(AppStep.Design);
+      if (!(await hasCredentials())) {
+        if (getCredentialMode() !== 'aistudio') {
+          setError(t('app.credentialsNeeded'));
+          return;
+        }
+        await requestCredentials();
       }
+      setError(null);
+      setStep(AppStep.Design);
     } catch (e) {
-      setError("Failed to verify API key selection. Please try again.");
+      setError(t('app.credentialsFailed'));
     }
   };
 
-  const handleGenerateLogo = async (description: string) => {
-    setIsGenerating(true);
+  // Shows a classified error with the action that re-runs the failed request.
+  // Key problems also reopen the AI Studio key picker straight away.
+  const reportError = (err: unknown, retry?: () => void) => {
+    const classified = classifyError(err);
+    if (classified.kind === 'cancelled') return;
+    setError(classified);
+    setRetryFailed(() => retry || null);
+    if (classified.kind === 'auth' && getProvider().requiresApiKey && getCredentialMode() === 'aistudio') {
+      requestCredentials();
+    }
+  };
+
+  // Outside AI Studio the key lives on the Setup step.
+  const reselectKey = async () => {
+    if (getCredentialMode() === 'aistudio') {
+      setError(null);
+      await requestCredentials();
+    } else {
+      setStep(AppStep.Setup);
+    }
+  };
+
+  const editAfterError = () => {
     setError(null);
+    if (step === AppStep.Animate || step === AppStep.View) {
+      setStep(AppStep.Animate);
+    } else {
+      setDesignMode('generate');
+      setStep(AppStep.Design);
+      setTimeout(() => document.getElementById('logo-prompt')?.focus(), 0);
+    }
+  };
+
+  const updateCandidate = (id: string, patch: Partial<LogoCandidate>) => {
+    setCandidates(prev => prev.map(c => (c.id === id ? { ...c, ...patch } : c)));
+  };
+
+  const toggleFavorite = (id: string) => {
+    setCandidates(prev => prev.map(c => (c.id === id ? { ...c, favorite: !c.favorite } : c)));
+  };
+
+  const isDesigning = candidates.some(c => c.status === 'pending');
+
+  // Projects are created lazily, on the first logo generated or uploaded.
+  const ensureProject = (fallbackName: string): string => {
+    if (project) return project.id;
+    const created = { id: crypto.randomUUID(), name: brief.organizationName.trim() || fallbackName.slice(0, 48).trim() || t('app.untitled'), createdAt: Date.now() };
+    setProject(created);
+    return created.id;
+  };
+
+  // Palette extraction is best effort: a logo without one still works. The
+  // alt text is drafted from the palette and the current brief.
+  const withPalette = async (created: LogoData): Promise<LogoData> => {
+    let analyzed = created;
+    try {
+      analyzed = { ...created, palette: await extractPalette(created.url) };
+    } catch {
+      // Keep going without a palette.
+    }
+    return { ...analyzed, altText: generateAltText(analyzed, brief) };
+  };
+
+  // Edits the selected version in place, wherever it is shown.
+  const updateAltText = (altText: string) => {
+    if (!logo) return;
+    const updated = { ...logo, altText };
+    setLogo(updated);
+    setVersions(prev => prev.map(v => (v.id === updated.id ? updated : v)));
+    setCandidates(prev => prev.map(c => (c.logo?.id === updated.id ? { ...c, logo: updated } : c)));
+  };
+
+  // Adds an uploaded image as a version and uses it as the starting frame.
+  const animateUploadedImage = async (image: ReferenceImage) => {
+    const uploaded = await withPalette({
+      id: crypto.randomUUID(),
+      uploaded: true,
+      url: image.url,
+      base64: image.base64,
+      mimeType: image.mimeType,
+      prompt: `Uploaded image: ${image.name}`,
+      size: '1K',
+      createdAt: Date.now()
+    });
+    ensureProject(image.name.replace(/\.[a-z0-9]+$/i, ''));
+    setVersions(prev => [...prev, uploaded]);
+    setLogo(uploaded);
+    setStep(AppStep.Animate);
+  };
+
+  // Checks the budget caps before a paid request. Returns false when the
+  // request should not go ahead.
+  const approveSpend = (estimate: number, projectId = project?.id): boolean => {
+    const exceeded = checkBudget({ projectId, estimate });
+    if (!exceeded) return true;
+    const message = t(exceeded.scope === 'daily' ? 'app.budget.daily' : 'app.budget.project', {
+      total: formatCost(exceeded.spent + exceeded.estimate),
+      limit: formatCost(exceeded.limit)
+    });
+    if (exceeded.action === 'confirm') return window.confirm(`${message} ${t('app.budget.confirm')}`);
+    setError(`${message} ${t('app.budget.blocked')}`);
+    return false;
+  };
+
+  // Video jobs, retries included, are checked by the job manager.
+  useEffect(() => setSpendApprover(({ projectId, estimate }) => approveSpend(estimate, projectId)), [locale]);
+
+  const handleGenerateLogo = async () => {
+    setError(null);
+    // A brief in another language costs a translation call first.
+    const translation = brief.language && brief.language !== 'en' ? estimateRequest({ model: getProvider().textModel, count: 1 }) : 0;
+    if (!approveSpend(estimateRequest({ model: getProvider().imageModel, imageSize, count: variationCount }) + translation)) return;
+    let englishBrief: BrandBrief;
+    try {
+      englishBrief = await translateBrief(brief, { projectId: project?.id });
+    } catch (err) {
+      reportError(err, handleGenerateLogo);
+      return;
+    }
+    const description = compileBrief(englishBrief);
     let msgIndex = 0;
     const interval = setInterval(() => {
-      setProgressMessage(loadingMessages[msgIndex % loadingMessages.length]);
+      setProgressMessage(t(LOADING_MESSAGES[msgIndex % LOADING_MESSAGES.length]));
       msgIndex++;
     }, 3000);
 
+    // Favorites from earlier rounds stay in the grid; everything else is replaced.
+    const batch: LogoCandidate[] = Array.from({ length: variationCount }, () => ({
+      id: crypto.randomUUID(),
+      status: 'pending',
+      favorite: false
+    }));
+    setCandidates(prev => [...batch, ...prev.filter(c => c.favorite)]);
+    const projectId = ensureProject(description);
+    const historyEntry = recordPrompt({ kind: 'logo', prompt: description, projectId, brief });
+
     try {
-      const result = await generateLogo(description, imageSize);
-      setLogo({ ...result, prompt: description });
-      setStep(AppStep.Design);
-    } catch (err: any) {
-      // Fix: Handle "Requested entity was not found" error by prompting for API key selection.
-      if (err.message?.includes("Requested entity was not found")) {
-        setError("Your API key may not have access or has been reset. Please re-select.");
-        await window.aistudio.openSelectKey();
-      } else {
-        setError(err.message || "Something went wrong while generating the logo.");
+      const results = await Promise.allSettled(batch.map(async (candidate, index) => {
+        try {
+          const result = await generateLogo(description, imageSize, {
+            variation: index,
+            suffix: englishBrief.suffix,
+            reference: reference ? { image: reference, mode: referenceMode } : undefined,
+            palette: lockedPalette || undefined,
+            projectId
+          });
+          const generated = await withPalette({ ...result, id: candidate.id, prompt: description, size: imageSize, createdAt: Date.now() });
+          updateCandidate(candidate.id, { status: 'ready', logo: generated });
+          setVersions(prev => [...prev, generated]);
+          return generated;
+        } catch (err: any) {
+          updateCandidate(candidate.id, { status: 'failed', error: classifyError(err).message || t('app.generationFailed') });
+          throw err;
+        }
+      }));
+
+      const first = results.find((r): r is PromiseFulfilledResult<LogoData> => r.status === 'fulfilled');
+      if (first) {
+        createImageThumbnail(first.value.url).then(thumbnail => setPromptThumbnail(historyEntry.id, thumbnail)).catch(() => {});
+        setLogo(first.value);
+        setStep(AppStep.Design);
+        return;
       }
+
+      reportError((results[0] as PromiseRejectedResult).reason, handleGenerateLogo);
     } finally {
       clearInterval(interval);
-      setIsGenerating(false);
     }
   };
 
-  const handleAnimate = async (animPrompt: string) => {
+  // Refinements always branch from the selected version, so stepping back in
+  // the history and refining again starts a new branch.
+  const handleRefineLogo = async (instruction: string) => {
     if (!logo) return;
-    setIsGenerating(true);
     setError(null);
-    let msgIndex = 0;
-    const interval = setInterval(() => {
-      setProgressMessage(animationMessages[msgIndex % animationMessages.length]);
-      msgIndex++;
-    }, 4000);
+    if (!approveSpend(estimateRequest({ model: getProvider().imageModel, imageSize, count: 1 }))) return;
+    setIsRefining(true);
+    const historyEntry = recordPrompt({ kind: 'refine', prompt: instruction, projectId: project?.id });
 
     try {
-      const videoUrl = await animateLogo(
-        { base64: logo.base64, mimeType: logo.mimeType },
-        animPrompt,
-        aspectRatio
-      );
-      setAnimation({ videoUrl, prompt: animPrompt });
-      setStep(AppStep.View);
-    } catch (err: any) {
-      // Fix: Add API key reset logic to the animation step as well.
-      if (err.message?.includes("Requested entity was not found")) {
-        setError("Your API key may not have access or has been reset. Please re-select.");
-        await window.aistudio.openSelectKey();
+      const result = await refineLogo({ base64: logo.base64, mimeType: logo.mimeType }, instruction, imageSize, { palette: lockedPalette || undefined, projectId: project?.id });
+      const refined = await withPalette({
+        ...result,
+        id: crypto.randomUUID(),
+        parentId: logo.id,
+        editInstruction: instruction,
+        prompt: logo.prompt,
+        size: imageSize,
+        createdAt: Date.now()
+      });
+      setVersions(prev => [...prev, refined]);
+      setLogo(refined);
+      createImageThumbnail(refined.url).then(thumbnail => setPromptThumbnail(historyEntry.id, thumbnail)).catch(() => {});
+    } catch (err) {
+      reportError(err, () => handleRefineLogo(instruction));
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  // Animations run as background jobs: one per prompt and format.
+  const handleAnimate = () => {
+    const prompts = animationPrompts.map(p => p.trim()).filter(Boolean);
+    if (!logo || !project || !prompts.length || !aspectRatios.length) return;
+    setError(null);
+    const batch = submitVideoBatch({ projectId: project.id, logo, prompts, aspectRatios, timeoutMs: jobTimeoutMs, palette: lockedPalette || undefined });
+    if (!batch.length) return;
+    prompts.forEach(prompt => recordPrompt({ kind: 'animation', prompt, projectId: project.id }));
+    if (prompts.length * aspectRatios.length > 1) setSidePanel('queue');
+  };
+
+  const exportSnapshot = async (kind: 'presentation' | 'project') => {
+    const snapshot = snapshotProject();
+    if (!snapshot) return;
+    setIsExporting(true);
+    try {
+      if (kind === 'presentation') {
+        downloadBlob(await buildPresentation(snapshot), `${slugify(snapshot.name)}-presentation.html`);
       } else {
-        setError(err.message || "Failed to animate logo.");
+        downloadBlob(await exportProjectFile(snapshot), `${slugify(snapshot.name)}${PROJECT_FILE_EXTENSION}`);
       }
+    } catch (err: any) {
+      setError(err?.message || t('app.exportFailed'));
     } finally {
-      clearInterval(interval);
-      setIsGenerating(false);
+      setIsExporting(false);
     }
   };
 
-  const renderProgress = () => (
-    <div className="fixed inset-0 bg-white/90 backdrop-blur-sm z-50 flex flex-col items-center justify-center p-6 text-center">
-      <div className="w-24 h-24 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin mb-8"></div>
-      <h2 className="text-2xl font-bold text-gray-900 mb-2">Creating Magic</h2>
-      <p className="text-indigo-600 font-medium animate-pulse">{progressMessage}</p>
-      <p className="mt-8 text-sm text-gray-500 max-w-xs">
-        High-quality AI generation typically takes between 30 seconds to 2 minutes.
-      </p>
-    </div>
-  );
+  const openAnimation = (result: AnimationData) => {
+    setAnimation(result);
+    setStep(AppStep.View);
+  };
+
+  // Finished jobs for the open project join its animations; when the user is
+  // still waiting on the Animate step for a single job, jump to the result.
+  useEffect(() => onVideoJobSettled((job, created) => {
+    if (job.projectId !== project?.id) {
+      if (created) URL.revokeObjectURL(created.videoUrl);
+      return;
+    }
+    if (!created) {
+      // Key problems affect every job; other failures only get the banner when
+      // the user is waiting on a single job, the queue panel lists the rest.
+      const isSingle = getVideoJobs().filter(j => j.batchId === job.batchId).length === 1;
+      if (job.status !== 'cancelled' && (job.errorKind === 'auth' || isSingle)) {
+        reportError(
+          new GenerationError(job.errorKind || 'unknown', job.error || t('app.animateFailed')),
+          () => retryVideoJob(job.id, job.errorKind === 'timeout' ? job.timeoutMs * 2 : undefined)
+        );
+      }
+      return;
+    }
+    setAnimations(prev => (prev.some(a => a.id === created.id) ? prev : [...prev, created]));
+    createVideoThumbnail(created.videoUrl).then(thumbnail => setPromptThumbnailFor('animation', job.prompt, thumbnail)).catch(() => {});
+    const isSingle = getVideoJobs().filter(j => j.batchId === job.batchId).length === 1;
+    if (isSingle) {
+      setAnimation(created);
+      if (step === AppStep.Animate) setStep(AppStep.View);
+    } else {
+      setAnimation(prev => prev || created);
+    }
+  }), [project?.id, step]);
+
+  const projectJobs = videoJobs.filter(job => job.projectId === project?.id);
+  const pendingJobCount = videoJobs.filter(isJobPending).length;
+  const todaySpend = summarizeUsage(usage.events.filter(e => dayKey(e.timestamp) === dayKey(Date.now())), usage.prices).cost;
+  const toggleAspectRatio = (ratio: AspectRatio) => {
+    setAspectRatios(prev => (prev.includes(ratio) ? prev.filter(r => r !== ratio) : [...prev, ratio]));
+  };
+  const setActivePrompt = (text: string) => {
+    setAnimationPrompts(prev => prev.map((p, i) => (i === Math.min(activePromptIndex, prev.length - 1) ? text : p)));
+  };
+  const jobCount = animationPrompts.filter(p => p.trim()).length * aspectRatios.length;
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -139,23 +608,83 @@ const App: React.FC = () => {
           </div>
           <div>
             <h1 className="font-bold text-xl tracking-tight text-gray-900">WisdomMotion</h1>
-            <p className="text-xs text-gray-500 font-medium uppercase tracking-widest">AI Branding Suite</p>
+            <p className="text-xs text-gray-500 font-medium uppercase tracking-widest">{t('app.tagline')}</p>
           </div>
         </div>
+        <div className="flex items-center gap-6">
         <nav className="hidden md:flex items-center gap-6">
-          <button onClick={() => setStep(AppStep.Design)} className={`text-sm font-semibold ${step === AppStep.Design ? 'text-indigo-600' : 'text-gray-600 hover:text-indigo-600'}`}>Designer</button>
-          <button onClick={() => logo && setStep(AppStep.Animate)} disabled={!logo} className={`text-sm font-semibold ${!logo ? 'opacity-30' : ''} ${step === AppStep.Animate ? 'text-indigo-600' : 'text-gray-600 hover:text-indigo-600'}`}>Animator</button>
+          <button
+            onClick={() => setSidePanel(open => (open === 'usage' ? null : 'usage'))}
+            className={`px-2 py-1 rounded-md text-xs font-bold flex items-center gap-2 ${sidePanel === 'usage' ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            title={t('app.spendTitle')}
+          >
+            <i className="fas fa-gauge-high"></i>
+            {t('app.spendToday', { cost: formatCost(todaySpend) })}
+          </button>
+          <button
+            onClick={() => setSidePanel(open => (open === 'queue' ? null : 'queue'))}
+            className={`px-2 py-1 rounded-md text-xs font-bold flex items-center gap-2 ${sidePanel === 'queue' ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100'}`}
+          >
+            <i className={`fas fa-film ${pendingJobCount > 0 ? 'fa-beat-fade' : ''}`}></i>
+            {pendingJobCount > 0 ? t('app.inQueue', { count: pendingJobCount }) : t('app.queue')}
+          </button>
+          {isProjectStep(step) && (
+            <div className="flex items-center gap-1">
+              <button onClick={undo} disabled={!selectionHistory.past.length} className="w-7 h-7 rounded-md text-gray-500 hover:bg-gray-100 disabled:opacity-30" title={t('app.undo')}>
+                <i className="fas fa-rotate-left"></i>
+              </button>
+              <button onClick={redo} disabled={!selectionHistory.future.length} className="w-7 h-7 rounded-md text-gray-500 hover:bg-gray-100 disabled:opacity-30" title={t('app.redo')}>
+                <i className="fas fa-rotate-right"></i>
+              </button>
+            </div>
+          )}
+          {!getProvider().requiresApiKey && (
+            <span className="px-2 py-1 rounded-md bg-amber-100 text-amber-800 text-xs font-bold uppercase tracking-wider">
+              {getProvider().label}
+            </span>
+          )}
+          <button onClick={() => setStep(AppStep.Library)} className={`text-sm font-semibold ${step === AppStep.Library ? 'text-indigo-600' : 'text-gray-600 hover:text-indigo-600'}`}>{t('app.nav.projects')}</button>
+          <button onClick={() => setStep(AppStep.Design)} className={`text-sm font-semibold ${step === AppStep.Design ? 'text-indigo-600' : 'text-gray-600 hover:text-indigo-600'}`}>{t('app.nav.designer')}</button>
+          <button onClick={() => setStep(AppStep.Animate)} disabled={!logo} className={`text-sm font-semibold ${!logo ? 'opacity-30' : ''} ${step === AppStep.Animate ? 'text-indigo-600' : 'text-gray-600 hover:text-indigo-600'}`}>{t('app.nav.animator')}</button>
         </nav>
+        <label className="flex items-center gap-2 text-gray-500" title={t('app.language')}>
+          <i className="fas fa-globe"></i>
+          <select
+            value={locale}
+            onChange={(e) => setLocale(e.target.value as Locale)}
+            aria-label={t('app.language')}
+            className="rounded-md border-gray-200 bg-white py-1 text-sm font-semibold text-gray-700"
+          >
+            {(Object.keys(LOCALES) as Locale[]).map(id => <option key={id} value={id}>{LOCALES[id].label}</option>)}
+          </select>
+        </label>
+        </div>
       </header>
 
-      {isGenerating && renderProgress()}
+      {sidePanel === 'queue' && (
+        <QueuePanel
+          jobs={videoJobs}
+          projectId={project?.id || null}
+          animations={animations}
+          onOpenAnimation={openAnimation}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+
+      {sidePanel === 'usage' && <UsagePanel projectId={project?.id || null} onClose={() => setSidePanel(null)} />}
 
       <main className="flex-1 max-w-6xl mx-auto w-full p-4 md:p-8">
         {error && (
-          <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-500 text-red-700 flex items-center gap-3">
-            <i className="fas fa-exclamation-circle"></i>
-            <p className="text-sm font-medium">{error}</p>
-          </div>
+          <ErrorBanner
+            error={error}
+            onRetry={retryFailed ? () => {
+              setError(null);
+              retryFailed();
+            } : undefined}
+            onReselectKey={reselectKey}
+            onEditBrief={editAfterError}
+            onDismiss={() => setError(null)}
+          />
         )}
 
         {step === AppStep.Setup && (
@@ -163,65 +692,165 @@ const App: React.FC = () => {
             <div className="w-24 h-24 gradient-bg rounded-3xl flex items-center justify-center text-white text-4xl mb-8 shadow-xl">
               <i className="fas fa-rocket"></i>
             </div>
-            <h2 className="text-4xl font-extrabold text-gray-900 mb-4 tracking-tight">Let's build your brand.</h2>
+            <h2 className="text-4xl font-extrabold text-gray-900 mb-4 tracking-tight">{t('setup.title')}</h2>
             <p className="text-lg text-gray-600 mb-10 leading-relaxed">
-              Experience the power of Gemini 3 Pro and Veo. Design high-fidelity logos and animate them with professional-grade motion graphics in seconds.
+              {t('setup.intro')}
             </p>
-            <button 
-              onClick={checkApiKey}
-              className="px-10 py-4 gradient-bg text-white rounded-xl font-bold text-lg shadow-lg hover:shadow-indigo-200/50 hover:-translate-y-1 transition-all duration-200 flex items-center gap-3"
+            {getProvider().requiresApiKey ? (
+              <CredentialsSetup onStart={checkApiKey} />
+            ) : (
+              <button 
+                onClick={checkApiKey}
+                className="px-10 py-4 gradient-bg text-white rounded-xl font-bold text-lg shadow-lg hover:shadow-indigo-200/50 hover:-translate-y-1 transition-all duration-200 flex items-center gap-3"
+              >
+                {t('credentials.start')}
+                <i className="fas fa-arrow-right rtl:-scale-x-100"></i>
+              </button>
+            )}
+            <button
+              onClick={() => setStep(AppStep.Library)}
+              className="mt-4 text-sm font-bold text-indigo-600 hover:underline flex items-center gap-2"
             >
-              Get Started
-              <i className="fas fa-arrow-right"></i>
+              <i className="fas fa-folder-open"></i>
+              {t('setup.openProject')}
             </button>
-            <p className="mt-6 text-xs text-gray-400">
-              Requires a paid Google Cloud Project API Key. <a href="https://ai.google.dev/gemini-api/docs/billing" className="underline hover:text-indigo-600" target="_blank" rel="noreferrer">More info on billing</a>.
-            </p>
+            {getProvider().requiresApiKey && <p className="mt-6 text-xs text-gray-400">
+              {t('setup.billing')} <a href="https://ai.google.dev/gemini-api/docs/billing" className="underline hover:text-indigo-600" target="_blank" rel="noreferrer">{t('setup.billingLink')}</a>
+            </p>}
           </div>
         )}
 
+        {step === AppStep.Library && (
+          <ProjectLibrary
+            currentProjectId={project?.id || null}
+            onOpen={openProject}
+            onNew={startNewProject}
+            onRenamed={(id, name) => setProject(prev => (prev && prev.id === id ? { ...prev, name } : prev))}
+          />
+        )}
+
         {step === AppStep.Design && (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
             <div className="space-y-8">
               <div>
-                <h2 className="text-3xl font-bold text-gray-900 mb-2">Design Your Logo</h2>
-                <p className="text-gray-600">Tell us about your organization. Be descriptive about colors, shapes, and feelings.</p>
+                <h2 className="text-3xl font-bold text-gray-900 mb-2">{t('design.title')}</h2>
+                <p className="text-gray-600">{t('design.subtitle')}</p>
               </div>
 
-              <div className="space-y-4">
-                <label className="block">
-                  <span className="text-sm font-bold text-gray-700 uppercase tracking-wider">Logo Description</span>
-                  <textarea 
-                    className="mt-2 block w-full rounded-xl border-gray-200 bg-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 h-32 p-4 text-gray-800"
-                    placeholder="e.g., A minimalist wise owl reading a book, blue and white theme, modern flat design for 'More Wisdom' educational foundation."
-                    defaultValue={logo?.prompt || "A clean educational logo for 'More Wisdom' non-profit, featuring a stylized open book and a sun rising, blue and gold colors, minimalist vector style."}
-                    id="logo-prompt"
-                  ></textarea>
-                </label>
+              {logo && (
+                <div className="inline-flex p-1 bg-gray-100 rounded-xl">
+                  <button
+                    onClick={() => setDesignMode('generate')}
+                    className={`px-4 py-2 rounded-lg text-sm font-bold transition-colors ${designMode === 'generate' ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                  >
+                    <i className="fas fa-wand-magic-sparkles me-2"></i>{t('design.newDesign')}
+                  </button>
+                  <button
+                    onClick={() => setDesignMode('refine')}
+                    className={`px-4 py-2 rounded-lg text-sm font-bold transition-colors ${designMode === 'refine' ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                  >
+                    <i className="fas fa-pen-nib me-2"></i>{t('design.refine')}
+                  </button>
+                </div>
+              )}
 
-                <div className="grid grid-cols-2 gap-4">
+              {logo && designMode === 'refine' && (
+                <div className="space-y-4">
                   <label className="block">
-                    <span className="text-sm font-bold text-gray-700 uppercase tracking-wider">Image Quality</span>
+                    <span className="text-sm font-bold text-gray-700 uppercase tracking-wider">{t('design.editInstruction')}</span>
+                    <textarea 
+                      className="mt-2 block w-full rounded-xl border-gray-200 bg-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 h-32 p-4 text-gray-800"
+                      placeholder={t('design.editPlaceholder')}
+                      value={refineInstruction}
+                      onChange={(e) => setRefineInstruction(e.target.value)}
+                    ></textarea>
+                  </label>
+                  <button 
+                    onClick={() => {
+                      const instruction = refineInstruction.trim();
+                      if (instruction) handleRefineLogo(instruction);
+                    }}
+                    disabled={isRefining}
+                    className="w-full py-2.5 gradient-bg text-white rounded-xl font-bold shadow-md hover:opacity-90 transition-opacity flex items-center justify-center gap-2 disabled:opacity-50"
+                  >
+                    <i className={`fas ${isRefining ? 'fa-spinner fa-spin' : 'fa-pen-nib'}`}></i>
+                    {t('design.refineSelected')}
+                  </button>
+                  <PromptLibrary
+                    kind="refine"
+                    brief={brief}
+                    currentText={refineInstruction}
+                    onUse={setRefineInstruction}
+                  />
+                </div>
+              )}
+
+              <div className={`space-y-4 ${logo && designMode === 'refine' ? 'hidden' : ''}`}>
+                <BriefForm brief={brief} onChange={setBrief} reference={reference ? referenceMode : undefined} palette={lockedPalette || undefined} />
+                <PromptLibrary
+                  kind="logo"
+                  brief={brief}
+                  currentText={brief.details}
+                  onUse={(text, saved) => setBrief(saved || { ...brief, details: text })}
+                />
+
+                <ImageDropzone
+                  image={reference}
+                  onChange={setReference}
+                  label={t('design.referenceLabel')}
+                  hint={t('design.referenceHint')}
+                />
+                {reference && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {(Object.keys(REFERENCE_MODES) as ReferenceMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setReferenceMode(mode)}
+                        className={`py-2 rounded-xl border text-sm font-bold transition-colors ${referenceMode === mode ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-gray-200 bg-white text-gray-600 hover:border-indigo-300'}`}
+                      >
+                        {t(REFERENCE_LABELS[mode])}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {lockedPalette && (
+                  <LockedPaletteNotice palette={lockedPalette} label="design.lockedPalette" onUnlock={() => setLockedPalette(null)} />
+                )}
+
+                <div className="grid grid-cols-3 gap-4">
+                  <label className="block">
+                    <span className="text-sm font-bold text-gray-700 uppercase tracking-wider">{t('design.quality')}</span>
                     <select 
                       value={imageSize}
                       onChange={(e) => setImageSize(e.target.value as ImageSize)}
                       className="mt-2 block w-full rounded-xl border-gray-200 bg-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 p-2.5"
                     >
-                      <option value="1K">Standard (1K)</option>
-                      <option value="2K">High Definition (2K)</option>
-                      <option value="4K">Ultra HD (4K)</option>
+                      <option value="1K">{t('design.quality.1K')}</option>
+                      <option value="2K">{t('design.quality.2K')}</option>
+                      <option value="4K">{t('design.quality.4K')}</option>
+                    </select>
+                  </label>
+                  <label className="block">
+                    <span className="text-sm font-bold text-gray-700 uppercase tracking-wider">{t('design.variations')}</span>
+                    <select 
+                      value={variationCount}
+                      onChange={(e) => setVariationCount(Number(e.target.value))}
+                      className="mt-2 block w-full rounded-xl border-gray-200 bg-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 p-2.5"
+                    >
+                      {[1, 2, 3, 4, 6].map(n => (
+                        <option key={n} value={n}>{n === 1 ? t('design.single') : t('design.options', { count: n })}</option>
+                      ))}
                     </select>
                   </label>
                   <div className="flex items-end">
                     <button 
-                      onClick={() => {
-                        const prompt = (document.getElementById('logo-prompt') as HTMLTextAreaElement).value;
-                        handleGenerateLogo(prompt);
-                      }}
-                      className="w-full py-2.5 gradient-bg text-white rounded-xl font-bold shadow-md hover:opacity-90 transition-opacity flex items-center justify-center gap-2"
+                      onClick={handleGenerateLogo}
+                      disabled={isDesigning}
+                      className="w-full py-2.5 gradient-bg text-white rounded-xl font-bold shadow-md hover:opacity-90 transition-opacity flex items-center justify-center gap-2 disabled:opacity-50"
                     >
-                      <i className="fas fa-wand-magic-sparkles"></i>
-                      Generate
+                      <i className={`fas ${isDesigning ? 'fa-spinner fa-spin' : 'fa-wand-magic-sparkles'}`}></i>
+                      {t('design.generate')}
                     </button>
                   </div>
                 </div>
@@ -230,45 +859,102 @@ const App: React.FC = () => {
               <div className="bg-indigo-50 rounded-2xl p-6 border border-indigo-100">
                 <h3 className="font-bold text-indigo-900 mb-2 flex items-center gap-2">
                   <i className="fas fa-lightbulb"></i>
-                  Pro Tip
+                  {t('design.tipTitle')}
                 </h3>
                 <p className="text-sm text-indigo-800 leading-relaxed">
-                  Mentioning "minimalist", "vector style", or "flat design" helps produce clean results that animate beautifully. Avoid too much text for the best visual impact.
+                  {t('design.tip')}
                 </p>
               </div>
             </div>
 
             <div className="flex flex-col items-center justify-center gap-6">
-              <div className="w-full aspect-square bg-white rounded-3xl border-2 border-dashed border-gray-200 flex items-center justify-center overflow-hidden shadow-2xl relative group">
-                {logo ? (
-                  <>
-                    <img src={logo.url} alt="Generated Logo" className="w-full h-full object-contain" />
-                    <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-4">
-                      <a href={logo.url} download="logo.png" className="w-12 h-12 bg-white rounded-full flex items-center justify-center text-gray-900 hover:scale-110 transition-transform shadow-lg">
-                        <i className="fas fa-download"></i>
-                      </a>
+              {logo && (
+                <div className="inline-flex p-1 bg-gray-100 rounded-xl self-end">
+                  {([['artwork', 'fa-image', 'design.preview.artwork'], ['mockups', 'fa-shirt', 'design.preview.mockups'], ['legibility', 'fa-universal-access', 'design.preview.legibility']] as const).map(([mode, icon, label]) => (
+                    <button
+                      key={mode}
+                      onClick={() => setPreviewMode(mode)}
+                      className={`px-4 py-1.5 rounded-lg text-sm font-bold transition-colors ${previewMode === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                    >
+                      <i className={`fas ${icon} me-2`}></i>{t(label)}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {logo && previewMode === 'mockups' ? (
+                <MockupPanel logo={logo} name={project?.name || brief.organizationName || t('design.logoFallback')} />
+              ) : logo && previewMode === 'legibility' ? (
+                <LegibilityPanel logo={logo} brief={brief} onAltTextChange={updateAltText} />
+              ) : (
+                <div className="w-full aspect-square bg-white rounded-3xl border-2 border-dashed border-gray-200 flex items-center justify-center overflow-hidden shadow-2xl relative group">
+                  {logo ? (
+                    <>
+                      <img src={logo.url} alt={logo.altText || t('design.logoAlt')} className="w-full h-full object-contain" />
+                      <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-4">
+                        <a href={logo.url} download="logo.png" className="w-12 h-12 bg-white rounded-full flex items-center justify-center text-gray-900 hover:scale-110 transition-transform shadow-lg">
+                          <i className="fas fa-download"></i>
+                        </a>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-center p-8">
+                      <div className="text-gray-300 text-6xl mb-4">
+                        <i className="fas fa-image"></i>
+                      </div>
+                      <p className="text-gray-400 font-medium">{t('design.previewEmpty')}</p>
+                      {reference && (
+                        <button onClick={() => animateUploadedImage(reference)} className="mt-4 text-sm font-bold text-indigo-600 hover:underline">
+                          <i className="fas fa-film me-1"></i> {t('design.skipToAnimate')}
+                        </button>
+                      )}
                     </div>
-                  </>
-                ) : (
-                  <div className="text-center p-8">
-                    <div className="text-gray-300 text-6xl mb-4">
-                      <i className="fas fa-image"></i>
+                  )}
+                  {isRefining && (
+                    <div className="absolute inset-0 bg-white/80 flex flex-col items-center justify-center gap-3">
+                      <div className="w-12 h-12 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin"></div>
+                      <p className="text-indigo-600 font-medium">{t('design.applyingEdit')}</p>
                     </div>
-                    <p className="text-gray-400 font-medium">Your logo preview will appear here</p>
-                  </div>
-                )}
-              </div>
+                  )}
+                </div>
+              )}
+
+              {logo && <VersionHistory versions={versions} selected={logo} onSelect={setLogo} />}
+
+              {logo && (
+                <PalettePanel logo={logo} name={project?.name || 'logo'} lockedPalette={lockedPalette} onLockChange={setLockedPalette} />
+              )}
+
+              {(candidates.length > 1 || isDesigning) && (
+                <CandidateGrid
+                  candidates={candidates}
+                  selected={logo}
+                  progressMessage={progressMessage}
+                  onSelect={setLogo}
+                  onToggleFavorite={toggleFavorite}
+                />
+              )}
               
+              {logo && (
+                <BrandKitButton logo={logo} name={project?.name || 'logo'} onError={setError} />
+              )}
+
               {logo && (
                 <button 
                   onClick={() => setStep(AppStep.Animate)}
                   className="w-full py-4 bg-gray-900 text-white rounded-2xl font-bold shadow-xl hover:bg-black transition-colors flex items-center justify-center gap-3"
                 >
-                  Next: Animate This Logo
-                  <i className="fas fa-arrow-right"></i>
+                  {t('design.next')}
+                  <i className="fas fa-arrow-right rtl:-scale-x-100"></i>
                 </button>
               )}
             </div>
+
+            {logo && (
+              <div className="lg:col-span-2">
+                <VectorizePanel logo={logo} name={project?.name || 'logo'} />
+              </div>
+            )}
           </div>
         )}
 
@@ -277,67 +963,151 @@ const App: React.FC = () => {
             <div className="space-y-8">
               <div>
                 <button onClick={() => setStep(AppStep.Design)} className="text-sm font-bold text-indigo-600 mb-4 hover:underline flex items-center gap-1">
-                  <i className="fas fa-chevron-left"></i> Back to Design
+                  <i className="fas fa-chevron-left rtl:-scale-x-100"></i> {t('animate.back')}
                 </button>
-                <h2 className="text-3xl font-bold text-gray-900 mb-2">Bring it to Life</h2>
-                <p className="text-gray-600">Describe how you want the logo to move. Be creative!</p>
+                <h2 className="text-3xl font-bold text-gray-900 mb-2">{t('animate.title')}</h2>
+                <p className="text-gray-600">{t('animate.subtitle')}</p>
               </div>
 
               <div className="space-y-4">
-                <label className="block">
-                  <span className="text-sm font-bold text-gray-700 uppercase tracking-wider">Animation Motion</span>
-                  <textarea 
-                    className="mt-2 block w-full rounded-xl border-gray-200 bg-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 h-32 p-4 text-gray-800"
-                    placeholder="e.g., The book pages slowly turn as the sun rises in the background, cinematic soft lighting, gentle floating motion."
-                    defaultValue="The sun rays pulsate slowly, the book's pages shimmer with golden light, and the entire logo gently floats in a dreamlike, educational atmosphere."
-                    id="animation-prompt"
-                  ></textarea>
-                </label>
+                <div>
+                  <span className="text-sm font-bold text-gray-700 uppercase tracking-wider">{t('animate.presets')}</span>
+                  <div className="mt-2 grid grid-cols-4 gap-2">
+                    {(Object.keys(ANIMATION_PRESETS) as AnimationPresetId[]).map(id => (
+                      <button
+                        key={id}
+                        onClick={() => setActivePrompt(ANIMATION_PRESETS[id].prompt)}
+                        title={ANIMATION_PRESETS[id].prompt}
+                        className={`py-2 rounded-xl border text-xs font-bold flex flex-col items-center gap-1 transition-colors ${animationPrompts[activePromptIndex] === ANIMATION_PRESETS[id].prompt ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-gray-200 bg-white text-gray-600 hover:border-indigo-300'}`}
+                      >
+                        <i className={`fas ${ANIMATION_PRESETS[id].icon}`}></i>
+                        {t(PRESET_LABELS[id])}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <span className="text-sm font-bold text-gray-700 uppercase tracking-wider">{t('animate.motion')}</span>
+                  {animationPrompts.map((prompt, index) => (
+                    <div key={index} className="relative mt-2">
+                      <textarea 
+                        className="block w-full rounded-xl border-gray-200 bg-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 h-32 p-4 text-gray-800"
+                        placeholder={t('animate.motionPlaceholder')}
+                        value={prompt}
+                        onChange={(e) => setAnimationPrompts(prev => prev.map((p, i) => (i === index ? e.target.value : p)))}
+                        onFocus={() => setActivePromptIndex(index)}
+                        id={index === 0 ? 'animation-prompt' : undefined}
+                      ></textarea>
+                      {animationPrompts.length > 1 && (
+                        <button
+                          onClick={() => {
+                            setAnimationPrompts(prev => prev.filter((_, i) => i !== index));
+                            setActivePromptIndex(0);
+                          }}
+                          className="absolute top-2 end-2 w-7 h-7 rounded-full bg-white text-gray-300 hover:text-red-500"
+                          title={t('animate.removePrompt')}
+                        >
+                          <i className="fas fa-xmark"></i>
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => {
+                      setActivePromptIndex(animationPrompts.length);
+                      setAnimationPrompts(prev => [...prev, '']);
+                    }}
+                    className="mt-2 text-sm font-bold text-indigo-600 hover:underline flex items-center gap-1"
+                  >
+                    <i className="fas fa-plus"></i> {t('animate.addPrompt')}
+                  </button>
+                </div>
+
+                <PromptLibrary
+                  kind="animation"
+                  brief={brief}
+                  currentText={animationPrompts[activePromptIndex] || ''}
+                  onUse={setActivePrompt}
+                />
+
+                {lockedPalette && (
+                  <LockedPaletteNotice palette={lockedPalette} label="animate.lockedPalette" onUnlock={() => setLockedPalette(null)} />
+                )}
+
+                <div>
+                  <span className="text-sm font-bold text-gray-700 uppercase tracking-wider">{t('animate.formats')}</span>
+                  <div className="mt-2 grid grid-cols-3 gap-2">
+                    {FORMAT_LABELS.map(([ratio, label]) => (
+                      <button
+                        key={ratio}
+                        onClick={() => toggleAspectRatio(ratio)}
+                        className={`py-2.5 rounded-xl border text-sm font-bold transition-colors ${aspectRatios.includes(ratio) ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-gray-200 bg-white text-gray-600 hover:border-indigo-300'}`}
+                      >
+                        {t(label)} (<span dir="ltr">{ratio}</span>)
+                      </button>
+                    ))}
+                  </div>
+                </div>
 
                 <div className="grid grid-cols-2 gap-4">
                   <label className="block">
-                    <span className="text-sm font-bold text-gray-700 uppercase tracking-wider">Format</span>
+                    <span className="text-sm font-bold text-gray-700 uppercase tracking-wider">{t('animate.timeout')}</span>
                     <select 
-                      value={aspectRatio}
-                      onChange={(e) => setAspectRatio(e.target.value as AspectRatio)}
+                      value={jobTimeoutMs}
+                      onChange={(e) => setJobTimeoutMs(Number(e.target.value))}
                       className="mt-2 block w-full rounded-xl border-gray-200 bg-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 p-2.5"
                     >
-                      <option value="16:9">Landscape (16:9)</option>
-                      <option value="9:16">Portrait (9:16)</option>
-                      <option value="1:1">Square (1:1)</option>
+                      {[5, 10, 20, 30].map(minutes => (
+                        <option key={minutes} value={minutes * 60 * 1000}>{t('animate.minutes', { count: minutes })}</option>
+                      ))}
                     </select>
                   </label>
                   <div className="flex items-end">
                     <button 
-                      onClick={() => {
-                        const prompt = (document.getElementById('animation-prompt') as HTMLTextAreaElement).value;
-                        handleAnimate(prompt);
-                      }}
-                      className="w-full py-2.5 bg-indigo-600 text-white rounded-xl font-bold shadow-md hover:bg-indigo-700 transition-colors flex items-center justify-center gap-2"
+                      onClick={handleAnimate}
+                      disabled={jobCount === 0}
+                      className="w-full py-2.5 bg-indigo-600 text-white rounded-xl font-bold shadow-md hover:bg-indigo-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
                     >
                       <i className="fas fa-film"></i>
-                      Animate
+                      {jobCount > 1 ? t('animate.queue', { count: jobCount }) : t('animate.animate')}
                     </button>
                   </div>
                 </div>
               </div>
 
+              <JobPanel
+                jobs={projectJobs}
+                onOpenResult={(job) => {
+                  const result = animations.find(a => a.id === job.animationId);
+                  if (result) openAnimation(result);
+                }}
+              />
+
               <div className="bg-amber-50 rounded-2xl p-6 border border-amber-100">
                 <h3 className="font-bold text-amber-900 mb-2 flex items-center gap-2">
                   <i className="fas fa-info-circle"></i>
-                  About Veo Animation
+                  {t('animate.aboutTitle')}
                 </h3>
                 <p className="text-sm text-amber-800 leading-relaxed">
-                  Veo creates a cinematic video using your logo as the base. You can specify mood, lighting, and movement for a professional brand intro.
+                  {t('animate.about')}
                 </p>
               </div>
             </div>
 
             <div className="flex flex-col items-center justify-center">
                <div className="w-full max-w-md aspect-square bg-white rounded-3xl border border-gray-200 flex items-center justify-center overflow-hidden shadow-xl mb-6">
-                <img src={logo.url} alt="Static Logo Reference" className="w-full h-full object-contain opacity-50 grayscale scale-75" />
+                <img src={logo.url} alt={t('animate.referenceAlt')} className="w-full h-full object-contain opacity-50 grayscale scale-75" />
+              </div>
+              <p className="text-gray-400 text-sm font-medium italic">{t('animate.startingFrame')}</p>
+              <div className="w-full max-w-md mt-6">
+                <ImageDropzone
+                  image={null}
+                  onChange={(image) => image && animateUploadedImage(image)}
+                  label={t('animate.ownImage')}
+                  hint={t('animate.ownImageHint')}
+                />
               </div>
-              <p className="text-gray-400 text-sm font-medium italic">Veo will use this as the starting frame</p>
             </div>
           </div>
         )}
@@ -347,19 +1117,19 @@ const App: React.FC = () => {
             <div className="flex items-center justify-between">
               <div>
                 <button onClick={() => setStep(AppStep.Animate)} className="text-sm font-bold text-indigo-600 mb-2 hover:underline flex items-center gap-1">
-                  <i className="fas fa-chevron-left"></i> Change Animation
+                  <i className="fas fa-chevron-left rtl:-scale-x-100"></i> {t('view.change')}
                 </button>
-                <h2 className="text-3xl font-bold text-gray-900">Your Animated Brand</h2>
+                <h2 className="text-3xl font-bold text-gray-900">{t('view.title')}</h2>
               </div>
               <button 
                 onClick={() => setStep(AppStep.Design)} 
                 className="px-6 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-bold transition-colors"
               >
-                Create New
+                {t('view.createNew')}
               </button>
             </div>
 
-            <div className={`w-full bg-black rounded-3xl overflow-hidden shadow-2xl ${aspectRatio === '9:16' ? 'max-w-sm mx-auto aspect-[9/16]' : 'aspect-video'}`}>
+            <div className={`w-full bg-black rounded-3xl overflow-hidden shadow-2xl ${animation.aspectRatio === '9:16' ? 'max-w-sm mx-auto aspect-[9/16]' : 'aspect-video'}`}>
               <video 
                 src={animation.videoUrl} 
                 className="w-full h-full" 
@@ -371,19 +1141,19 @@ const App: React.FC = () => {
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div className="p-6 bg-white rounded-2xl shadow-sm border border-gray-100">
-                <h4 className="text-sm font-bold text-gray-400 uppercase tracking-widest mb-4">Logo Details</h4>
+                <h4 className="text-sm font-bold text-gray-400 uppercase tracking-widest mb-4">{t('view.logoDetails')}</h4>
                 <div className="flex items-center gap-4">
-                  <img src={logo?.url} className="w-16 h-16 rounded-lg border object-contain" alt="Mini" />
+                  <img src={logo?.url} className="w-16 h-16 rounded-lg border object-contain" alt={t('view.thumbnailAlt')} />
                   <div>
                     <p className="text-gray-900 font-semibold line-clamp-1">{logo?.prompt}</p>
-                    <p className="text-gray-500 text-sm">Created with Gemini 3 Pro</p>
+                    <p className="text-gray-500 text-sm">{t('view.createdWith')}</p>
                   </div>
                 </div>
               </div>
               <div className="p-6 bg-white rounded-2xl shadow-sm border border-gray-100">
-                <h4 className="text-sm font-bold text-gray-400 uppercase tracking-widest mb-4">Animation Style</h4>
-                <p className="text-gray-900 font-medium italic leading-relaxed">"{animation.prompt}"</p>
-                <p className="text-indigo-600 text-sm font-bold mt-2">— Veo Motion Engine</p>
+                <h4 className="text-sm font-bold text-gray-400 uppercase tracking-widest mb-4">{t('view.animationStyle')}</h4>
+                <p className="text-gray-900 font-medium italic leading-relaxed" dir="auto">"{animation.prompt}"</p>
+                <p className="text-indigo-600 text-sm font-bold mt-2">{t('view.engine')}</p>
               </div>
             </div>
 
@@ -394,15 +1164,36 @@ const App: React.FC = () => {
                 className="flex-1 py-4 gradient-bg text-white rounded-2xl font-bold shadow-xl flex items-center justify-center gap-3 hover:-translate-y-1 transition-transform"
               >
                 <i className="fas fa-download"></i>
-                Download Animation
+                {t('view.download')}
               </a>
-              <button 
-                onClick={() => window.print()}
-                className="px-8 py-4 bg-gray-100 text-gray-700 rounded-2xl font-bold hover:bg-gray-200 transition-colors"
+              {logo && (
+                <BrandKitButton
+                  logo={logo}
+                  name={project?.name || 'logo'}
+                  onError={setError}
+                  className="px-8 py-4 bg-gray-100 text-gray-700 rounded-2xl font-bold hover:bg-gray-200 transition-colors flex items-center gap-3 disabled:opacity-50"
+                />
+              )}
+              <button
+                onClick={() => exportSnapshot('presentation')}
+                disabled={isExporting}
+                title={t('view.presentationHint')}
+                className="px-6 py-4 bg-gray-100 text-gray-700 rounded-2xl font-bold hover:bg-gray-200 transition-colors flex items-center gap-2 disabled:opacity-50"
               >
                 <i className="fas fa-share-nodes"></i>
+                {t('view.presentation')}
+              </button>
+              <button
+                onClick={() => exportSnapshot('project')}
+                disabled={isExporting}
+                title={t('view.projectFileHint')}
+                className="px-6 py-4 bg-gray-100 text-gray-700 rounded-2xl font-bold hover:bg-gray-200 transition-colors disabled:opacity-50"
+              >
+                <i className="fas fa-file-export"></i>
               </button>
             </div>
+
+            <VideoEditor animation={animation} name={project?.name || 'logo'} />
           </div>
         )}
       </main>
@@ -410,13 +1201,8 @@ const App: React.FC = () => {
       <footer className="bg-white border-t py-8 px-6 mt-12">
         <div className="max-w-6xl mx-auto flex flex-col md:flex-row items-center justify-between gap-6">
           <p className="text-gray-500 text-sm">
-            © 2024 WisdomMotion Branding Engine. Powered by Google Gemini & Veo.
+            {t('app.footer')}
           </p>
-          <div className="flex gap-6">
-            <a href="#" className="text-gray-400 hover:text-indigo-600 transition-colors"><i className="fab fa-twitter"></i></a>
-            <a href="#" className="text-gray-400 hover:text-indigo-600 transition-colors"><i className="fab fa-instagram"></i></a>
-            <a href="#" className="text-gray-400 hover:text-indigo-600 transition-colors"><i className="fab fa-linkedin"></i></a>
-          </div>
         </div>
       </footer>
     </div>
@@ -0,0 +1,43 @@
+
+import React, { useState } from 'react';
+import { LogoData } from '../types';
+import { buildBrandKit } from '../services/brandKit';
+import { downloadBlob, slugify } from '../services/imageUtils';
+import { useTranslation } from '../hooks/useLocale';
+
+interface BrandKitButtonProps {
+  logo: LogoData;
+  name: string;
+  className?: string;
+  onError: (message: string) => void;
+}
+
+const BrandKitButton: React.FC<BrandKitButtonProps> = ({ logo, name, className, onError }) => {
+  const { t } = useTranslation();
+  const [isBuilding, setIsBuilding] = useState(false);
+
+  const handleExport = async () => {
+    setIsBuilding(true);
+    try {
+      const zip = await buildBrandKit(logo, name);
+      downloadBlob(zip, `${slugify(name)}-brand-kit.zip`);
+    } catch (err: any) {
+      onError(err?.message || t('brandKit.failed'));
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleExport}
+      disabled={isBuilding}
+      className={className || "w-full py-3 bg-white border border-gray-200 text-gray-800 rounded-2xl font-bold shadow-sm hover:bg-gray-50 transition-colors flex items-center justify-center gap-3 disabled:opacity-50"}
+    >
+      <i className={`fas ${isBuilding ? 'fa-spinner fa-spin' : 'fa-file-zipper'}`}></i>
+      {isBuilding ? t('brandKit.building') : t('brandKit.download')}
+    </button>
+  );
+};
+
+export default BrandKitButton;
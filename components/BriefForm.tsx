@@ -0,0 +1,197 @@
+
+import React, { useState } from 'react';
+import { BrandBrief, Locale, ReferenceMode, StylePreset } from '../types';
+import { STYLE_PRESETS, DEFAULT_PROMPT_SUFFIX, compileBrief, buildLogoPrompt } from '../services/promptBuilder';
+import { isHexColor } from '../services/palette';
+import { LOCALES, TranslationKey } from '../services/i18n';
+import { useTranslation } from '../hooks/useLocale';
+
+interface BriefFormProps {
+  brief: BrandBrief;
+  onChange: (brief: BrandBrief) => void;
+  // Generation settings outside the brief, so the preview matches what is sent.
+  reference?: ReferenceMode;
+  palette?: string[];
+}
+
+const MAX_COLORS = 5;
+
+const inputClass = "mt-2 block w-full rounded-xl border-gray-200 bg-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 p-2.5 text-gray-800";
+const labelClass = "text-sm font-bold text-gray-700 uppercase tracking-wider";
+
+const STYLE_LABELS: Record<StylePreset, TranslationKey> = {
+  flat: 'brief.style.flat',
+  emblem: 'brief.style.emblem',
+  wordmark: 'brief.style.wordmark',
+  mascot: 'brief.style.mascot'
+};
+
+const BriefForm: React.FC<BriefFormProps> = ({ brief, onChange, reference, palette }) => {
+  const { t } = useTranslation();
+  const [moodDraft, setMoodDraft] = useState('');
+  const update = (patch: Partial<BrandBrief>) => onChange({ ...brief, ...patch });
+
+  const setColor = (index: number, value: string) => {
+    update({ colors: brief.colors.map((c, i) => (i === index ? value : c)) });
+  };
+
+  const addMood = () => {
+    const mood = moodDraft.trim().replace(/,$/, '');
+    if (mood && !brief.moods.includes(mood)) update({ moods: [...brief.moods, mood] });
+    setMoodDraft('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="block">
+        <span className={labelClass}>{t('brief.language')}</span>
+        <select className={inputClass} value={brief.language || 'en'} onChange={(e) => update({ language: e.target.value as Locale })}>
+          {(Object.keys(LOCALES) as Locale[]).map(id => <option key={id} value={id}>{LOCALES[id].label}</option>)}
+        </select>
+        {(brief.language || 'en') !== 'en' && <span className="mt-1 block text-xs text-gray-400">{t('brief.languageHint')}</span>}
+      </label>
+
+      <div className="grid grid-cols-2 gap-4">
+        <label className="block">
+          <span className={labelClass}>{t('brief.organization')}</span>
+          <input className={inputClass} value={brief.organizationName} onChange={(e) => update({ organizationName: e.target.value })} placeholder={t('brief.organizationPlaceholder')} />
+        </label>
+        <label className="block">
+          <span className={labelClass}>{t('brief.industry')}</span>
+          <input className={inputClass} value={brief.industry} onChange={(e) => update({ industry: e.target.value })} placeholder={t('brief.industryPlaceholder')} list="brief-industries" />
+          <datalist id="brief-industries">
+            <option value="education non-profit" />
+            <option value="community charity" />
+            <option value="health and wellbeing" />
+            <option value="environmental campaign" />
+            <option value="technology startup" />
+            <option value="arts and culture" />
+          </datalist>
+        </label>
+      </div>
+
+      <label className="block">
+        <span className={labelClass}>{t('brief.tagline')} <span className="normal-case font-medium text-gray-400">{t('common.optional')}</span></span>
+        <input className={inputClass} value={brief.tagline} onChange={(e) => update({ tagline: e.target.value })} placeholder={t('brief.taglinePlaceholder')} />
+      </label>
+
+      <div>
+        <span className={labelClass}>{t('brief.style')}</span>
+        <div className="mt-2 grid grid-cols-4 gap-2">
+          {(Object.keys(STYLE_PRESETS) as StylePreset[]).map(style => (
+            <button
+              key={style}
+              onClick={() => update({ style })}
+              className={`py-2.5 rounded-xl border text-sm font-bold flex flex-col items-center gap-1 transition-colors ${brief.style === style ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-gray-200 bg-white text-gray-600 hover:border-indigo-300'}`}
+            >
+              <i className={`fas ${STYLE_PRESETS[style].icon}`}></i>
+              {t(STYLE_LABELS[style])}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <span className={labelClass}>{t('brief.colors')}</span>
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          {brief.colors.map((color, index) => (
+            <div key={index} className="flex items-center gap-1 bg-white border border-gray-200 rounded-xl ps-1 pe-2 py-1">
+              <input
+                type="color"
+                value={isHexColor(color) ? color : '#000000'}
+                onChange={(e) => setColor(index, e.target.value)}
+                className="w-7 h-7 rounded-lg cursor-pointer"
+              />
+              <input
+                value={color}
+                onChange={(e) => setColor(index, e.target.value)}
+                dir="ltr"
+                className={`w-20 text-xs font-mono border-0 p-0 focus:ring-0 ${isHexColor(color) ? 'text-gray-700' : 'text-red-600'}`}
+              />
+              <button onClick={() => update({ colors: brief.colors.filter((_, i) => i !== index) })} className="text-gray-300 hover:text-red-500" title={t('brief.removeColor')}>
+                <i className="fas fa-xmark"></i>
+              </button>
+            </div>
+          ))}
+          {brief.colors.length < MAX_COLORS && (
+            <button onClick={() => update({ colors: [...brief.colors, '#6366f1'] })} className="w-9 h-9 rounded-xl border-2 border-dashed border-gray-200 text-gray-400 hover:text-indigo-600 hover:border-indigo-300" title={t('brief.addColor')}>
+              <i className="fas fa-plus"></i>
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <span className={labelClass}>{t('brief.mood')}</span>
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          {brief.moods.map(mood => (
+            <span key={mood} className="px-3 py-1 rounded-full bg-indigo-50 text-indigo-700 text-sm font-medium flex items-center gap-2">
+              {mood}
+              <button onClick={() => update({ moods: brief.moods.filter(m => m !== mood) })} className="text-indigo-300 hover:text-indigo-700">
+                <i className="fas fa-xmark"></i>
+              </button>
+            </span>
+          ))}
+          <input
+            value={moodDraft}
+            onChange={(e) => setMoodDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ',') {
+                e.preventDefault();
+                addMood();
+              }
+            }}
+            onBlur={addMood}
+            placeholder={t('brief.moodPlaceholder')}
+            className="flex-1 min-w-[8rem] rounded-xl border-gray-200 bg-white p-1.5 text-sm"
+          />
+        </div>
+      </div>
+
+      <label className="block">
+        <span className={labelClass}>{t('brief.details')}</span>
+        <textarea
+          className="mt-2 block w-full rounded-xl border-gray-200 bg-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 h-24 p-4 text-gray-800"
+          placeholder={t('brief.detailsPlaceholder')}
+          value={brief.details}
+          onChange={(e) => update({ details: e.target.value })}
+          id="logo-prompt"
+        ></textarea>
+      </label>
+
+      <label className="block">
+        <span className={labelClass}>{t('brief.avoid')} <span className="normal-case font-medium text-gray-400">{t('common.optional')}</span></span>
+        <input className={inputClass} value={brief.avoid} onChange={(e) => update({ avoid: e.target.value })} placeholder={t('brief.avoidPlaceholder')} />
+      </label>
+
+      <details className="group">
+        <summary className="cursor-pointer text-sm font-bold text-gray-500 hover:text-indigo-600 list-none flex items-center gap-2">
+          <i className="fas fa-chevron-right text-xs transition-transform group-open:rotate-90 rtl:-scale-x-100 rtl:group-open:-rotate-90"></i>
+          {t('brief.suffixToggle')}
+        </summary>
+        <div className="mt-3">
+          <label className="block">
+            <div className="flex items-center justify-between">
+              <span className={labelClass}>{t('brief.suffix')}</span>
+              {brief.suffix !== DEFAULT_PROMPT_SUFFIX && (
+                <button onClick={() => update({ suffix: DEFAULT_PROMPT_SUFFIX })} className="text-xs font-bold text-indigo-600 hover:underline">{t('common.resetToDefault')}</button>
+              )}
+            </div>
+            <textarea
+              className="mt-2 block w-full rounded-xl border-gray-200 bg-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 h-20 p-3 text-sm text-gray-800"
+              value={brief.suffix}
+              onChange={(e) => update({ suffix: e.target.value })}
+            ></textarea>
+          </label>
+        </div>
+      </details>
+
+      <div className="p-4 bg-gray-50 rounded-xl border border-gray-100">
+        <p className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-2">{t('brief.finalPrompt')}</p>
+        <p className="text-sm text-gray-700 leading-relaxed" dir="auto">{buildLogoPrompt(compileBrief(brief), brief.suffix, { reference, palette })}</p>
+      </div>
+    </div>
+  );
+};
+
+export default BriefForm;
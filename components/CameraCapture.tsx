@@ -0,0 +1,75 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { createCanvas, canvasToBlob } from '../services/imageUtils';
+import { useTranslation } from '../hooks/useLocale';
+
+interface CameraCaptureProps {
+  onCapture: (photo: Blob) => void;
+  onClose: () => void;
+}
+
+// Full-screen camera preview for photographing a sketch. The stream is
+// stopped as soon as the modal closes.
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const { t } = useTranslation();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active: MediaStream | null = null;
+    let cancelled = false;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError(t('camera.unsupported'));
+      return;
+    }
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then(media => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        active = media;
+        setStream(media);
+        if (videoRef.current) videoRef.current.srcObject = media;
+      })
+      .catch(() => !cancelled && setError(t('camera.denied')));
+    return () => {
+      cancelled = true;
+      active?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const capture = async () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const { canvas, ctx } = createCanvas(video.videoWidth, video.videoHeight);
+    ctx.drawImage(video, 0, 0);
+    onCapture(await canvasToBlob(canvas, 'image/jpeg', 0.92));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl overflow-hidden w-full max-w-xl shadow-2xl">
+        <div className="aspect-video bg-black flex items-center justify-center">
+          {error
+            ? <p className="text-sm text-red-300 p-6 text-center">{error}</p>
+            : <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-contain"></video>}
+        </div>
+        <div className="p-4 flex items-center justify-between gap-4">
+          <button onClick={onClose} className="px-5 py-2.5 bg-gray-100 text-gray-700 rounded-xl font-bold hover:bg-gray-200">{t('common.cancel')}</button>
+          <button
+            onClick={capture}
+            disabled={!stream}
+            className="px-6 py-2.5 gradient-bg text-white rounded-xl font-bold flex items-center gap-2 disabled:opacity-50"
+          >
+            <i className="fas fa-camera"></i>
+            {t('camera.takePhoto')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,80 @@
+
+import React from 'react';
+import { LogoCandidate, LogoData } from '../types';
+import { useTranslation } from '../hooks/useLocale';
+
+interface CandidateGridProps {
+  candidates: LogoCandidate[];
+  selected: LogoData | null;
+  progressMessage: string;
+  onSelect: (logo: LogoData) => void;
+  onToggleFavorite: (id: string) => void;
+}
+
+const CandidateGrid: React.FC<CandidateGridProps> = ({ candidates, selected, progressMessage, onSelect, onToggleFavorite }) => {
+  const { t } = useTranslation();
+  const readyCount = candidates.filter(c => c.status === 'ready').length;
+  const pendingCount = candidates.filter(c => c.status === 'pending').length;
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-bold text-gray-400 uppercase tracking-widest">{t('candidates.title')}</h4>
+        <span className="text-xs font-medium text-gray-500">
+          {pendingCount > 0 ? t('candidates.readyOf', { ready: readyCount, total: candidates.length }) : t('candidates.ready', { count: readyCount })}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {candidates.map((candidate, index) => {
+          const isSelected = !!candidate.logo && candidate.logo === selected;
+          return (
+            <div
+              key={candidate.id}
+              className={`relative aspect-square bg-white rounded-2xl border-2 overflow-hidden shadow-sm ${isSelected ? 'border-indigo-600' : 'border-gray-100'}`}
+            >
+              {candidate.status === 'pending' && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 p-3 text-center animate-shimmer bg-gray-50">
+                  <div className="w-8 h-8 border-2 border-indigo-100 border-t-indigo-600 rounded-full animate-spin"></div>
+                  <p className="text-xs text-indigo-600 font-medium line-clamp-2">{progressMessage || t('candidates.variation', { number: index + 1 })}</p>
+                </div>
+              )}
+
+              {candidate.status === 'failed' && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-3 text-center bg-red-50 text-red-700">
+                  <i className="fas fa-triangle-exclamation"></i>
+                  <p className="text-xs font-medium line-clamp-3">{candidate.error}</p>
+                </div>
+              )}
+
+              {candidate.status === 'ready' && candidate.logo && (
+                <>
+                  <button
+                    onClick={() => onSelect(candidate.logo!)}
+                    className="w-full h-full"
+                    title={t('candidates.use')}
+                  >
+                    <img src={candidate.logo.url} alt={t('candidates.alt', { number: index + 1 })} className="w-full h-full object-contain" />
+                  </button>
+                  <button
+                    onClick={() => onToggleFavorite(candidate.id)}
+                    className={`absolute top-2 end-2 w-8 h-8 rounded-full bg-white/90 shadow flex items-center justify-center transition-colors ${candidate.favorite ? 'text-amber-500' : 'text-gray-300 hover:text-amber-400'}`}
+                    title={candidate.favorite ? t('candidates.unfavorite') : t('candidates.favorite')}
+                  >
+                    <i className="fas fa-star"></i>
+                  </button>
+                  {isSelected && (
+                    <span className="absolute bottom-2 start-2 px-2 py-0.5 rounded-md bg-indigo-600 text-white text-[10px] font-bold uppercase tracking-wider">
+                      {t('candidates.selected')}
+                    </span>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CandidateGrid;
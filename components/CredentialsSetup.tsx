@@ -0,0 +1,182 @@
+
+import React, { useState } from 'react';
+import { CredentialMode } from '../types';
+import { useCredentials } from '../hooks/useCredentials';
+import {
+  getCredentialMode, getProxyUrl, defaultProxyUrl, setCredentialMode,
+  saveApiKey, clearApiKey, saveProxyUrl, validateApiKey, validateProxyUrl
+} from '../services/credentials';
+import { classifyError } from '../services/errors';
+import { TranslationKey } from '../services/i18n';
+import { useTranslation } from '../hooks/useLocale';
+
+interface CredentialsSetupProps {
+  onStart: () => void;
+}
+
+const MODE_LABELS: Record<Exclude<CredentialMode, 'aistudio'>, { label: TranslationKey; icon: string }> = {
+  userKey: { label: 'credentials.mode.userKey', icon: 'fa-key' },
+  proxy: { label: 'credentials.mode.proxy', icon: 'fa-server' }
+};
+
+const inputClass = "flex-1 rounded-xl border-gray-200 bg-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 p-2.5 text-gray-800";
+
+// Setup-step form for whichever credential mode is active. Inside AI Studio
+// the host's key picker is used and there is nothing to fill in.
+const CredentialsSetup: React.FC<CredentialsSetupProps> = ({ onStart }) => {
+  const { t } = useTranslation();
+  const settings = useCredentials();
+  const mode = getCredentialMode();
+  const [keyDraft, setKeyDraft] = useState('');
+  const [proxyDraft, setProxyDraft] = useState(getProxyUrl());
+  const [isValidating, setIsValidating] = useState(false);
+  const [status, setStatus] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const validate = async (check: () => Promise<void>, onValid: () => void, success: string) => {
+    setIsValidating(true);
+    setStatus(null);
+    try {
+      await check();
+      onValid();
+      setStatus({ ok: true, message: success });
+    } catch (err) {
+      setStatus({ ok: false, message: classifyError(err).message });
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const startButton = (ready: boolean) => (
+    <button
+      onClick={onStart}
+      disabled={!ready}
+      className="px-10 py-4 gradient-bg text-white rounded-xl font-bold text-lg shadow-lg hover:shadow-indigo-200/50 hover:-translate-y-1 transition-all duration-200 flex items-center gap-3 disabled:opacity-50 disabled:hover:translate-y-0"
+    >
+      {t('credentials.start')}
+      <i className="fas fa-arrow-right rtl:-scale-x-100"></i>
+    </button>
+  );
+
+  if (mode === 'aistudio') {
+    return (
+      <div className="flex flex-col items-center gap-3">
+        {startButton(true)}
+        <p className="text-xs text-gray-400">{t('credentials.aiStudioHint')}</p>
+      </div>
+    );
+  }
+
+  const ready = mode === 'userKey' ? !!settings.apiKey : !!getProxyUrl();
+
+  return (
+    <div className="w-full flex flex-col items-center gap-6">
+      <div className="w-full bg-white rounded-2xl border border-gray-100 shadow-sm p-5 text-start space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(MODE_LABELS) as (keyof typeof MODE_LABELS)[]).map(id => (
+            <button
+              key={id}
+              onClick={() => {
+                setCredentialMode(id);
+                setStatus(null);
+              }}
+              className={`py-2 rounded-xl border text-sm font-bold transition-colors ${mode === id ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-gray-200 bg-white text-gray-600 hover:border-indigo-300'}`}
+            >
+              <i className={`fas ${MODE_LABELS[id].icon} me-2`}></i>
+              {t(MODE_LABELS[id].label)}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'userKey' && (settings.apiKey ? (
+          <div className="flex items-center gap-3">
+            <p className="flex-1 text-sm text-gray-700">
+              <i className="fas fa-circle-check text-green-600 me-2"></i>
+              {t('credentials.keySaved')} <span className="font-mono font-bold" dir="ltr">…{settings.apiKey.slice(-4)}</span>
+            </p>
+            <button
+              onClick={() => {
+                clearApiKey();
+                setStatus(null);
+              }}
+              className="text-sm font-bold text-gray-500 hover:text-red-500"
+            >
+              {t('credentials.clearKey')}
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="password"
+                autoComplete="off"
+                value={keyDraft}
+                onChange={(e) => setKeyDraft(e.target.value)}
+                placeholder={t('credentials.keyPlaceholder')}
+                className={inputClass}
+              />
+              <button
+                onClick={() => validate(() => validateApiKey(keyDraft), () => {
+                  saveApiKey(keyDraft);
+                  setKeyDraft('');
+                }, t('credentials.keyVerified'))}
+                disabled={!keyDraft.trim() || isValidating}
+                className="px-4 py-2 bg-gray-900 text-white rounded-xl text-sm font-bold hover:bg-black disabled:opacity-50"
+              >
+                {isValidating ? <i className="fas fa-spinner fa-spin"></i> : t('credentials.verify')}
+              </button>
+            </div>
+            <p className="text-xs text-gray-400">
+              {t('credentials.keyHint')}
+            </p>
+          </div>
+        ))}
+
+        {mode === 'proxy' && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                value={proxyDraft}
+                onChange={(e) => setProxyDraft(e.target.value)}
+                placeholder="https://your-server.example/gemini"
+                dir="ltr"
+                className={inputClass}
+              />
+              <button
+                onClick={() => validate(() => validateProxyUrl(proxyDraft), () => saveProxyUrl(proxyDraft), t('credentials.proxyVerified'))}
+                disabled={!proxyDraft.trim() || isValidating}
+                className="px-4 py-2 bg-gray-900 text-white rounded-xl text-sm font-bold hover:bg-black disabled:opacity-50"
+              >
+                {isValidating ? <i className="fas fa-spinner fa-spin"></i> : t('credentials.test')}
+              </button>
+            </div>
+            <p className="text-xs text-gray-400">
+              {t('credentials.proxyHint')}
+              {settings.proxyUrl && defaultProxyUrl() && (
+                <button
+                  onClick={() => {
+                    saveProxyUrl('');
+                    setProxyDraft(defaultProxyUrl());
+                  }}
+                  className="ms-1 font-bold text-indigo-600 hover:underline"
+                >
+                  {t('common.resetToDefault')}
+                </button>
+              )}
+            </p>
+          </div>
+        )}
+
+        {status && (
+          <p className={`text-sm font-medium ${status.ok ? 'text-green-700' : 'text-red-600'}`}>
+            <i className={`fas ${status.ok ? 'fa-circle-check' : 'fa-circle-exclamation'} me-2`}></i>
+            {status.message}
+          </p>
+        )}
+      </div>
+
+      {startButton(ready)}
+    </div>
+  );
+};
+
+export default CredentialsSetup;
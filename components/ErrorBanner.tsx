@@ -0,0 +1,68 @@
+
+import React from 'react';
+import { GenerationError, GenerationErrorKind } from '../services/errors';
+import { TranslationKey } from '../services/i18n';
+import { useTranslation } from '../hooks/useLocale';
+
+interface ErrorBannerProps {
+  error: GenerationError | string;
+  // Re-runs the failed request; only offered for kinds where that can help.
+  onRetry?: () => void;
+  onReselectKey?: () => void;
+  onEditBrief?: () => void;
+  onDismiss: () => void;
+}
+
+export const errorHints: Record<GenerationErrorKind, { title: TranslationKey; hint: TranslationKey }> = {
+  auth: { title: 'errors.auth.title', hint: 'errors.auth.hint' },
+  quota: { title: 'errors.quota.title', hint: 'errors.quota.hint' },
+  safety: { title: 'errors.safety.title', hint: 'errors.safety.hint' },
+  noImage: { title: 'errors.noImage.title', hint: 'errors.noImage.hint' },
+  network: { title: 'errors.network.title', hint: 'errors.network.hint' },
+  download: { title: 'errors.download.title', hint: 'errors.download.hint' },
+  timeout: { title: 'errors.timeout.title', hint: 'errors.timeout.hint' },
+  cancelled: { title: 'errors.cancelled.title', hint: 'errors.cancelled.hint' },
+  unknown: { title: 'errors.unknown.title', hint: 'errors.unknown.hint' }
+};
+
+const RATE_LIMITS_URL = 'https://ai.google.dev/gemini-api/docs/rate-limits';
+
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onRetry, onReselectKey, onEditBrief, onDismiss }) => {
+  const { t } = useTranslation();
+  const kind = typeof error === 'string' ? null : error.kind;
+  const message = typeof error === 'string' ? error : error.message;
+  const hint = kind ? errorHints[kind] : null;
+  const actionClass = "px-3 py-1.5 rounded-lg bg-white border border-red-200 text-xs font-bold text-red-700 hover:bg-red-100";
+
+  return (
+    <div className="mb-6 p-4 bg-red-50 border-s-4 border-red-500 text-red-700 flex items-start gap-3" role="alert">
+      <i className="fas fa-exclamation-circle mt-0.5"></i>
+      <div className="flex-1 space-y-2">
+        {hint && <p className="text-sm font-bold">{t(hint.title)}</p>}
+        <p className="text-sm font-medium">{message}</p>
+        {hint && <p className="text-xs text-red-600">{t(hint.hint)}</p>}
+        {kind && (
+          <div className="flex flex-wrap gap-2">
+            {kind === 'auth' && onReselectKey && (
+              <button onClick={onReselectKey} className={actionClass}><i className="fas fa-key me-1"></i> {t('errors.reselectKey')}</button>
+            )}
+            {kind === 'quota' && (
+              <a href={RATE_LIMITS_URL} target="_blank" rel="noreferrer" className={actionClass}><i className="fas fa-gauge me-1"></i> {t('errors.rateLimits')}</a>
+            )}
+            {kind === 'safety' && onEditBrief && (
+              <button onClick={onEditBrief} className={actionClass}><i className="fas fa-pen me-1"></i> {t('errors.editBrief')}</button>
+            )}
+            {kind !== 'auth' && kind !== 'safety' && kind !== 'cancelled' && onRetry && (
+              <button onClick={onRetry} className={actionClass}><i className="fas fa-rotate-right me-1"></i> {t('errors.tryAgain')}</button>
+            )}
+          </div>
+        )}
+      </div>
+      <button onClick={onDismiss} className="text-red-300 hover:text-red-600" title={t('common.dismiss')}>
+        <i className="fas fa-xmark"></i>
+      </button>
+    </div>
+  );
+};
+
+export default ErrorBanner;
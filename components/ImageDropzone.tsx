@@ -0,0 +1,107 @@
+
+import React, { useRef, useState } from 'react';
+import { ReferenceImage } from '../types';
+import { ACCEPTED_IMAGE_TYPES, prepareReferenceImage } from '../services/referenceImage';
+import CameraCapture from './CameraCapture';
+import { useTranslation } from '../hooks/useLocale';
+
+interface ImageDropzoneProps {
+  image: ReferenceImage | null;
+  onChange: (image: ReferenceImage | null) => void;
+  label: string;
+  hint?: string;
+}
+
+const ImageDropzone: React.FC<ImageDropzoneProps> = ({ image, onChange, label, hint }) => {
+  const { t } = useTranslation();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const accept = async (file: Blob, name: string) => {
+    setError(null);
+    setIsProcessing(true);
+    try {
+      onChange(await prepareReferenceImage(file, name));
+    } catch (err: any) {
+      setError(err?.message || t('dropzone.unusable'));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) accept(file, file.name);
+  };
+
+  return (
+    <div>
+      <span className="text-sm font-bold text-gray-700 uppercase tracking-wider">{label}</span>
+      {image ? (
+        <div className="mt-2 flex items-center gap-4 p-3 bg-white rounded-xl border border-gray-200">
+          <img src={image.url} alt={image.name} className="w-16 h-16 rounded-lg object-contain bg-gray-50 border border-gray-100" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-semibold text-gray-800 truncate">{image.name}</p>
+            <p className="text-xs text-gray-400">{image.width}×{image.height}px</p>
+          </div>
+          <button onClick={() => onChange(null)} className="text-gray-300 hover:text-red-500" title={t('dropzone.remove')}>
+            <i className="fas fa-xmark"></i>
+          </button>
+        </div>
+      ) : (
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`mt-2 p-4 rounded-xl border-2 border-dashed text-center transition-colors ${isDragging ? 'border-indigo-400 bg-indigo-50' : 'border-gray-200 bg-white'}`}
+        >
+          {isProcessing ? (
+            <p className="text-sm text-gray-500"><i className="fas fa-spinner fa-spin me-2"></i>{t('dropzone.preparing')}</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500">
+                {t('dropzone.drop')}{' '}
+                <button onClick={() => inputRef.current?.click()} className="font-bold text-indigo-600 hover:underline">{t('dropzone.browse')}</button>
+                {' · '}
+                <button onClick={() => setShowCamera(true)} className="font-bold text-indigo-600 hover:underline">{t('dropzone.camera')}</button>
+              </p>
+              {hint && <p className="text-xs text-gray-400 mt-1">{hint}</p>}
+            </>
+          )}
+        </div>
+      )}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_IMAGE_TYPES.join(',')}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) accept(file, file.name);
+          e.target.value = '';
+        }}
+      />
+      {showCamera && (
+        <CameraCapture
+          onClose={() => setShowCamera(false)}
+          onCapture={(photo) => {
+            setShowCamera(false);
+            accept(photo, t('dropzone.cameraPhoto'));
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ImageDropzone;
@@ -0,0 +1,102 @@
+
+import React, { useState, useEffect } from 'react';
+import { VideoJob, VideoJobStatus } from '../types';
+import { cancelVideoJob, dismissVideoJob, retryVideoJob, isJobActive, isJobPending } from '../services/jobManager';
+import { errorHints } from './ErrorBanner';
+import { TranslationKey } from '../services/i18n';
+import { useTranslation } from '../hooks/useLocale';
+
+interface JobPanelProps {
+  jobs: VideoJob[];
+  title?: string;
+  onOpenResult?: (job: VideoJob) => void;
+}
+
+const statusLabels: Record<VideoJobStatus, { label: TranslationKey; className: string }> = {
+  queued: { label: 'jobs.status.queued', className: 'bg-gray-100 text-gray-500' },
+  starting: { label: 'jobs.status.starting', className: 'bg-gray-100 text-gray-600' },
+  generating: { label: 'jobs.status.generating', className: 'bg-indigo-100 text-indigo-700' },
+  downloading: { label: 'jobs.status.downloading', className: 'bg-indigo-100 text-indigo-700' },
+  succeeded: { label: 'jobs.status.succeeded', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'jobs.status.failed', className: 'bg-red-100 text-red-700' },
+  cancelled: { label: 'jobs.status.cancelled', className: 'bg-gray-100 text-gray-500' },
+  timedOut: { label: 'jobs.status.timedOut', className: 'bg-amber-100 text-amber-800' }
+};
+
+export const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const JobPanel: React.FC<JobPanelProps> = ({ jobs, title, onOpenResult }) => {
+  const { t } = useTranslation();
+  const [now, setNow] = useState(Date.now());
+  const hasActive = jobs.some(isJobActive);
+
+  // Tick once a second only while something is running.
+  useEffect(() => {
+    if (!hasActive) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasActive]);
+
+  if (!jobs.length) return null;
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-4 space-y-3">
+      <h4 className="text-sm font-bold text-gray-400 uppercase tracking-widest">{title || t('jobs.title')}</h4>
+      <ul className="space-y-3">
+        {jobs.map(job => {
+          const active = isJobActive(job);
+          const pending = isJobPending(job);
+          const elapsed = job.startedAt ? (job.finishedAt || now) - job.startedAt : 0;
+          const { label, className } = statusLabels[job.status];
+          return (
+            <li key={job.id} className="space-y-2">
+              <div className="flex items-center gap-3">
+                <span className={`px-2 py-0.5 rounded-md text-[10px] font-bold uppercase tracking-wider ${className}`}>{t(label)}</span>
+                <p className="flex-1 text-sm text-gray-700 line-clamp-1" title={job.prompt}>{job.prompt}</p>
+                <span className="text-xs font-mono text-gray-500">{job.startedAt ? formatElapsed(elapsed) : '--:--'}</span>
+                {pending ? (
+                  <button onClick={() => cancelVideoJob(job.id)} className="text-xs font-bold text-red-600 hover:underline">{t('common.cancel')}</button>
+                ) : (
+                  <>
+                    {(job.status === 'failed' || job.status === 'timedOut') && job.errorKind !== 'safety' && (
+                      <button
+                        onClick={() => retryVideoJob(job.id, job.status === 'timedOut' ? job.timeoutMs * 2 : undefined)}
+                        className="text-xs font-bold text-indigo-600 hover:underline"
+                      >
+                        {t('jobs.retry')}
+                      </button>
+                    )}
+                    {job.status === 'succeeded' && onOpenResult && (
+                      <button onClick={() => onOpenResult(job)} className="text-xs font-bold text-indigo-600 hover:underline">{t('jobs.view')}</button>
+                    )}
+                    <button onClick={() => dismissVideoJob(job.id)} className="text-gray-300 hover:text-gray-600" title={t('common.dismiss')}>
+                      <i className="fas fa-xmark"></i>
+                    </button>
+                  </>
+                )}
+              </div>
+              {active && (
+                <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-500 transition-all duration-1000"
+                    style={{ width: `${Math.min(100, (elapsed / job.timeoutMs) * 100)}%` }}
+                  ></div>
+                </div>
+              )}
+              <p className="text-xs text-gray-400">
+                {job.aspectRatio}
+                {active && ` · ${t('jobs.checks', { count: job.pollCount })} · ${t('jobs.timesOut', { minutes: Math.round(job.timeoutMs / 60000) })}`}
+                {job.error && <span className="text-red-600"> · {job.errorKind && job.status !== 'succeeded' ? `${t(errorHints[job.errorKind].title)}: ` : ''}{job.error}</span>}
+              </p>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default JobPanel;
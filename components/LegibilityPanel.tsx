@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import { BrandBrief, LogoData } from '../types';
+import { LegibilityReport, COLOR_VISION, MIN_CONTRAST, ALT_TEXT_LIMIT, analyzeLegibility, generateAltText } from '../services/legibility';
+import { formatNumber } from '../services/i18n';
+import { useTranslation } from '../hooks/useLocale';
+
+interface LegibilityPanelProps {
+  logo: LogoData;
+  brief: BrandBrief;
+  onAltTextChange: (altText: string) => void;
+}
+
+const ratioClass = (ratio: number) =>
+  ratio >= 4.5 ? 'bg-green-100 text-green-700' : ratio >= MIN_CONTRAST ? 'bg-amber-100 text-amber-800' : 'bg-red-100 text-red-700';
+
+const LegibilityPanel: React.FC<LegibilityPanelProps> = ({ logo, brief, onAltTextChange }) => {
+  const { t, locale } = useTranslation();
+  const [report, setReport] = useState<LegibilityReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState(logo.altText || '');
+
+  // Findings are worded when the analysis runs, so a language change re-runs it.
+  useEffect(() => {
+    let cancelled = false;
+    setReport(null);
+    setError(null);
+    analyzeLegibility(logo.url)
+      .then(result => !cancelled && setReport(result))
+      .catch((err: any) => !cancelled && setError(err?.message || t('legibility.analyseFailed')));
+    return () => {
+      cancelled = true;
+    };
+  }, [logo.id, logo.url, locale]);
+
+  useEffect(() => {
+    setDraft(logo.altText || '');
+  }, [logo.id, logo.altText]);
+
+  const commitDraft = () => {
+    if (draft.trim() !== (logo.altText || '')) onAltTextChange(draft.trim());
+  };
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-4 space-y-2">
+        <div className="flex items-center justify-between">
+          <label htmlFor="logo-alt-text" className="text-sm font-bold text-gray-400 uppercase tracking-widest">{t('legibility.altText')}</label>
+          <button
+            onClick={() => {
+              const generated = generateAltText(logo, brief);
+              setDraft(generated);
+              onAltTextChange(generated);
+            }}
+            className="text-xs font-bold text-gray-500 hover:text-indigo-600"
+          >
+            <i className="fas fa-rotate me-1"></i> {t('legibility.regenerate')}
+          </button>
+        </div>
+        <textarea
+          id="logo-alt-text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitDraft}
+          rows={2}
+          placeholder={t('legibility.altPlaceholder')}
+          className="w-full rounded-xl border-gray-200 bg-gray-50 focus:border-indigo-500 focus:ring-indigo-500 p-2.5 text-sm text-gray-800"
+        />
+        <p className={`text-xs ${draft.length > ALT_TEXT_LIMIT ? 'text-amber-700' : 'text-gray-400'}`}>
+          {t('legibility.altCount', { length: draft.length, limit: ALT_TEXT_LIMIT })}
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+      {!report && !error && <div className="w-full p-4 text-sm text-gray-400 text-center">{t('legibility.checking')}</div>}
+
+      {report && (
+        <>
+          <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-4 space-y-2">
+            <h4 className="text-sm font-bold text-gray-400 uppercase tracking-widest">{t('legibility.findings')}</h4>
+            {report.issues.length ? (
+              <ul className="space-y-2">
+                {report.issues.map((issue, index) => (
+                  <li key={index} className={`text-sm flex gap-2 ${issue.severity === 'error' ? 'text-red-700' : 'text-amber-800'}`}>
+                    <i className={`fas ${issue.severity === 'error' ? 'fa-circle-exclamation' : 'fa-triangle-exclamation'} mt-0.5`}></i>
+                    <span>{issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-green-700">
+                <i className="fas fa-circle-check me-2"></i>
+                {t('legibility.allClear')}
+              </p>
+            )}
+          </div>
+
+          <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-4 space-y-3">
+            <h4 className="text-sm font-bold text-gray-400 uppercase tracking-widest">{t('legibility.smallSizes')}</h4>
+            <div className="flex flex-wrap items-end gap-4">
+              {report.sizes.map(check => (
+                <div key={check.size} className="flex flex-col items-center gap-1">
+                  <img src={check.url} alt={t('legibility.sizeAlt', { size: check.size })} width={check.size} height={check.size} className="border border-gray-100" />
+                  <img src={check.url} alt="" aria-hidden="true" className="w-16 h-16 border border-gray-100" style={{ imageRendering: 'pixelated' }} />
+                  <span className="text-xs text-gray-500">{check.size}px</span>
+                  <span className={`text-[10px] font-bold px-1.5 rounded ${ratioClass(check.contrast)}`}>{check.contrast.toFixed(1)}:1</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-4 space-y-3">
+            <h4 className="text-sm font-bold text-gray-400 uppercase tracking-widest">{t('legibility.colourVision')}</h4>
+            <div className="grid grid-cols-2 gap-3">
+              {report.vision.map(check => (
+                <div key={check.type} className="space-y-1">
+                  <img src={check.url} alt={t('legibility.visionAlt', { vision: t(COLOR_VISION[check.type].label).toLocaleLowerCase(locale) })} className="w-full aspect-square object-contain rounded-xl border border-gray-100" />
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-bold text-gray-700">{t(COLOR_VISION[check.type].label)}</span>
+                    <span className={`text-[10px] font-bold px-1.5 rounded ${ratioClass(check.contrast)}`}>{check.contrast.toFixed(1)}:1</span>
+                  </div>
+                  <p className="text-xs text-gray-400">{t(COLOR_VISION[check.type].description)}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-4 space-y-2">
+            <h4 className="text-sm font-bold text-gray-400 uppercase tracking-widest">{t('legibility.contrast')}</h4>
+            {report.colors.map(color => (
+              <div key={color.hex} className="flex items-center gap-3 text-sm">
+                <span className="w-8 h-8 rounded-lg border border-gray-200 flex items-center justify-center" style={{ backgroundColor: report.background }}>
+                  <span className="w-4 h-4 rounded" style={{ backgroundColor: color.hex }}></span>
+                </span>
+                <span className="font-mono text-gray-700">{color.hex.toUpperCase()}</span>
+                <span className="text-gray-400">{t('legibility.share', { share: formatNumber(color.share, locale, { style: 'percent' }) })}</span>
+                <span className={`ms-auto text-xs font-bold px-2 py-0.5 rounded ${ratioClass(color.contrast)}`}>{color.contrast.toFixed(2)}:1</span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LegibilityPanel;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { TranslationKey } from '../services/i18n';
+import { useTranslation } from '../hooks/useLocale';
+
+interface LockedPaletteNoticeProps {
+  palette: string[];
+  label: TranslationKey;
+  onUnlock: () => void;
+}
+
+const LockedPaletteNotice: React.FC<LockedPaletteNoticeProps> = ({ palette, label, onUnlock }) => {
+  const { t } = useTranslation();
+
+  return (
+    <p className="text-xs text-gray-500 flex items-center gap-2">
+      <i className="fas fa-lock text-indigo-600"></i>
+      {t(label)}
+      {palette.map(hex => <span key={hex} title={hex} className="w-4 h-4 rounded border border-gray-200" style={{ backgroundColor: hex }}></span>)}
+      <button onClick={onUnlock} className="font-bold text-indigo-600 hover:underline">{t('common.unlock')}</button>
+    </p>
+  );
+};
+
+export default LockedPaletteNotice;
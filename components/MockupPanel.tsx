@@ -0,0 +1,109 @@
+
+import React, { useState, useEffect } from 'react';
+import { LogoData } from '../types';
+import { MOCKUP_SCENES, MockupId, LogoSources, prepareLogoSources, renderMockup } from '../services/mockups';
+import { canvasToBlob, downloadBlob, slugify } from '../services/imageUtils';
+import { TranslationKey } from '../services/i18n';
+import { useTranslation } from '../hooks/useLocale';
+
+interface MockupPanelProps {
+  logo: LogoData;
+  name: string;
+}
+
+const sceneLabels: Record<MockupId, TranslationKey> = {
+  businessCard: 'mockups.scene.businessCard',
+  websiteHeader: 'mockups.scene.websiteHeader',
+  tshirt: 'mockups.scene.tshirt',
+  appIcon: 'mockups.scene.appIcon',
+  darkBackground: 'mockups.scene.darkBackground',
+  lightBackground: 'mockups.scene.lightBackground'
+};
+
+const MockupPanel: React.FC<MockupPanelProps> = ({ logo, name }) => {
+  const { t } = useTranslation();
+  const [scene, setScene] = useState<MockupId>('businessCard');
+  const [sources, setSources] = useState<LogoSources | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSources(null);
+    setError(null);
+    prepareLogoSources(logo)
+      .then(prepared => !cancelled && setSources(prepared))
+      .catch((err: any) => !cancelled && setError(err?.message || t('mockups.prepareFailed')));
+    return () => {
+      cancelled = true;
+    };
+  }, [logo.id, logo.url]);
+
+  useEffect(() => {
+    if (!sources) return;
+    let url: string | null = null;
+    let cancelled = false;
+    canvasToBlob(renderMockup(scene, sources, name)).then(blob => {
+      if (cancelled) return;
+      url = URL.createObjectURL(blob);
+      setPreview(url);
+    }).catch((err: any) => !cancelled && setError(err?.message || t('mockups.renderFailed')));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [sources, scene, name]);
+
+  const exportPng = async (id: MockupId) => {
+    if (!sources) return;
+    downloadBlob(await canvasToBlob(renderMockup(id, sources, name)), `${slugify(name)}-${slugify(MOCKUP_SCENES[id].label)}.png`);
+  };
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="w-full aspect-square bg-gray-100 rounded-3xl overflow-hidden shadow-2xl flex items-center justify-center relative">
+        {preview && <img src={preview} alt={t('mockups.alt', { scene: t(sceneLabels[scene]) })} className="w-full h-full object-contain" />}
+        {!preview && !error && <div className="w-12 h-12 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin"></div>}
+        {error && <p className="p-6 text-sm text-red-600 text-center">{error}</p>}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {(Object.keys(MOCKUP_SCENES) as MockupId[]).map(id => (
+          <button
+            key={id}
+            onClick={() => {
+              setPreview(null);
+              setScene(id);
+            }}
+            className={`py-2 rounded-xl border text-xs font-bold flex flex-col items-center gap-1 transition-colors ${scene === id ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-gray-200 bg-white text-gray-600 hover:border-indigo-300'}`}
+          >
+            <i className={`fas ${MOCKUP_SCENES[id].icon}`}></i>
+            {t(sceneLabels[id])}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => exportPng(scene)}
+          disabled={!sources}
+          className="flex-1 py-2.5 bg-gray-900 text-white rounded-xl font-bold hover:bg-black transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <i className="fas fa-download"></i>
+          {t('mockups.exportPng')}
+        </button>
+        <button
+          onClick={async () => {
+            for (const id of Object.keys(MOCKUP_SCENES) as MockupId[]) await exportPng(id);
+          }}
+          disabled={!sources}
+          className="px-5 py-2.5 bg-gray-100 text-gray-700 rounded-xl font-bold hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          {t('mockups.exportAll')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MockupPanel;
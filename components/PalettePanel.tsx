@@ -0,0 +1,102 @@
+
+import React, { useState, useEffect } from 'react';
+import { LogoData, PaletteColor } from '../types';
+import { extractPalette, paletteDrift, paletteToJson, paletteToAse, wcagRating, WCAG_RATING_LABELS } from '../services/palette';
+import { downloadBlob, slugify } from '../services/imageUtils';
+import { formatNumber } from '../services/i18n';
+import { useTranslation } from '../hooks/useLocale';
+
+interface PalettePanelProps {
+  logo: LogoData;
+  name: string;
+  lockedPalette: string[] | null;
+  onLockChange: (palette: string[] | null) => void;
+}
+
+const ratingClass = (ratio: number) =>
+  ratio >= 4.5 ? 'bg-green-100 text-green-700' : ratio >= 3 ? 'bg-amber-100 text-amber-800' : 'bg-red-100 text-red-700';
+
+const PalettePanel: React.FC<PalettePanelProps> = ({ logo, name, lockedPalette, onLockChange }) => {
+  const { t } = useTranslation();
+  const [palette, setPalette] = useState<PaletteColor[] | null>(logo.palette || null);
+
+  // Logos saved before palettes existed are analysed on the fly.
+  useEffect(() => {
+    if (logo.palette) {
+      setPalette(logo.palette);
+      return;
+    }
+    let cancelled = false;
+    setPalette(null);
+    extractPalette(logo.url).then(result => !cancelled && setPalette(result)).catch(() => !cancelled && setPalette([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [logo.id, logo.palette, logo.url]);
+
+  if (!palette) {
+    return <div className="w-full p-4 text-sm text-gray-400 text-center">{t('palette.analysing')}</div>;
+  }
+
+  const drift = lockedPalette ? paletteDrift(palette, lockedPalette) : [];
+
+  return (
+    <div className="w-full bg-white rounded-2xl border border-gray-100 shadow-sm p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-gray-400 uppercase tracking-widest">{t('palette.title')}</h4>
+        <div className="flex items-center gap-3">
+          <button onClick={() => downloadBlob(new Blob([paletteToJson(palette, name)], { type: 'application/json' }), `${slugify(name)}-palette.json`)} className="text-xs font-bold text-gray-500 hover:text-indigo-600">
+            JSON
+          </button>
+          <button onClick={() => downloadBlob(new Blob([paletteToAse(palette, name)], { type: 'application/octet-stream' }), `${slugify(name)}-palette.ase`)} className="text-xs font-bold text-gray-500 hover:text-indigo-600">
+            ASE
+          </button>
+          {lockedPalette ? (
+            <button onClick={() => onLockChange(null)} className="px-3 py-1 rounded-lg bg-indigo-600 text-white text-xs font-bold">
+              <i className="fas fa-lock me-1"></i> {t('palette.locked')}
+            </button>
+          ) : (
+            <button onClick={() => onLockChange(palette.map(color => color.hex))} disabled={!palette.length} className="px-3 py-1 rounded-lg border border-gray-200 text-gray-600 text-xs font-bold hover:border-indigo-300 disabled:opacity-50">
+              <i className="fas fa-lock-open me-1"></i> {t('palette.lock')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {lockedPalette && (
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          {t('palette.lockedLabel')}
+          {lockedPalette.map(hex => <span key={hex} title={hex} className="w-5 h-5 rounded border border-gray-200" style={{ backgroundColor: hex }}></span>)}
+          {drift.length > 0 && (
+            <span className="ms-auto text-amber-700 font-bold">
+              <i className="fas fa-triangle-exclamation me-1"></i>
+              {t('palette.drift', { count: drift.length })}
+            </span>
+          )}
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {palette.map(color => (
+          <li key={color.hex} className="flex items-center gap-3">
+            <span className={`w-10 h-10 rounded-lg border shrink-0 ${drift.includes(color) ? 'border-amber-400 ring-2 ring-amber-200' : 'border-gray-200'}`} style={{ backgroundColor: color.hex }}></span>
+            <div className="flex-1 min-w-0 text-xs text-gray-500">
+              <p className="font-mono font-bold text-gray-800">{color.hex.toUpperCase()} <span className="font-sans font-normal text-gray-400">· {formatNumber(color.share, undefined, { style: 'percent' })}</span></p>
+              <p>RGB {color.rgb.join(', ')} · CMYK {color.cmyk.join(', ')}</p>
+            </div>
+            <div className="flex flex-col gap-1 text-[10px] font-bold">
+              <span className={`px-1.5 py-0.5 rounded ${ratingClass(color.contrastOnWhite)}`} title={t('palette.onWhite')}>
+                ◻ {color.contrastOnWhite.toFixed(1)} {t(WCAG_RATING_LABELS[wcagRating(color.contrastOnWhite)])}
+              </span>
+              <span className={`px-1.5 py-0.5 rounded ${ratingClass(color.contrastOnBlack)}`} title={t('palette.onBlack')}>
+                ◼ {color.contrastOnBlack.toFixed(1)} {t(WCAG_RATING_LABELS[wcagRating(color.contrastOnBlack)])}
+              </span>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PalettePanel;
@@ -0,0 +1,204 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { AppStep, Project } from '../types';
+import { listProjects, renameProject, duplicateProject, deleteProject } from '../services/projectStore';
+import { exportProjectFile, importProjectFile, PROJECT_FILE_EXTENSION } from '../services/projectFile';
+import { downloadBlob, slugify } from '../services/imageUtils';
+import { TranslationKey, formatDate } from '../services/i18n';
+import { useTranslation } from '../hooks/useLocale';
+
+interface ProjectLibraryProps {
+  currentProjectId: string | null;
+  onOpen: (project: Project) => void;
+  onNew: () => void;
+  onRenamed: (id: string, name: string) => void;
+}
+
+const stepLabels: Partial<Record<AppStep, TranslationKey>> = {
+  [AppStep.Design]: 'projects.step.design',
+  [AppStep.Animate]: 'projects.step.animate',
+  [AppStep.View]: 'projects.step.view'
+};
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ currentProjectId, onOpen, onNew, onRenamed }) => {
+  const { t, locale } = useTranslation();
+  const [projects, setProjects] = useState<Project[] | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err: any) {
+      setError(err?.message || t('projects.loadFailed'));
+      setProjects([]);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (err: any) {
+      setError(err?.message || t('projects.actionFailed'));
+    }
+  };
+
+  const commitRename = (id: string) => {
+    const name = draftName.trim();
+    setRenamingId(null);
+    if (name) {
+      run(async () => {
+        await renameProject(id, name);
+        onRenamed(id, name);
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">{t('projects.title')}</h2>
+          <p className="text-gray-600">{t('projects.subtitle')}</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => importRef.current?.click()}
+            className="px-5 py-2.5 bg-gray-100 text-gray-700 rounded-xl font-bold hover:bg-gray-200 transition-colors flex items-center gap-2"
+          >
+            <i className="fas fa-file-import"></i>
+            {t('projects.import')}
+          </button>
+          <button
+            onClick={onNew}
+            className="px-6 py-2.5 gradient-bg text-white rounded-xl font-bold shadow-md hover:opacity-90 transition-opacity flex items-center gap-2"
+          >
+            <i className="fas fa-plus"></i>
+            {t('projects.new')}
+          </button>
+        </div>
+        <input
+          ref={importRef}
+          type="file"
+          accept={`${PROJECT_FILE_EXTENSION},application/zip`}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) run(() => importProjectFile(file));
+          }}
+        />
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border-s-4 border-red-500 text-red-700 text-sm font-medium">{error}</div>
+      )}
+
+      {projects === null ? (
+        <p className="text-gray-400 font-medium">{t('projects.loading')}</p>
+      ) : projects.length === 0 ? (
+        <div className="text-center py-16 bg-white rounded-3xl border-2 border-dashed border-gray-200">
+          <div className="text-gray-300 text-6xl mb-4">
+            <i className="fas fa-folder-open"></i>
+          </div>
+          <p className="text-gray-400 font-medium">{t('projects.empty')}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {projects.map(project => {
+            const cover = project.logos.find(l => l.id === project.selectedLogoId) || project.logos[0];
+            return (
+              <div
+                key={project.id}
+                className={`bg-white rounded-2xl border shadow-sm overflow-hidden flex flex-col ${project.id === currentProjectId ? 'border-indigo-400' : 'border-gray-100'}`}
+              >
+                <button onClick={() => onOpen(project)} className="aspect-video bg-gray-50 flex items-center justify-center">
+                  {cover ? (
+                    <img src={`data:${cover.mimeType};base64,${cover.base64}`} alt={project.name} className="h-full object-contain" />
+                  ) : (
+                    <i className="fas fa-image text-4xl text-gray-200"></i>
+                  )}
+                </button>
+                <div className="p-4 flex-1 flex flex-col gap-2">
+                  {renamingId === project.id ? (
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onBlur={() => commitRename(project.id)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename(project.id);
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      className="w-full rounded-lg border-gray-200 p-1.5 text-gray-900 font-semibold"
+                    />
+                  ) : (
+                    <p className="text-gray-900 font-semibold line-clamp-1">{project.name}</p>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    {t(stepLabels[project.step] || 'projects.step.draft')} · {t('projects.logos', { count: project.logos.length })} · {t('projects.animations', { count: project.animations.length })}
+                  </p>
+                  <p className="text-xs text-gray-400">{t('projects.updated', { date: formatDate(project.updatedAt, locale) })}</p>
+                  <div className="flex items-center gap-2 mt-auto pt-2">
+                    <button
+                      onClick={() => onOpen(project)}
+                      className="flex-1 py-2 bg-gray-900 text-white rounded-lg text-sm font-bold hover:bg-black transition-colors"
+                    >
+                      {t('projects.open')}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setDraftName(project.name);
+                        setRenamingId(project.id);
+                      }}
+                      title={t('projects.rename')}
+                      className="w-9 h-9 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200"
+                    >
+                      <i className="fas fa-pen"></i>
+                    </button>
+                    <button
+                      onClick={() => run(async () => downloadBlob(await exportProjectFile(project), `${slugify(project.name)}${PROJECT_FILE_EXTENSION}`))}
+                      title={t('projects.export')}
+                      className="w-9 h-9 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200"
+                    >
+                      <i className="fas fa-file-export"></i>
+                    </button>
+                    <button
+                      onClick={() => run(() => duplicateProject(project.id))}
+                      title={t('projects.duplicate')}
+                      className="w-9 h-9 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200"
+                    >
+                      <i className="fas fa-clone"></i>
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (window.confirm(t('projects.confirmDelete', { name: project.name }))) {
+                          run(() => deleteProject(project.id));
+                        }
+                      }}
+                      disabled={project.id === currentProjectId}
+                      title={project.id === currentProjectId ? t('projects.deleteOpen') : t('common.delete')}
+                      className="w-9 h-9 rounded-lg bg-gray-100 text-red-500 hover:bg-red-50 disabled:opacity-30"
+                    >
+                      <i className="fas fa-trash"></i>
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectLibrary;
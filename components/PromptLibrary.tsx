@@ -0,0 +1,165 @@
+
+import React, { useState } from 'react';
+import { BrandBrief, PromptKind } from '../types';
+import { usePromptLibrary } from '../hooks/usePromptLibrary';
+import { saveTemplate, removeTemplate, removePromptHistoryEntry, clearPromptHistory } from '../services/promptLibrary';
+import { TEMPLATE_VARIABLES, fillTemplate, templateVariables } from '../services/promptBuilder';
+import { formatDate } from '../services/i18n';
+import { useTranslation } from '../hooks/useLocale';
+
+interface PromptLibraryProps {
+  kind: PromptKind;
+  brief: BrandBrief;
+  // Text offered for saving as a new template.
+  currentText: string;
+  // `brief` is set when a logo history entry is reused.
+  onUse: (text: string, brief?: BrandBrief) => void;
+}
+
+const PromptLibrary: React.FC<PromptLibraryProps> = ({ kind, brief, currentText, onUse }) => {
+  const { t, locale } = useTranslation();
+  const library = usePromptLibrary();
+  const [tab, setTab] = useState<'history' | 'templates'>('history');
+  const [draftName, setDraftName] = useState('');
+  const [draftText, setDraftText] = useState<string | null>(null);
+
+  const history = library.history.filter(h => h.kind === kind);
+  const templates = library.templates.filter(template => template.kind === kind);
+  const templateText = draftText ?? currentText;
+
+  const startTemplate = (text: string) => {
+    setDraftText(text);
+    setDraftName('');
+    setTab('templates');
+  };
+
+  const submitTemplate = () => {
+    if (!draftName.trim() || !templateText.trim()) return;
+    saveTemplate({ kind, name: draftName, text: templateText });
+    setDraftName('');
+    setDraftText(null);
+  };
+
+  return (
+    <details className="bg-white rounded-2xl border border-gray-100 shadow-sm">
+      <summary className="px-4 py-3 cursor-pointer text-sm font-bold text-gray-700 flex items-center gap-2">
+        <i className="fas fa-book-bookmark text-indigo-600"></i>
+        {t('prompts.title')}
+        <span className="ms-auto text-xs font-medium text-gray-400">{t('prompts.counts', { recent: history.length, saved: templates.length })}</span>
+      </summary>
+
+      <div className="px-4 pb-4 space-y-3">
+        <div className="flex gap-2">
+          {(['history', 'templates'] as const).map(id => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`px-3 py-1 rounded-lg text-xs font-bold transition-colors ${tab === id ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+            >
+              {t(`prompts.tab.${id}`)}
+            </button>
+          ))}
+          {tab === 'history' && history.length > 0 && (
+            <button onClick={() => clearPromptHistory(kind)} className="ms-auto text-xs font-bold text-gray-400 hover:text-red-500">
+              {t('prompts.clearHistory')}
+            </button>
+          )}
+        </div>
+
+        {tab === 'history' && history.length > 0 && (
+          <p className="text-[10px] text-gray-400">{t(kind === 'logo' ? 'prompts.historyNote.logo' : 'prompts.historyNote')}</p>
+        )}
+
+        {tab === 'history' && (
+          history.length ? (
+            <ul className="space-y-2 max-h-72 overflow-y-auto">
+              {history.map(entry => (
+                <li key={entry.id} className="flex items-start gap-3 p-2 rounded-xl border border-gray-100">
+                  {entry.thumbnail ? (
+                    <img src={entry.thumbnail} alt="" className="w-12 h-12 rounded-lg object-cover border border-gray-100 shrink-0" />
+                  ) : (
+                    <div className="w-12 h-12 rounded-lg bg-gray-50 text-gray-300 flex items-center justify-center shrink-0">
+                      <i className={`fas ${kind === 'animation' ? 'fa-film' : 'fa-image'}`}></i>
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-gray-700 line-clamp-2" title={entry.prompt}>{entry.prompt}</p>
+                    <p className="text-[10px] text-gray-400 mt-1">{formatDate(entry.createdAt, locale, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</p>
+                  </div>
+                  <div className="flex flex-col items-end gap-1 text-xs font-bold shrink-0">
+                    <button onClick={() => onUse(entry.brief?.details ?? entry.prompt, entry.brief)} className="text-indigo-600 hover:underline">{t('prompts.use')}</button>
+                    <button onClick={() => startTemplate(entry.brief?.details ?? entry.prompt)} className="text-gray-500 hover:text-indigo-600">{t('common.save')}</button>
+                    <button onClick={() => removePromptHistoryEntry(entry.id)} className="text-gray-300 hover:text-red-500" title={t('prompts.removeHistory')}>
+                      <i className="fas fa-xmark"></i>
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-gray-400">{t('prompts.historyEmpty')}</p>
+          )
+        )}
+
+        {tab === 'templates' && (
+          <>
+            {templates.length > 0 && (
+              <ul className="space-y-2 max-h-72 overflow-y-auto">
+                {templates.map(template => (
+                  <li key={template.id} className="p-2 rounded-xl border border-gray-100">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-bold text-gray-800 flex-1 truncate">{template.name}</span>
+                      <button onClick={() => onUse(fillTemplate(template.text, brief))} className="text-xs font-bold text-indigo-600 hover:underline">{t('prompts.use')}</button>
+                      <button onClick={() => removeTemplate(template.id)} className="text-xs text-gray-300 hover:text-red-500" title={t('prompts.deleteTemplate')}>
+                        <i className="fas fa-trash"></i>
+                      </button>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1 line-clamp-2" title={template.text}>{template.text}</p>
+                    {templateVariables(template.text).length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {templateVariables(template.text).map(name => (
+                          <span key={name} className={`px-1.5 py-0.5 rounded text-[10px] font-mono ${TEMPLATE_VARIABLES[name] ? 'bg-indigo-50 text-indigo-700' : 'bg-amber-50 text-amber-700'}`}>
+                            {`{${name}}`}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="space-y-2 pt-2 border-t border-gray-100">
+              <textarea
+                value={templateText}
+                onChange={(e) => setDraftText(e.target.value)}
+                className="block w-full rounded-xl border-gray-200 bg-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 h-20 p-2.5 text-xs text-gray-800"
+              ></textarea>
+              <div className="flex gap-2">
+                <input
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && submitTemplate()}
+                  placeholder={t('prompts.templateName')}
+                  className="flex-1 rounded-xl border-gray-200 bg-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 p-2 text-sm"
+                />
+                <button
+                  onClick={submitTemplate}
+                  disabled={!draftName.trim() || !templateText.trim()}
+                  className="px-4 py-2 bg-gray-900 text-white rounded-xl text-sm font-bold hover:bg-black disabled:opacity-50"
+                >
+                  {t('prompts.saveTemplate')}
+                </button>
+              </div>
+              <p className="text-[10px] text-gray-400">
+                {t('prompts.variables', { variables: Object.keys(TEMPLATE_VARIABLES).map(name => `{${name}}`).join(' ') })}
+              </p>
+            </div>
+          </>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default PromptLibrary;
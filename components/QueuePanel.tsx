@@ -0,0 +1,99 @@
+
+import React, { useState } from 'react';
+import { AnimationData, VideoJob } from '../types';
+import { getVideoJobConcurrency, setVideoJobConcurrency, isJobPending } from '../services/jobManager';
+import JobPanel from './JobPanel';
+import { useTranslation } from '../hooks/useLocale';
+
+interface QueuePanelProps {
+  jobs: VideoJob[];
+  projectId: string | null;
+  animations: AnimationData[];
+  onOpenAnimation: (animation: AnimationData) => void;
+  onClose: () => void;
+}
+
+// Non-modal side panel: the rest of the app stays usable while it is open.
+const QueuePanel: React.FC<QueuePanelProps> = ({ jobs, projectId, animations, onOpenAnimation, onClose }) => {
+  const { t } = useTranslation();
+  const [concurrency, setConcurrency] = useState(getVideoJobConcurrency());
+  const projectJobs = jobs.filter(job => job.projectId === projectId);
+  const otherPending = jobs.filter(job => job.projectId !== projectId && isJobPending(job));
+
+  return (
+    <aside className="fixed top-[73px] end-0 bottom-0 w-full sm:w-96 bg-gray-50 border-s shadow-2xl z-30 flex flex-col">
+      <div className="px-5 py-4 bg-white border-b flex items-center justify-between">
+        <h3 className="font-bold text-gray-900 flex items-center gap-2">
+          <i className="fas fa-layer-group text-indigo-600"></i>
+          {t('queue.title')}
+        </h3>
+        <div className="flex items-center gap-3">
+          <label className="text-xs font-bold text-gray-500 uppercase tracking-wider flex items-center gap-2">
+            {t('queue.parallel')}
+            <select
+              value={concurrency}
+              onChange={(e) => {
+                setConcurrency(Number(e.target.value));
+                setVideoJobConcurrency(Number(e.target.value));
+              }}
+              className="rounded-lg border-gray-200 bg-white p-1 text-sm"
+            >
+              {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title={t('common.close')}>
+            <i className="fas fa-xmark"></i>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-5 space-y-6">
+        {projectJobs.length === 0 && otherPending.length === 0 && (
+          <p className="text-sm text-gray-400 text-center py-8">{t('queue.empty')}</p>
+        )}
+
+        <JobPanel
+          jobs={projectJobs}
+          title={t('queue.thisProject')}
+          onOpenResult={(job) => {
+            const result = animations.find(a => a.id === job.animationId);
+            if (result) onOpenAnimation(result);
+          }}
+        />
+
+        {otherPending.length > 0 && <JobPanel jobs={otherPending} title={t('queue.otherProjects')} />}
+
+        {animations.length > 0 && (
+          <div>
+            <h4 className="text-sm font-bold text-gray-400 uppercase tracking-widest mb-3">{t('queue.results')}</h4>
+            <div className="grid grid-cols-2 gap-3">
+              {[...animations].reverse().map(animation => (
+                <button
+                  key={animation.id}
+                  onClick={() => onOpenAnimation(animation)}
+                  className="group text-start bg-white rounded-xl border border-gray-100 overflow-hidden shadow-sm hover:border-indigo-300"
+                >
+                  <video
+                    src={animation.videoUrl}
+                    muted
+                    loop
+                    playsInline
+                    onMouseEnter={(e) => e.currentTarget.play()}
+                    onMouseLeave={(e) => e.currentTarget.pause()}
+                    className="w-full aspect-video bg-black object-contain"
+                  ></video>
+                  <p className="px-2 py-1.5 text-xs text-gray-600 line-clamp-1">
+                    <span className="font-bold text-gray-400 me-1">{animation.aspectRatio}</span>
+                    {animation.prompt}
+                  </p>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default QueuePanel;
@@ -0,0 +1,235 @@
+
+import React, { useState, useEffect } from 'react';
+import { BudgetSettings, ImageSize, ModelPrice, UsageEvent } from '../types';
+import { useUsage } from '../hooks/useUsage';
+import { useTranslation } from '../hooks/useLocale';
+import { listProjects } from '../services/projectStore';
+import {
+  summarizeUsage, groupUsage, dayKey, estimateCost, formatCost,
+  setBudget, setModelPrice, resetPrices, clearUsage
+} from '../services/usageMeter';
+import { TranslateFn } from '../services/i18n';
+
+interface UsagePanelProps {
+  projectId: string | null;
+  onClose: () => void;
+}
+
+const DAYS_SHOWN = 14;
+const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+
+const sectionTitle = "text-sm font-bold text-gray-400 uppercase tracking-widest mb-3";
+const numberInput = "w-20 rounded-lg border-gray-200 bg-white p-1 text-sm text-end";
+
+const parseLimit = (value: string) => (value.trim() === '' ? undefined : Math.max(0, Number(value)));
+
+const describeCall = (event: UsageEvent, t: TranslateFn) => {
+  if (event.kind === 'image') return `${t(event.operation === 'refine' ? 'usage.call.refine' : 'usage.call.image')} · ${event.imageSize}`;
+  if (event.kind === 'text') return t('usage.call.translate');
+  return `${t('usage.call.video')} · ${event.resolution} · ${event.aspectRatio} · ${event.videoSeconds}s`;
+};
+
+// Non-modal side panel, like the render queue.
+const UsagePanel: React.FC<UsagePanelProps> = ({ projectId, onClose }) => {
+  const { t } = useTranslation();
+  const { events, prices, budget } = useUsage();
+  const [scope, setScope] = useState<'all' | 'project'>(projectId ? 'project' : 'all');
+  const [projectNames, setProjectNames] = useState<Map<string, string>>(new Map());
+
+  useEffect(() => {
+    listProjects().then(projects => setProjectNames(new Map(projects.map(p => [p.id, p.name])))).catch(() => {});
+  }, []);
+
+  const scoped = scope === 'project' && projectId ? events.filter(e => e.projectId === projectId) : events;
+  const today = dayKey(Date.now());
+  const totals = summarizeUsage(scoped, prices);
+  const todayTotals = summarizeUsage(scoped.filter(e => dayKey(e.timestamp) === today), prices);
+
+  const days = Array.from({ length: DAYS_SHOWN }, (_, i) => dayKey(Date.now() - i * 24 * 60 * 60 * 1000));
+  const byDay = groupUsage(scoped, e => dayKey(e.timestamp));
+  const daySummaries = days.map(day => ({ day, summary: summarizeUsage(byDay.get(day) || [], prices) }));
+  const maxDayCost = Math.max(...daySummaries.map(d => d.summary.cost), 0.0001);
+
+  const byProject = [...groupUsage(events, e => e.projectId || '')].map(([id, projectEvents]) => ({
+    id,
+    name: id ? projectNames.get(id) || t('usage.deletedProject') : t('usage.noProject'),
+    summary: summarizeUsage(projectEvents, prices)
+  })).sort((a, b) => b.summary.cost - a.summary.cost);
+
+  const updateBudget = (patch: Partial<BudgetSettings>) => setBudget({ ...budget, ...patch });
+
+  return (
+    <aside className="fixed top-[73px] end-0 bottom-0 w-full sm:w-[28rem] bg-gray-50 border-s shadow-2xl z-30 flex flex-col">
+      <div className="px-5 py-4 bg-white border-b flex items-center justify-between">
+        <h3 className="font-bold text-gray-900 flex items-center gap-2">
+          <i className="fas fa-gauge-high text-indigo-600"></i>
+          {t('usage.title')}
+        </h3>
+        <div className="flex items-center gap-3">
+          {projectId && (
+            <select value={scope} onChange={(e) => setScope(e.target.value as 'all' | 'project')} className="rounded-lg border-gray-200 bg-white p-1 text-sm">
+              <option value="project">{t('usage.scope.project')}</option>
+              <option value="all">{t('usage.scope.all')}</option>
+            </select>
+          )}
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title={t('common.close')}>
+            <i className="fas fa-xmark"></i>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-5 space-y-6">
+        <div className="grid grid-cols-2 gap-3">
+          {[
+            [t('usage.today'), formatCost(todayTotals.cost), `${t('usage.images', { count: todayTotals.images })} · ${t('usage.videos', { count: todayTotals.videos })}`],
+            [t('usage.total'), formatCost(totals.cost), `${t('usage.images', { count: totals.images })} · ${t('usage.videos', { count: totals.videos })}`],
+            [t('usage.calls'), String(totals.calls), t('usage.succeeded', { count: totals.succeeded })],
+            [t('usage.failures'), String(totals.failed), t('usage.notBilled')]
+          ].map(([label, value, detail]) => (
+            <div key={label} className="bg-white rounded-xl border border-gray-100 p-3">
+              <p className="text-xs font-bold text-gray-400 uppercase tracking-wider">{label}</p>
+              <p className="text-xl font-bold text-gray-900">{value}</p>
+              <p className="text-xs text-gray-500">{detail}</p>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-400">{t('usage.estimateNote')}</p>
+
+        <div>
+          <h4 className={sectionTitle}>{t('usage.lastDays', { count: DAYS_SHOWN })}</h4>
+          <ul className="space-y-1">
+            {daySummaries.map(({ day, summary }) => (
+              <li key={day} className="flex items-center gap-3 text-xs">
+                <span className="w-20 font-mono text-gray-500">{day.slice(5)}</span>
+                <div className="flex-1 h-3 bg-gray-100 rounded">
+                  <div className="h-3 gradient-bg rounded" style={{ width: `${(summary.cost / maxDayCost) * 100}%` }}></div>
+                </div>
+                <span className="w-16 text-gray-500 text-end">{summary.images}i · {summary.videos}v</span>
+                <span className="w-16 font-bold text-gray-800 text-end">{formatCost(summary.cost)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {byProject.length > 0 && (
+          <div>
+            <h4 className={sectionTitle}>{t('usage.byProject')}</h4>
+            <ul className="bg-white rounded-xl border border-gray-100 divide-y divide-gray-100">
+              {byProject.map(({ id, name, summary }) => (
+                <li key={id} className={`px-3 py-2 flex items-center gap-3 text-sm ${id === projectId ? 'bg-indigo-50' : ''}`}>
+                  <span className="flex-1 truncate text-gray-800">{name}</span>
+                  <span className="text-xs text-gray-500">{t('usage.callCount', { count: summary.calls })}{summary.failed ? ` · ${t('usage.failedCount', { count: summary.failed })}` : ''}</span>
+                  <span className="w-16 font-bold text-gray-800 text-end">{formatCost(summary.cost)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {scoped.length > 0 && (
+          <div>
+            <h4 className={sectionTitle}>{t('usage.recentCalls')}</h4>
+            <ul className="space-y-1">
+              {[...scoped].reverse().slice(0, 20).map(event => (
+                <li key={event.id} className="flex items-center gap-2 text-xs">
+                  <i className={`fas ${event.status === 'succeeded' ? 'fa-check text-green-600' : event.status === 'cancelled' ? 'fa-ban text-gray-400' : 'fa-xmark text-red-500'}`} title={event.errorKind || event.status}></i>
+                  <span className="flex-1 truncate text-gray-700" title={event.model}>{describeCall(event, t)}</span>
+                  <span className="text-gray-400">{(event.durationMs / 1000).toFixed(1)}s</span>
+                  <span className="w-14 text-end font-bold text-gray-700">{formatCost(estimateCost(event, prices))}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div>
+          <h4 className={sectionTitle}>{t('usage.budget')}</h4>
+          <div className="bg-white rounded-xl border border-gray-100 p-3 space-y-2 text-sm text-gray-700">
+            <label className="flex items-center justify-between">
+              {t('usage.dailyLimit')}
+              <input type="number" min={0} step={0.5} className={numberInput} value={budget.dailyLimit ?? ''} placeholder={t('usage.noLimit')} onChange={(e) => updateBudget({ dailyLimit: parseLimit(e.target.value) })} />
+            </label>
+            <label className="flex items-center justify-between">
+              {t('usage.projectLimit')}
+              <input type="number" min={0} step={0.5} className={numberInput} value={budget.projectLimit ?? ''} placeholder={t('usage.noLimit')} onChange={(e) => updateBudget({ projectLimit: parseLimit(e.target.value) })} />
+            </label>
+            <label className="flex items-center justify-between">
+              {t('usage.whenExceeded')}
+              <select value={budget.action} onChange={(e) => updateBudget({ action: e.target.value as BudgetSettings['action'] })} className="rounded-lg border-gray-200 bg-white p-1 text-sm">
+                <option value="confirm">{t('usage.action.confirm')}</option>
+                <option value="block">{t('usage.action.block')}</option>
+              </select>
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="text-sm font-bold text-gray-400 uppercase tracking-widest">{t('usage.prices')}</h4>
+            <button onClick={resetPrices} className="text-xs font-bold text-gray-500 hover:text-indigo-600">{t('usage.resetPrices')}</button>
+          </div>
+          <ul className="bg-white rounded-xl border border-gray-100 divide-y divide-gray-100">
+            {(Object.entries(prices) as [string, ModelPrice][]).map(([model, price]) => (
+              <li key={model} className="px-3 py-2 text-xs text-gray-600 space-y-1">
+                <p className="font-mono font-bold text-gray-800">{model}</p>
+                {price.perImage ? (
+                  <div className="flex gap-3">
+                    {IMAGE_SIZES.map(size => (
+                      <label key={size} className="flex items-center gap-1">
+                        {size}
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.001}
+                          className={numberInput}
+                          value={price.perImage?.[size] ?? 0}
+                          onChange={(e) => setModelPrice(model, { ...price, perImage: { ...price.perImage, [size]: Math.max(0, Number(e.target.value)) } })}
+                        />
+                      </label>
+                    ))}
+                    <span className="self-center text-gray-400">{t('usage.perImage')}</span>
+                  </div>
+                ) : price.perCall !== undefined ? (
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.001}
+                      className={numberInput}
+                      value={price.perCall}
+                      onChange={(e) => setModelPrice(model, { ...price, perCall: Math.max(0, Number(e.target.value)) })}
+                    />
+                    <span className="text-gray-400">{t('usage.perCall')}</span>
+                  </label>
+                ) : (
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      className={numberInput}
+                      value={price.perSecond ?? 0}
+                      onChange={(e) => setModelPrice(model, { ...price, perSecond: Math.max(0, Number(e.target.value)) })}
+                    />
+                    <span className="text-gray-400">{t('usage.perSecond')}</span>
+                  </label>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {events.length > 0 && (
+          <button
+            onClick={() => window.confirm(t('usage.confirmClear')) && clearUsage()}
+            className="w-full py-2 text-xs font-bold text-gray-400 hover:text-red-500"
+          >
+            {t('usage.clear')}
+          </button>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,114 @@
+
+import React, { useState, useEffect } from 'react';
+import { LogoData } from '../types';
+import { vectorizeLogo, VectorizeResult } from '../services/vectorizer';
+import { downloadBlob, slugify } from '../services/imageUtils';
+import { formatNumber } from '../services/i18n';
+import { useTranslation } from '../hooks/useLocale';
+
+interface VectorizePanelProps {
+  logo: LogoData;
+  name: string;
+}
+
+const VectorizePanel: React.FC<VectorizePanelProps> = ({ logo, name }) => {
+  const { t, locale } = useTranslation();
+  const [paletteSize, setPaletteSize] = useState(4);
+  const [smoothing, setSmoothing] = useState(3);
+  const [result, setResult] = useState<VectorizeResult | null>(null);
+  const [isTracing, setIsTracing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Re-trace whenever the logo or a control changes; the short delay keeps
+  // slider drags from queueing a trace per pixel of movement.
+  useEffect(() => {
+    let cancelled = false;
+    setIsTracing(true);
+    setError(null);
+    const timer = setTimeout(async () => {
+      try {
+        const traced = await vectorizeLogo(logo.url, { paletteSize, smoothing });
+        if (!cancelled) setResult(traced);
+      } catch (err: any) {
+        if (!cancelled) setError(err?.message || t('vector.failed'));
+      } finally {
+        if (!cancelled) setIsTracing(false);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [logo.url, paletteSize, smoothing]);
+
+  const svgUrl = result ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(result.svg)}` : null;
+
+  return (
+    <div className="bg-white rounded-3xl border border-gray-100 shadow-sm p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <i className="fas fa-bezier-curve text-indigo-600"></i>
+            {t('vector.title')}
+          </h3>
+          <p className="text-sm text-gray-600">{t('vector.subtitle')}</p>
+        </div>
+        <div className="grid grid-cols-2 gap-4 md:w-96">
+          <label className="block">
+            <span className="text-xs font-bold text-gray-700 uppercase tracking-wider">{t('vector.colours', { value: paletteSize })}</span>
+            <input type="range" min={2} max={12} value={paletteSize} onChange={(e) => setPaletteSize(Number(e.target.value))} className="w-full accent-indigo-600" />
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-gray-700 uppercase tracking-wider">{t('vector.smoothing', { value: smoothing })}</span>
+            <input type="range" min={0} max={10} value={smoothing} onChange={(e) => setSmoothing(Number(e.target.value))} className="w-full accent-indigo-600" />
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <figure className="space-y-2">
+          <div className="aspect-square bg-gray-50 rounded-2xl border border-gray-100 overflow-hidden">
+            <img src={logo.url} alt={t('vector.rasterAlt')} className="w-full h-full object-contain" />
+          </div>
+          <figcaption className="text-xs font-bold text-gray-400 uppercase tracking-widest text-center">{t('vector.raster')}</figcaption>
+        </figure>
+        <figure className="space-y-2">
+          <div className="aspect-square bg-gray-50 rounded-2xl border border-gray-100 overflow-hidden relative">
+            {svgUrl && <img src={svgUrl} alt={t('vector.vectorAlt')} className="w-full h-full object-contain" />}
+            {isTracing && (
+              <div className="absolute inset-0 bg-white/70 flex items-center justify-center">
+                <div className="w-10 h-10 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin"></div>
+              </div>
+            )}
+            {error && (
+              <div className="absolute inset-0 flex items-center justify-center p-4 text-center text-sm text-red-700 bg-red-50">{error}</div>
+            )}
+          </div>
+          <figcaption className="text-xs font-bold text-gray-400 uppercase tracking-widest text-center">
+            SVG{result ? ` · ${t('vector.shapes', { count: result.pathCount })} · ${formatNumber(result.svg.length / 1024, locale, { maximumFractionDigits: 1 })} KB` : ''}
+          </figcaption>
+        </figure>
+      </div>
+
+      {result && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            {result.palette.map(color => (
+              <span key={color} title={color} className="w-7 h-7 rounded-lg border border-gray-200" style={{ backgroundColor: color }}></span>
+            ))}
+          </div>
+          <button
+            onClick={() => downloadBlob(new Blob([result.svg], { type: 'image/svg+xml' }), `${slugify(name)}.svg`)}
+            disabled={isTracing}
+            className="px-6 py-2.5 bg-gray-900 text-white rounded-xl font-bold hover:bg-black transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <i className="fas fa-download"></i>
+            {t('vector.download')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VectorizePanel;
@@ -0,0 +1,59 @@
+
+import React from 'react';
+import { LogoData } from '../types';
+import { useTranslation } from '../hooks/useLocale';
+
+interface VersionHistoryProps {
+  versions: LogoData[];
+  selected: LogoData;
+  onSelect: (logo: LogoData) => void;
+}
+
+// Walks parent links up to the first version that has no known parent.
+const findRoot = (logo: LogoData, byId: Map<string, LogoData>): LogoData => {
+  let current = logo;
+  while (current.parentId && byId.has(current.parentId)) {
+    current = byId.get(current.parentId)!;
+  }
+  return current;
+};
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ versions, selected, onSelect }) => {
+  const { t } = useTranslation();
+  const byId = new Map<string, LogoData>(versions.map(v => [v.id, v]));
+  const root = findRoot(selected, byId);
+
+  // Depth-first listing of the tree the selected version belongs to.
+  const rows: { logo: LogoData; depth: number }[] = [];
+  const visit = (logo: LogoData, depth: number) => {
+    rows.push({ logo, depth });
+    versions.filter(v => v.parentId === logo.id).forEach(child => visit(child, depth + 1));
+  };
+  visit(root, 0);
+
+  if (rows.length < 2) return null;
+
+  return (
+    <div className="w-full">
+      <h4 className="text-sm font-bold text-gray-400 uppercase tracking-widest mb-3">{t('versions.title')}</h4>
+      <ul className="space-y-1">
+        {rows.map(({ logo, depth }, index) => (
+          <li key={logo.id} style={{ paddingInlineStart: depth * 20 }}>
+            <button
+              onClick={() => onSelect(logo)}
+              className={`w-full flex items-center gap-3 p-2 rounded-xl text-start transition-colors ${logo.id === selected.id ? 'bg-indigo-50 ring-1 ring-indigo-200' : 'hover:bg-gray-50'}`}
+            >
+              {depth > 0 && <i className="fas fa-turn-up fa-rotate-90 text-gray-300 text-xs"></i>}
+              <img src={logo.url} alt={t('versions.alt', { number: index + 1 })} className="w-10 h-10 rounded-lg border object-contain bg-white" />
+              <span className="text-sm text-gray-700 line-clamp-1">
+                {logo.editInstruction || t('versions.original')}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default VersionHistory;
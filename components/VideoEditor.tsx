@@ -0,0 +1,259 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { AnimationData } from '../types';
+import { ClipFormat, FORMAT_DEFAULTS, loadVideo, decodeClip, encodeClip, captureFrame } from '../services/videoEditor';
+import { downloadBlob, slugify } from '../services/imageUtils';
+import { TranslationKey, formatNumber } from '../services/i18n';
+import { useTranslation } from '../hooks/useLocale';
+
+interface VideoEditorProps {
+  animation: AnimationData;
+  name: string;
+}
+
+const WIDTH_OPTIONS = [160, 240, 320, 480, 720, 1280];
+const FPS_OPTIONS = [8, 10, 12, 15, 24];
+
+const selectClass = "mt-1 block w-full rounded-lg border-gray-200 bg-white p-1.5 text-sm";
+const labelClass = "text-xs font-bold text-gray-700 uppercase tracking-wider";
+
+const formatLabels: Record<ClipFormat, TranslationKey> = {
+  gif: 'editor.format.gif',
+  webm: 'editor.format.webm',
+  apng: 'editor.format.apng'
+};
+
+const formatSeconds = (value: number) => `${value.toFixed(1)}s`;
+
+const VideoEditor: React.FC<VideoEditorProps> = ({ animation, name }) => {
+  const { t, locale } = useTranslation();
+  const [duration, setDuration] = useState(0);
+  const [start, setStart] = useState(0);
+  const [end, setEnd] = useState(0);
+  const [posterTime, setPosterTime] = useState(0);
+  const [posterUrl, setPosterUrl] = useState<string | null>(null);
+  const [seamless, setSeamless] = useState(false);
+  const [loopFade, setLoopFade] = useState(0.5);
+  const [format, setFormat] = useState<ClipFormat>('gif');
+  const [fps, setFps] = useState(FORMAT_DEFAULTS.gif.fps);
+  const [width, setWidth] = useState(FORMAT_DEFAULTS.gif.width);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [result, setResult] = useState<{ blob: Blob; url: string; format: ClipFormat } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const previewRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setResult(null);
+    loadVideo(animation.videoUrl).then(video => {
+      if (cancelled) return;
+      setDuration(video.duration);
+      setStart(0);
+      setEnd(video.duration);
+      setPosterTime(0);
+    }).catch((err: any) => !cancelled && setError(err?.message || t('editor.loadFailed')));
+    return () => {
+      cancelled = true;
+    };
+  }, [animation.videoUrl]);
+
+  // Poster thumbnail follows the slider, debounced like the vectorizer.
+  useEffect(() => {
+    if (!duration) return;
+    let cancelled = false;
+    let url: string | null = null;
+    const timer = setTimeout(async () => {
+      try {
+        const blob = await captureFrame(animation.videoUrl, posterTime, 480);
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setPosterUrl(url);
+      } catch {
+        // The preview is optional; exporting reports its own errors.
+      }
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [animation.videoUrl, posterTime, duration]);
+
+  useEffect(() => () => {
+    if (result) URL.revokeObjectURL(result.url);
+  }, [result]);
+
+  const chooseFormat = (value: ClipFormat) => {
+    setFormat(value);
+    setFps(FORMAT_DEFAULTS[value].fps);
+    setWidth(FORMAT_DEFAULTS[value].width);
+  };
+
+  // Keeps the preview player inside the trim range.
+  const handleTimeUpdate = () => {
+    const video = previewRef.current;
+    if (video && (video.currentTime < start || video.currentTime > end)) video.currentTime = start;
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    setResult(null);
+    try {
+      const clip = await decodeClip(
+        animation.videoUrl,
+        { start, end, fps, width, loopFade: seamless ? loopFade : 0 },
+        (done, total) => setProgress(t('editor.decoding', { done, total }))
+      );
+      setProgress(format === 'webm' ? t('editor.recording') : t('editor.encoding', { format: t(formatLabels[format]) }));
+      // Let the progress message paint before the encoder blocks the thread.
+      await new Promise(resolve => setTimeout(resolve, 30));
+      const blob = await encodeClip(clip, format);
+      setResult({ blob, url: URL.createObjectURL(blob), format });
+    } catch (err: any) {
+      setError(err?.message || t('editor.exportFailed'));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const downloadPoster = async () => {
+    try {
+      downloadBlob(await captureFrame(animation.videoUrl, posterTime), `${slugify(name)}-poster.png`);
+    } catch (err: any) {
+      setError(err?.message || t('editor.posterFailed'));
+    }
+  };
+
+  const busy = progress !== null;
+  const clipLength = Math.max(0, end - start - (seamless ? loopFade : 0));
+
+  return (
+    <div className="bg-white rounded-3xl border border-gray-100 shadow-sm p-6 space-y-6">
+      <div>
+        <h3 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+          <i className="fas fa-scissors text-indigo-600"></i>
+          {t('editor.title')}
+        </h3>
+        <p className="text-sm text-gray-600">{t('editor.subtitle')}</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div className="bg-black rounded-2xl overflow-hidden aspect-video">
+            <video
+              ref={previewRef}
+              src={animation.videoUrl}
+              poster={posterUrl || undefined}
+              onTimeUpdate={handleTimeUpdate}
+              className="w-full h-full object-contain"
+              controls
+              muted
+              loop
+            ></video>
+          </div>
+          <label className="block">
+            <span className={labelClass}>{t('editor.start', { time: formatSeconds(start) })}</span>
+            <input type="range" min={0} max={duration} step={0.1} value={start} disabled={!duration}
+              onChange={(e) => setStart(Math.min(Number(e.target.value), end - 0.5))} className="w-full accent-indigo-600" />
+          </label>
+          <label className="block">
+            <span className={labelClass}>{t('editor.end', { time: formatSeconds(end) })}</span>
+            <input type="range" min={0} max={duration} step={0.1} value={end} disabled={!duration}
+              onChange={(e) => setEnd(Math.max(Number(e.target.value), start + 0.5))} className="w-full accent-indigo-600" />
+          </label>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex gap-4 items-start">
+            <div className="w-28 aspect-video bg-gray-100 rounded-lg overflow-hidden border border-gray-200 shrink-0">
+              {posterUrl && <img src={posterUrl} alt={t('editor.posterAlt')} className="w-full h-full object-contain" />}
+            </div>
+            <div className="flex-1">
+              <label className="block">
+                <span className={labelClass}>{t('editor.poster', { time: formatSeconds(posterTime) })}</span>
+                <input type="range" min={0} max={duration} step={0.1} value={posterTime} disabled={!duration}
+                  onChange={(e) => setPosterTime(Number(e.target.value))} className="w-full accent-indigo-600" />
+              </label>
+              <button onClick={downloadPoster} disabled={!duration} className="text-xs font-bold text-indigo-600 hover:underline disabled:opacity-50">
+                <i className="fas fa-image me-1"></i> {t('editor.downloadPoster')}
+              </button>
+            </div>
+          </div>
+
+          <div className="p-3 bg-gray-50 rounded-xl border border-gray-100 space-y-2">
+            <label className="flex items-center gap-2 text-sm font-bold text-gray-700">
+              <input type="checkbox" checked={seamless} onChange={(e) => setSeamless(e.target.checked)} className="rounded text-indigo-600" />
+              {t('editor.seamless')}
+            </label>
+            {seamless && (
+              <label className="block">
+                <span className={labelClass}>{t('editor.crossFade', { time: formatSeconds(loopFade) })}</span>
+                <input type="range" min={0.2} max={Math.max(0.2, Math.min(2, (end - start) / 2))} step={0.1} value={loopFade}
+                  onChange={(e) => setLoopFade(Number(e.target.value))} className="w-full accent-indigo-600" />
+              </label>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(FORMAT_DEFAULTS) as ClipFormat[]).map(value => (
+              <button
+                key={value}
+                onClick={() => chooseFormat(value)}
+                className={`py-2 rounded-xl border text-xs font-bold transition-colors ${format === value ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-gray-200 text-gray-600 hover:border-indigo-300'}`}
+              >
+                {t(formatLabels[value])}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block">
+              <span className={labelClass}>{t('editor.width')}</span>
+              <select value={width} onChange={(e) => setWidth(Number(e.target.value))} className={selectClass}>
+                {WIDTH_OPTIONS.map(w => <option key={w} value={w}>{w}px</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className={labelClass}>{t('editor.frameRate')}</span>
+              <select value={fps} onChange={(e) => setFps(Number(e.target.value))} className={selectClass}>
+                {FPS_OPTIONS.map(f => <option key={f} value={f}>{f} fps</option>)}
+              </select>
+            </label>
+          </div>
+
+          <button
+            onClick={handleExport}
+            disabled={busy || !duration}
+            className="w-full py-3 bg-gray-900 text-white rounded-xl font-bold hover:bg-black transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {busy ? <i className="fas fa-circle-notch fa-spin"></i> : <i className="fas fa-wand-magic-sparkles"></i>}
+            {busy ? progress : t('editor.render', { time: formatSeconds(clipLength), format: t(formatLabels[format]) })}
+          </button>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      </div>
+
+      {result && (
+        <div className="flex flex-col sm:flex-row items-center gap-4 p-4 bg-gray-50 rounded-2xl border border-gray-100">
+          <div className="w-40 bg-white rounded-lg border border-gray-200 overflow-hidden shrink-0">
+            {result.format === 'webm'
+              ? <video src={result.url} className="w-full" autoPlay muted loop playsInline></video>
+              : <img src={result.url} alt={t('editor.resultAlt')} className="w-full" />}
+          </div>
+          <p className="flex-1 text-sm text-gray-600">
+            {t(formatLabels[result.format])} · {formatNumber(result.blob.size / 1024, locale, { maximumFractionDigits: 0 })} KB
+          </p>
+          <button
+            onClick={() => downloadBlob(result.blob, `${slugify(name)}-animation.${FORMAT_DEFAULTS[result.format].extension}`)}
+            className="px-6 py-2.5 gradient-bg text-white rounded-xl font-bold flex items-center gap-2"
+          >
+            <i className="fas fa-download"></i>
+            {t('editor.download')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VideoEditor;
@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from 'react';
+import { getCredentialSettings, subscribeToCredentials } from '../services/credentials';
+
+export const useCredentials = () => useSyncExternalStore(subscribeToCredentials, getCredentialSettings);
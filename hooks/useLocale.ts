@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { getLocale, subscribeToLocale, translate, TranslateFn } from '../services/i18n';
+
+export const useLocale = () => useSyncExternalStore(subscribeToLocale, getLocale);
+
+// `t` bound to the current language; the component re-renders when it changes.
+export const useTranslation = () => {
+  const locale = useLocale();
+  const t: TranslateFn = (key, params) => translate(locale, key, params);
+  return { locale, t };
+};
@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from 'react';
+import { getPromptLibrary, subscribeToPromptLibrary } from '../services/promptLibrary';
+
+export const usePromptLibrary = () => useSyncExternalStore(subscribeToPromptLibrary, getPromptLibrary);
@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from 'react';
+import { getRoute, subscribeToRoute } from '../services/router';
+
+export const useRoute = () => useSyncExternalStore(subscribeToRoute, getRoute);
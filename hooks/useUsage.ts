@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from 'react';
+import { getUsage, subscribeToUsage } from '../services/usageMeter';
+
+export const useUsage = () => useSyncExternalStore(subscribeToUsage, getUsage);
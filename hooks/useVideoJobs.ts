@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from 'react';
+import { getVideoJobs, subscribeToVideoJobs } from '../services/jobManager';
+
+export const useVideoJobs = () => useSyncExternalStore(subscribeToVideoJobs, getVideoJobs);
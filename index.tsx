@@ -2,6 +2,11 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { selectProvider } from './services/providers';
+import { resumeVideoJobs } from './services/jobManager';
+
+selectProvider();
+resumeVideoJobs();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -0,0 +1,574 @@
+import { Messages } from "./en";
+
+// Arabic uses all six plural categories: zero, one, two, few (3–10),
+// many (11–99) and other (100 and up).
+export const ar: Messages = {
+  // Design: variation grid
+  'candidates.title': "التنويعات",
+  'candidates.readyOf': "{ready} من {total} جاهزة",
+  'candidates.ready_zero': "لا توجد تنويعات جاهزة",
+  'candidates.ready_one': "تنويعة واحدة جاهزة",
+  'candidates.ready_two': "تنويعتان جاهزتان",
+  'candidates.ready_few': "{count} تنويعات جاهزة",
+  'candidates.ready_many': "{count} تنويعة جاهزة",
+  'candidates.ready_other': "{count} تنويعة جاهزة",
+  'candidates.variation': "التنويعة {number}",
+  'candidates.use': "استخدام هذه التنويعة",
+  'candidates.alt': "تنويعة الشعار {number}",
+  'candidates.unfavorite': "إزالة من المفضلة",
+  'candidates.favorite': "الاحتفاظ في المفضلة",
+  'candidates.selected': "محددة",
+  // Shared
+  'common.cancel': "إلغاء",
+  'common.close': "إغلاق",
+  'common.dismiss': "تجاهل",
+  'common.optional': "(اختياري)",
+  'common.resetToDefault': "استعادة الافتراضي",
+  'common.unlock': "إلغاء القفل",
+  'common.save': "حفظ",
+  'common.delete': "حذف",
+  // Camera capture
+  'camera.unsupported': "لا يدعم هذا المتصفح التقاط الصور بالكاميرا.",
+  'camera.denied': "تم رفض الوصول إلى الكاميرا أو لا تتوفر كاميرا.",
+  'camera.takePhoto': "التقاط صورة",
+  // Image upload
+  'dropzone.unusable': "تعذر استخدام الصورة.",
+  'dropzone.remove': "إزالة الصورة",
+  'dropzone.preparing': "جارٍ تجهيز الصورة...",
+  'dropzone.drop': "أفلت صورة هنا.",
+  'dropzone.browse': "تصفح الملفات",
+  'dropzone.camera': "التقاط صورة",
+  'dropzone.cameraPhoto': "صورة من الكاميرا",
+  // Design: version history
+  'versions.title': "سجل الإصدارات",
+  'versions.alt': "الإصدار {number}",
+  'versions.original': "الأصلي",
+  // Brand kit
+  'brandKit.failed': "تعذر إنشاء حزمة الهوية.",
+  'brandKit.building': "جارٍ تجميع حزمة الهوية...",
+  'brandKit.download': "تنزيل حزمة الهوية (.zip)",
+  // Animation jobs
+  'jobs.title': "مهام الرسوم المتحركة",
+  'jobs.status.queued': "في الانتظار",
+  'jobs.status.starting': "جارٍ الإرسال",
+  'jobs.status.generating': "جارٍ الإنشاء",
+  'jobs.status.downloading': "جارٍ التنزيل",
+  'jobs.status.succeeded': "جاهزة",
+  'jobs.status.failed': "فشلت",
+  'jobs.status.cancelled': "أُلغيت",
+  'jobs.status.timedOut': "انتهت المهلة",
+  'jobs.retry': "إعادة المحاولة",
+  'jobs.view': "عرض",
+  'jobs.checks_zero': "لا فحوصات للحالة",
+  'jobs.checks_one': "فحص حالة واحد",
+  'jobs.checks_two': "فحصان للحالة",
+  'jobs.checks_few': "{count} فحوصات للحالة",
+  'jobs.checks_many': "{count} فحصًا للحالة",
+  'jobs.checks_other': "{count} فحص للحالة",
+  'jobs.timesOut': "تنتهي المهلة بعد {minutes} دقيقة",
+  // Render queue
+  'queue.title': "قائمة العرض",
+  'queue.parallel': "بالتوازي",
+  'queue.empty': "لا شيء في الانتظار. أرسل الرسوم المتحركة من خطوة التحريك.",
+  'queue.thisProject': "هذا المشروع",
+  'queue.otherProjects': "مشاريع أخرى",
+  'queue.results': "النتائج",
+  // Error banner; titles and hints per GenerationErrorKind
+  'errors.auth.title': "مشكلة في مفتاح API",
+  'errors.auth.hint': "اختر مفتاحًا من مشروع Google Cloud مدفوع مفعّلة فيه واجهة Gemini API.",
+  'errors.quota.title': "تم بلوغ حد الاستخدام",
+  'errors.quota.hint': "انتظر دقيقة قبل المحاولة مجددًا، أو راجع حدود مفتاحك.",
+  'errors.safety.title': "حُظر بواسطة فلاتر الأمان",
+  'errors.safety.hint': "أعد صياغة الموجز أو الموجّه وتجنّب الأشخاص الحقيقيين والعلامات التجارية والموضوعات الحساسة.",
+  'errors.noImage.title': "لم تُرجَع أي صورة",
+  'errors.noImage.hint': "أجاب النموذج دون صورة. إعادة المحاولة تنجح عادةً.",
+  'errors.network.title': "مشكلة في الاتصال",
+  'errors.network.hint': "تحقق من اتصالك ثم حاول مجددًا.",
+  'errors.download.title': "فشل التنزيل",
+  'errors.download.hint': "تم إنشاء النتيجة لكن تعذر جلبها. حاول مجددًا.",
+  'errors.timeout.title': "استغرق وقتًا طويلًا",
+  'errors.timeout.hint': "قد يستغرق إنشاء الفيديو عدة دقائق تحت الضغط. إعادة المحاولة تضاعف المهلة.",
+  'errors.cancelled.title': "أُلغي",
+  'errors.cancelled.hint': "توقف الطلب قبل اكتماله.",
+  'errors.unknown.title': "حدث خطأ ما",
+  'errors.unknown.hint': "حاول مجددًا بعد قليل.",
+  'errors.reselectKey': "إعادة اختيار مفتاح API",
+  'errors.rateLimits': "عرض حدود المعدل",
+  'errors.editBrief': "تعديل الموجز",
+  'errors.tryAgain': "حاول مجددًا",
+  // Mockups; scene names follow MockupId, file names stay in English
+  'mockups.scene.businessCard': "بطاقة عمل",
+  'mockups.scene.websiteHeader': "ترويسة موقع",
+  'mockups.scene.tshirt': "قميص",
+  'mockups.scene.appIcon': "أيقونة تطبيق",
+  'mockups.scene.darkBackground': "على خلفية داكنة",
+  'mockups.scene.lightBackground': "على خلفية فاتحة",
+  'mockups.alt': "نموذج عرض: {scene}",
+  'mockups.prepareFailed': "تعذر تجهيز الشعار.",
+  'mockups.renderFailed': "تعذر عرض النموذج.",
+  'mockups.exportPng': "تصدير PNG",
+  'mockups.exportAll': "تصدير الكل",
+  // Palette
+  'palette.title': "لوحة الألوان",
+  'palette.analysing': "جارٍ تحليل الألوان...",
+  'palette.locked': "مقفلة",
+  'palette.lock': "قفل لوحة الألوان",
+  'palette.lockedLabel': "مقفلة:",
+  'palette.drift_zero': "لا ألوان خارج اللوحة",
+  'palette.drift_one': "لون واحد خارج اللوحة",
+  'palette.drift_two': "لونان خارج اللوحة",
+  'palette.drift_few': "{count} ألوان خارج اللوحة",
+  'palette.drift_many': "{count} لونًا خارج اللوحة",
+  'palette.drift_other': "{count} لون خارج اللوحة",
+  'palette.onWhite': "التباين مع الأبيض",
+  'palette.onBlack': "التباين مع الأسود",
+  'palette.rating.aaa': "AAA",
+  'palette.rating.aa': "AA",
+  'palette.rating.aaLarge': "AA للنص الكبير",
+  'palette.rating.fail': "غير مطابق",
+  // Project library
+  'projects.title': "مشاريعك",
+  'projects.subtitle': "يُحفظ كل شعار ورسم متحرك تنشئه في هذا المتصفح.",
+  'projects.import': "استيراد",
+  'projects.new': "مشروع جديد",
+  'projects.loading': "جارٍ تحميل المشاريع...",
+  'projects.empty': "لا توجد مشاريع محفوظة بعد. أنشئ شعارًا لبدء مشروع.",
+  'projects.loadFailed': "تعذر تحميل مشاريعك.",
+  'projects.actionFailed': "تعذر إكمال هذا الإجراء.",
+  'projects.step.draft': "مسودة",
+  'projects.step.design': "قيد التصميم",
+  'projects.step.animate': "قيد التحريك",
+  'projects.step.view': "متحرك",
+  'projects.logos_zero': "لا شعارات",
+  'projects.logos_one': "شعار واحد",
+  'projects.logos_two': "شعاران",
+  'projects.logos_few': "{count} شعارات",
+  'projects.logos_many': "{count} شعارًا",
+  'projects.logos_other': "{count} شعار",
+  'projects.animations_zero': "لا رسوم متحركة",
+  'projects.animations_one': "رسم متحرك واحد",
+  'projects.animations_two': "رسمان متحركان",
+  'projects.animations_few': "{count} رسوم متحركة",
+  'projects.animations_many': "{count} رسمًا متحركًا",
+  'projects.animations_other': "{count} رسم متحرك",
+  'projects.updated': "آخر تحديث {date}",
+  'projects.open': "فتح",
+  'projects.rename': "إعادة تسمية",
+  'projects.export': "تصدير ملف المشروع",
+  'projects.duplicate': "تكرار",
+  'projects.confirmDelete': "حذف «{name}»؟ لا يمكن التراجع عن ذلك.",
+  'projects.deleteOpen': "أغلق هذا المشروع قبل حذفه",
+  // Prompt library
+  'prompts.title': "مكتبة الموجّهات",
+  'prompts.counts': "{recent} حديثة · {saved} محفوظة",
+  'prompts.tab.history': "السجل",
+  'prompts.tab.templates': "القوالب",
+  'prompts.clearHistory': "مسح السجل",
+  'prompts.use': "استخدام",
+  'prompts.removeHistory': "إزالة من السجل",
+  'prompts.historyEmpty': "تظهر هنا الموجّهات التي ترسلها مع صورة مصغرة لنتيجتها.",
+  'prompts.historyNote': "يعرض تعليماتك كما كتبتها. لا يشمل صياغة النمط ولوحة الألوان المضافة عند الإرسال.",
+  'prompts.historyNote.logo': "يعرض كل موجز بعد تجميعه بالإنجليزية؛ يعيد زر الاستخدام الموجز كما كتبته. لا يشمل صياغة النمط ولوحة الألوان المضافة عند الإرسال.",
+  'prompts.deleteTemplate': "حذف القالب",
+  'prompts.templateName': "اسم القالب",
+  'prompts.saveTemplate': "حفظ القالب",
+  'prompts.variables': "متغيرات مأخوذة من الموجز: {variables}",
+  // Error messages raised by services
+  'errors.message.auth': "قد لا يملك مفتاح API صلاحية الوصول أو ربما أُعيد تعيينه. يُرجى اختياره مجددًا.",
+  'errors.message.quota': "لقد بلغت حد استخدام لهذا المفتاح.",
+  'errors.message.safety': "حُظر الطلب بواسطة فلاتر الأمان في النموذج.",
+  'errors.message.safetyReason': "حُظر الطلب بواسطة فلاتر الأمان في النموذج ({reason}).",
+  'errors.message.network': "تعذر الوصول إلى خدمة الإنشاء.",
+  'errors.message.videoCancelled': "أُلغي إنشاء الفيديو.",
+  'errors.message.videoTimeout': "انتهت مهلة إنشاء الفيديو.",
+  'errors.message.noImage': "لم يُرجع النموذج أي بيانات صورة.",
+  'errors.message.noDownloadLink': "تعذر الحصول على رابط تنزيل الفيديو.",
+  'errors.message.download': "تعذر تنزيل الفيديو المكتمل.",
+  'errors.message.downloadStatus': "تعذر تنزيل الفيديو المكتمل (HTTP {status}).",
+  'errors.message.translate': "تعذرت ترجمة الموجز.",
+  'errors.message.noStudioKey': "لم يتم اختيار أي مفتاح API في AI Studio.",
+  'errors.message.noUserKey': "لم يتم إدخال أي مفتاح API. أضف مفتاحًا في خطوة الإعداد.",
+  'errors.message.noProxy': "لم تتم تهيئة أي نقطة نهاية للوكيل.",
+  'errors.message.proxyUnreachable': "تعذر الوصول إلى نقطة نهاية الوكيل.",
+  'errors.message.apiUnreachable': "تعذر الوصول إلى Gemini API.",
+  'errors.message.proxyRejected': "رفض الوكيل الطلب؛ تحقق من المفتاح المهيأ على الخادم.",
+  'errors.message.keyRejected': "تم رفض مفتاح API هذا.",
+  'errors.message.jobLogoMissing': "لم يعد شعار هذه المهمة موجودًا في المشروع.",
+  'errors.message.jobInterrupted': "انقطع الطلب قبل أن يقبله المزوّد.",
+  'errors.message.jobNoVideo': "لم يصل أي فيديو بعد {minutes} دقيقة.",
+  'errors.message.jobSaveFailed': "تعذّر حفظ الفيديو: {reason}",
+  'errors.message.notProjectFile': "هذا ليس ملف مشروع WisdomMotion.",
+  'errors.message.noManifest': "لا يحتوي ملف المشروع على project.json.",
+  'errors.message.newerProject': "صُدّر هذا المشروع بإصدار أحدث من التطبيق.",
+  'errors.message.missingAsset': "ملف المشروع ينقصه {asset}.",
+  'errors.message.openLibrary': "تعذر فتح مكتبة المشاريع.",
+  'errors.message.transaction': "أُلغيت معاملة مكتبة المشاريع.",
+  'errors.message.projectNotFound': "المشروع غير موجود.",
+  'errors.message.unsupportedImage': "«{name}» ليست صورة مدعومة. استخدم PNG أو JPEG أو WebP أو GIF.",
+  'errors.message.imageTooLarge': "حجم «{name}» هو {size} ميغابايت؛ والحد الأقصى {limit} ميغابايت.",
+  'errors.message.unreadableImage': "تعذرت قراءة «{name}» كصورة.",
+  'errors.message.imageTooSmall': "أبعاد «{name}» هي {width}×{height} بكسل؛ استخدم صورة لا يقل كل جانب منها عن {min} بكسل.",
+  'errors.message.videoDecode': "تعذر فك ترميز الفيديو في هذا المتصفح.",
+  'errors.message.noWebm': "لا يستطيع هذا المتصفح تسجيل فيديو WebM.",
+  'errors.message.webmFailed': "فشل تسجيل WebM.",
+  'errors.message.imageLoad': "تعذر تحميل الصورة.",
+  'errors.message.imageEncode': "تعذر ترميز الصورة.",
+  'errors.message.unknown': "خطأ غير معروف.",
+  'errors.message.validationFailed': "فشل التحقق (HTTP {status}).",
+  'errors.message.noCanvas': "سياق Canvas ثنائي الأبعاد غير متاح.",
+  'errors.message.noFrames': "تحتاج الحركة إلى إطار واحد على الأقل.",
+  'errors.message.notPng': "ليس ملف PNG.",
+  'errors.message.pngNoHeader': "إطار PNG يفتقد ترويسته.",
+  'errors.message.noInflate': "لا يستطيع هذا المتصفح قراءة ملفات ZIP المضغوطة.",
+  'errors.message.notZip': "ليس أرشيف ZIP.",
+  'errors.message.zipDamaged': "دليل ملف ZIP تالف.",
+  'errors.message.zipMethod': "يستخدم «{name}» طريقة ضغط ZIP غير مدعومة.",
+  'errors.message.noMediaRecorder': "MediaRecorder غير متاح، لذا لا يستطيع المزوّد التجريبي إنشاء مقطع.",
+  'errors.message.mockRecording': "فشل تسجيل المقطع التجريبي.",
+  'errors.message.mockOperation': "عملية تجريبية غير معروفة: {name}",
+  // Usage dashboard
+  'usage.title': "الاستخدام",
+  'usage.scope.project': "هذا المشروع",
+  'usage.scope.all': "كل المشاريع",
+  'usage.today': "اليوم",
+  'usage.total': "الإجمالي",
+  'usage.calls': "الاستدعاءات",
+  'usage.failures': "الإخفاقات",
+  'usage.images_zero': "لا صور",
+  'usage.images_one': "صورة واحدة",
+  'usage.images_two': "صورتان",
+  'usage.images_few': "{count} صور",
+  'usage.images_many': "{count} صورة",
+  'usage.images_other': "{count} صورة",
+  'usage.videos_zero': "لا فيديوهات",
+  'usage.videos_one': "فيديو واحد",
+  'usage.videos_two': "فيديوهان",
+  'usage.videos_few': "{count} فيديوهات",
+  'usage.videos_many': "{count} فيديو",
+  'usage.videos_other': "{count} فيديو",
+  'usage.succeeded_zero': "لا طلبات ناجحة",
+  'usage.succeeded_one': "طلب واحد ناجح",
+  'usage.succeeded_two': "طلبان ناجحان",
+  'usage.succeeded_few': "{count} طلبات ناجحة",
+  'usage.succeeded_many': "{count} طلبًا ناجحًا",
+  'usage.succeeded_other': "{count} طلب ناجح",
+  'usage.notBilled': "غير محتسب",
+  'usage.estimateNote': "التكاليف تقديرات وفق جدول الأسعار أدناه، وليست فاتورة Google Cloud الخاصة بك.",
+  'usage.lastDays_zero': "آخر {count} يوم",
+  'usage.lastDays_one': "آخر يوم",
+  'usage.lastDays_two': "آخر يومين",
+  'usage.lastDays_few': "آخر {count} أيام",
+  'usage.lastDays_many': "آخر {count} يومًا",
+  'usage.lastDays_other': "آخر {count} يوم",
+  'usage.byProject': "حسب المشروع",
+  'usage.deletedProject': "مشروع محذوف",
+  'usage.noProject': "بلا مشروع",
+  'usage.callCount_zero': "لا استدعاءات",
+  'usage.callCount_one': "استدعاء واحد",
+  'usage.callCount_two': "استدعاءان",
+  'usage.callCount_few': "{count} استدعاءات",
+  'usage.callCount_many': "{count} استدعاءً",
+  'usage.callCount_other': "{count} استدعاء",
+  'usage.failedCount_zero': "لا إخفاقات",
+  'usage.failedCount_one': "إخفاق واحد",
+  'usage.failedCount_two': "إخفاقان",
+  'usage.failedCount_few': "{count} إخفاقات",
+  'usage.failedCount_many': "{count} إخفاقًا",
+  'usage.failedCount_other': "{count} إخفاق",
+  'usage.recentCalls': "أحدث الاستدعاءات",
+  'usage.call.image': "صورة",
+  'usage.call.refine': "تحسين",
+  'usage.call.video': "فيديو",
+  'usage.call.translate': "ترجمة الموجز",
+  'usage.budget': "حدود الميزانية",
+  'usage.dailyLimit': "الحد اليومي ($)",
+  'usage.projectLimit': "الحد لكل مشروع ($)",
+  'usage.noLimit': "لا يوجد",
+  'usage.whenExceeded': "عند التجاوز",
+  'usage.action.confirm': "السؤال أولًا",
+  'usage.action.block': "المنع",
+  'usage.prices': "جدول الأسعار (USD)",
+  'usage.resetPrices': "إعادة التعيين",
+  'usage.perImage': "لكل صورة",
+  'usage.perSecond': "لكل ثانية فيديو",
+  'usage.perCall': "لكل استدعاء",
+  'usage.confirmClear': "مسح كل الاستخدام المسجل؟ ستبدأ حدود الميزانية العدّ من الصفر.",
+  'usage.clear': "مسح سجل الاستخدام",
+  // Vector version
+  'vector.title': "النسخة المتجهية",
+  'vector.subtitle': "تُرسم في متصفحك كأشكال بألوان مسطحة، جاهزة للمطابع.",
+  'vector.colours': "الألوان: {value}",
+  'vector.smoothing': "التنعيم: {value}",
+  'vector.raster': "نقطية",
+  'vector.rasterAlt': "الشعار النقطي",
+  'vector.vectorAlt': "الشعار المتجهي",
+  'vector.shapes_zero': "لا أشكال",
+  'vector.shapes_one': "شكل واحد",
+  'vector.shapes_two': "شكلان",
+  'vector.shapes_few': "{count} أشكال",
+  'vector.shapes_many': "{count} شكلًا",
+  'vector.shapes_other': "{count} شكل",
+  'vector.failed': "فشل التحويل إلى متجهات.",
+  'vector.download': "تنزيل SVG",
+  // Video editor
+  'editor.title': "التحرير والتصدير",
+  'editor.subtitle': "قصّ المقطع وكرّره وأعد ترميزه في متصفحك. لا يُرفع أي شيء.",
+  'editor.start': "البداية: {time}",
+  'editor.end': "النهاية: {time}",
+  'editor.poster': "إطار الغلاف: {time}",
+  'editor.posterAlt': "إطار الغلاف",
+  'editor.downloadPoster': "تنزيل الغلاف بصيغة PNG",
+  'editor.seamless': "تكرار سلس",
+  'editor.crossFade': "تلاشٍ متقاطع: {time}",
+  'editor.format.gif': "GIF متحرك",
+  'editor.format.webm': "فيديو WebM",
+  'editor.format.apng': "APNG (للبريد)",
+  'editor.width': "العرض",
+  'editor.frameRate': "معدل الإطارات",
+  'editor.render': "تصيير {time} بصيغة {format}",
+  'editor.decoding': "جارٍ فك ترميز الإطار {done} من {total}...",
+  'editor.recording': "جارٍ تسجيل WebM في الوقت الفعلي...",
+  'editor.encoding': "جارٍ ترميز {format}...",
+  'editor.resultAlt': "المقطع المُصيَّر",
+  'editor.download': "تنزيل",
+  'editor.loadFailed': "تعذر تحميل الفيديو.",
+  'editor.exportFailed': "فشل التصدير.",
+  'editor.posterFailed': "تعذر التقاط إطار الغلاف.",
+  // Legibility: colour-vision types, findings, colour names and generated alt text
+  'legibility.vision.protanopia': "عمى اللون الأحمر",
+  'legibility.vision.protanopia.description': "غياب المخاريط الحمراء (نحو 1% من الرجال)",
+  'legibility.vision.deuteranopia': "عمى اللون الأخضر",
+  'legibility.vision.deuteranopia.description': "غياب المخاريط الخضراء (نحو 1% من الرجال)",
+  'legibility.vision.tritanopia': "عمى اللون الأزرق",
+  'legibility.vision.tritanopia.description': "غياب المخاريط الزرقاء (نادر)",
+  'legibility.vision.achromatopsia': "عمى الألوان الكلي",
+  'legibility.vision.achromatopsia.description': "انعدام رؤية الألوان تمامًا",
+  'legibility.issue.noArtwork': "تعذر تمييز أي رسم عن الخلفية.",
+  'legibility.issue.lowContrast': "اللون الرئيسي {color} تباينه مع الخلفية {ratio} فقط؛ والحد الأدنى للرسومات {minimum}.",
+  'legibility.issue.fades': "يغطي {color} نسبة {share} من الشعار بتباين {ratio} وقد يذوب في الخلفية.",
+  'legibility.issue.washesOut': "تختفي التفاصيل الدقيقة عند {sizes}. الشعار المبسّط أنسب كأيقونة موقع أو تطبيق.",
+  'legibility.issue.visionContrast': "مع {vision} ينخفض تباين اللون الرئيسي إلى {ratio}.",
+  'legibility.issue.visionConfused': "مع {vision} يبدو {a} و{b} متشابهين؛ لا تعتمد عليهما للتمييز بين الأجزاء.",
+  'legibility.altText': "النص البديل",
+  'legibility.regenerate': "إعادة الإنشاء",
+  'legibility.altPlaceholder': "صِف الشعار لمستخدمي قارئات الشاشة",
+  'legibility.altCount': "{length}/{limit} حرفًا. يُضمَّن في حزم الهوية وملفات المشاريع وصفحات العرض.",
+  'legibility.analyseFailed': "تعذر تحليل الشعار.",
+  'legibility.checking': "جارٍ فحص الوضوح...",
+  'legibility.findings': "النتائج",
+  'legibility.allClear': "واضح في الأحجام الصغيرة ولأنواع رؤية الألوان التي تم فحصها.",
+  'legibility.smallSizes': "الأحجام الصغيرة",
+  'legibility.sizeAlt': "عرض بحجم {size} بكسل",
+  'legibility.colourVision': "رؤية الألوان",
+  'legibility.visionAlt': "الشعار كما يُرى مع {vision}",
+  'legibility.contrast': "التباين مع الخلفية",
+  'legibility.share': "{share} من الشعار",
+  'colors.white': "أبيض",
+  'colors.black': "أسود",
+  'colors.grey': "رمادي",
+  'colors.red': "أحمر",
+  'colors.orange': "برتقالي",
+  'colors.yellow': "أصفر",
+  'colors.green': "أخضر",
+  'colors.teal': "أزرق مخضر",
+  'colors.blue': "أزرق",
+  'colors.purple': "بنفسجي",
+  'colors.pink': "وردي",
+  'colors.dark': "{color} داكن",
+  'colors.light': "{color} فاتح",
+  'alt.named': "شعار {name}",
+  'alt.unnamed': "شعار",
+  'alt.described': "{subject}: {style}",
+  'alt.inColors': "بألوان {colors}",
+  'alt.style.flat': "رمز هندسي مسطح",
+  'alt.style.emblem': "شعار على هيئة شارة",
+  'alt.style.wordmark': "شعار نصي",
+  'alt.style.mascot': "شعار بشخصية تعبيرية",
+  // Setup: credentials
+  'credentials.mode.userKey': "مفتاح API الخاص بك",
+  'credentials.mode.proxy': "وكيل على الخادم",
+  'credentials.start': "ابدأ",
+  'credentials.aiStudioHint': "سيُطلب منك اختيار مفتاح من مشاريعك في AI Studio.",
+  'credentials.keySaved': "محفوظ في هذا المتصفح: المفتاح المنتهي بـ",
+  'credentials.clearKey': "مسح المفتاح",
+  'credentials.keyPlaceholder': "مفتاح Gemini API",
+  'credentials.keyVerified': "تم التحقق من المفتاح وحفظه.",
+  'credentials.verify': "تحقق واحفظ",
+  'credentials.keyHint': "يُحفظ المفتاح في التخزين المحلي لهذا المتصفح ويُرسل مباشرة إلى Google. في حالة النشر المشترك، استخدم وكيلًا على الخادم بدلًا من ذلك.",
+  'credentials.proxyVerified': "الوكيل متاح وقَبِل الطلب.",
+  'credentials.test': "اختبر واحفظ",
+  'credentials.proxyHint': "يمرّر الوكيل الطلبات إلى Gemini API ويضيف المفتاح على الخادم، فلا يصل إلى المتصفح أبدًا.",
+  // Design: brand brief
+  'brief.language': "لغة الموجز",
+  'brief.languageHint': "مكتوب بلغة أخرى؟ يُترجم إلى الإنجليزية قبل إرسال الموجّه؛ ويبقى الاسم والشعار اللفظي كما كُتبا.",
+  'brief.organization': "المؤسسة",
+  'brief.organizationPlaceholder': "مثال: More Wisdom",
+  'brief.industry': "القطاع",
+  'brief.industryPlaceholder': "مثال: مؤسسة تعليمية غير ربحية",
+  'brief.tagline': "الشعار اللفظي",
+  'brief.taglinePlaceholder': "مثال: تعلّم بلا حدود",
+  'brief.style': "الأسلوب",
+  'brief.style.flat': "مسطح",
+  'brief.style.emblem': "شارة",
+  'brief.style.wordmark': "نصي",
+  'brief.style.mascot': "شخصية تعبيرية",
+  'brief.colors': "ألوان العلامة",
+  'brief.removeColor': "إزالة اللون",
+  'brief.addColor': "إضافة لون",
+  'brief.mood': "الطابع",
+  'brief.moodPlaceholder': "أضف كلمة مفتاحية...",
+  'brief.details': "وصف الشعار",
+  'brief.detailsPlaceholder': "مثال: بومة حكيمة تقرأ كتابًا",
+  'brief.avoid': "تجنّب",
+  'brief.avoidPlaceholder': "مثال: التدرجات، الرسوم الجاهزة، النص الصغير",
+  'brief.suffixToggle': "لاحقة الموجّه",
+  'brief.suffix': "اللاحقة",
+  'brief.finalPrompt': "الموجّه النهائي",
+  // App shell and workflow
+  'app.tagline': "منصة الهوية بالذكاء الاصطناعي",
+  'app.language': "اللغة",
+  'app.spendTitle': "الإنفاق التقديري اليوم",
+  'app.spendToday': "{cost} اليوم",
+  'app.inQueue_zero': "لا شيء في الانتظار",
+  'app.inQueue_one': "عنصر واحد في الانتظار",
+  'app.inQueue_two': "عنصران في الانتظار",
+  'app.inQueue_few': "{count} عناصر في الانتظار",
+  'app.inQueue_many': "{count} عنصرًا في الانتظار",
+  'app.inQueue_other': "{count} عنصر في الانتظار",
+  'app.queue': "قائمة الانتظار",
+  'app.undo': "تراجع عن التحديد (Ctrl+Z)",
+  'app.redo': "إعادة التحديد (Ctrl+Shift+Z)",
+  'app.nav.projects': "المشاريع",
+  'app.nav.designer': "المصمم",
+  'app.nav.animator': "المحرّك",
+  'app.loading.concepts': "جارٍ توليد المفاهيم البصرية...",
+  'app.loading.proportions': "جارٍ ضبط النسب الهندسية...",
+  'app.loading.palettes': "جارٍ تطبيق لوحات ألوان احترافية...",
+  'app.loading.edges': "جارٍ صقل الحواف المتجهية...",
+  'app.loading.impact': "جارٍ التحسين من أجل التعليم والأثر...",
+  'app.loading.touch': "جارٍ إضافة لمسة «More Wisdom»...",
+  'app.saveFailed': "تعذر حفظ مشروعك: {reason}",
+  'app.storageUnavailable': "التخزين غير متاح",
+  'app.openFailed': "تعذر فتح المشروع.",
+  'app.projectMissing': "تعذر العثور على هذا المشروع. ربما حُذف.",
+  'app.credentialsNeeded': "أضف مفتاح API أو نقطة نهاية للوكيل للمتابعة.",
+  'app.credentialsFailed': "تعذر التحقق من مفتاح API المحدد. يُرجى المحاولة مجددًا.",
+  'app.untitled': "مشروع بلا عنوان",
+  'app.budget.daily': "سيرفع هذا الإنفاق التقديري لليوم إلى {total}، متجاوزًا الحد البالغ {limit}.",
+  'app.budget.project': "سيرفع هذا الإنفاق التقديري لهذا المشروع إلى {total}، متجاوزًا الحد البالغ {limit}.",
+  'app.budget.confirm': "هل تريد المتابعة على أي حال؟",
+  'app.budget.blocked': "ارفع الحد في لوحة الاستخدام للمتابعة.",
+  'app.exportFailed': "تعذر إنشاء التصدير.",
+  'app.animateFailed': "تعذر تحريك الشعار.",
+  'app.generationFailed': "فشل الإنشاء.",
+  'app.footer': "© 2024 WisdomMotion Branding Engine. مدعوم بواسطة Google Gemini وVeo.",
+  // Setup
+  'setup.title': "لنبنِ علامتك التجارية.",
+  'setup.intro': "اكتشف قوة Gemini 3 Pro وVeo. صمّم شعارات عالية الدقة وحرّكها برسوم متحركة احترافية في ثوانٍ.",
+  'setup.openProject': "فتح مشروع محفوظ",
+  'setup.billing': "يتطلب مفتاح API من مشروع Google Cloud مدفوع.",
+  'setup.billingLink': "مزيد من المعلومات عن الفوترة",
+  // Design step
+  'design.title': "صمّم شعارك",
+  'design.subtitle': "املأ موجز علامتك. سنحوّله إلى موجّه يمكنك معاينته قبل الإنشاء.",
+  'design.newDesign': "تصميم جديد",
+  'design.refine': "تحسين",
+  'design.editInstruction': "تعليمات التعديل",
+  'design.editPlaceholder': "مثال: أبقِ كل شيء، لكن اجعل البومة زرقاء والكتاب أكبر قليلًا.",
+  'design.refineSelected': "تحسين الإصدار المحدد",
+  'design.referenceLabel': "صورة مرجعية (اختياري)",
+  'design.referenceHint': "شعار حالي أو رسم تخطيطي أو رسم لشخصية تعبيرية. PNG أو JPEG أو WebP أو GIF حتى 15 ميغابايت.",
+  'design.reference.inspire': "استلهام حر",
+  'design.reference.redraw': "إعادة رسم أمينة",
+  'design.lockedPalette': "تلتزم التصاميم الجديدة بلوحة الألوان المقفلة",
+  'design.quality': "جودة الصورة",
+  'design.quality.1K': "قياسية (1K)",
+  'design.quality.2K': "عالية الدقة (2K)",
+  'design.quality.4K': "فائقة الدقة (4K)",
+  'design.variations': "التنويعات",
+  'design.single': "واحدة",
+  'design.options_zero': "{count} خيار",
+  'design.options_one': "خيار واحد",
+  'design.options_two': "خياران",
+  'design.options_few': "{count} خيارات",
+  'design.options_many': "{count} خيارًا",
+  'design.options_other': "{count} خيار",
+  'design.generate': "إنشاء",
+  'design.tipTitle': "نصيحة",
+  'design.tip': "ذكر كلمات مثل «بسيط» أو «أسلوب متجهي» أو «تصميم مسطح» يعطي نتائج نظيفة تتحرك بشكل جميل. تجنّب النصوص الكثيرة لأفضل أثر بصري.",
+  'design.preview.artwork': "التصميم",
+  'design.preview.mockups': "نماذج العرض",
+  'design.preview.legibility': "الوضوح",
+  'design.logoFallback': "شعار",
+  'design.logoAlt': "الشعار المُنشأ",
+  'design.previewEmpty': "ستظهر معاينة شعارك هنا",
+  'design.skipToAnimate': "تخطي التصميم وتحريك الصورة المرجعية",
+  'design.applyingEdit': "جارٍ تطبيق تعديلك...",
+  'design.next': "التالي: تحريك هذا الشعار",
+  // Animate step; presets follow AnimationPresetId and their prompts stay in English
+  'animate.back': "العودة إلى التصميم",
+  'animate.title': "امنحه الحياة",
+  'animate.subtitle': "صِف كيف تريد أن يتحرك الشعار. أطلق إبداعك!",
+  'animate.presets': "إعدادات جاهزة",
+  'animate.preset.reveal': "كشف",
+  'animate.preset.pulse': "نبض",
+  'animate.preset.particleAssemble': "تجمّع الجسيمات",
+  'animate.preset.parallaxFloat': "طفو بمنظور متوازٍ",
+  'animate.motion': "حركة الرسوم المتحركة",
+  'animate.motionPlaceholder': "مثال: تتقلب صفحات الكتاب ببطء بينما تشرق الشمس في الخلفية، إضاءة سينمائية ناعمة، حركة طفو هادئة.",
+  'animate.removePrompt': "إزالة الموجّه",
+  'animate.addPrompt': "إضافة موجّه آخر",
+  'animate.lockedPalette': "تلتزم الرسوم المتحركة بلوحة الألوان المقفلة",
+  'animate.formats': "الأبعاد",
+  'animate.format.landscape': "أفقي",
+  'animate.format.portrait': "عمودي",
+  'animate.format.square': "مربع",
+  'animate.timeout': "المهلة",
+  'animate.minutes_zero': "{count} دقيقة",
+  'animate.minutes_one': "دقيقة واحدة",
+  'animate.minutes_two': "دقيقتان",
+  'animate.minutes_few': "{count} دقائق",
+  'animate.minutes_many': "{count} دقيقة",
+  'animate.minutes_other': "{count} دقيقة",
+  'animate.queue_zero': "إضافة {count} رسم متحرك إلى الانتظار",
+  'animate.queue_one': "إضافة رسم متحرك واحد إلى الانتظار",
+  'animate.queue_two': "إضافة رسمين متحركين إلى الانتظار",
+  'animate.queue_few': "إضافة {count} رسوم متحركة إلى الانتظار",
+  'animate.queue_many': "إضافة {count} رسمًا متحركًا إلى الانتظار",
+  'animate.queue_other': "إضافة {count} رسم متحرك إلى الانتظار",
+  'animate.animate': "تحريك",
+  'animate.aboutTitle': "عن التحريك بواسطة Veo",
+  'animate.about': "ينشئ Veo فيديو سينمائيًا انطلاقًا من شعارك. يمكنك تحديد الطابع والإضاءة والحركة لمقدمة احترافية لعلامتك. تستمر المهام في الخلفية وتُستأنف بعد إعادة تحميل الصفحة.",
+  'animate.referenceAlt': "مرجع ثابت للشعار",
+  'animate.startingFrame': "سيستخدم Veo هذه الصورة كإطار البداية",
+  'animate.ownImage': "استخدم صورتك الخاصة",
+  'animate.ownImageHint': "يستبدل إطار البداية بصورة أو لقطة مرفوعة.",
+  // Result view
+  'view.change': "تغيير الرسوم المتحركة",
+  'view.title': "علامتك المتحركة",
+  'view.createNew': "إنشاء جديد",
+  'view.logoDetails': "تفاصيل الشعار",
+  'view.thumbnailAlt': "صورة مصغرة",
+  'view.createdWith': "أُنشئ بواسطة Gemini 3 Pro",
+  'view.animationStyle': "أسلوب الحركة",
+  'view.engine': "— محرك الحركة Veo",
+  'view.download': "تنزيل الرسوم المتحركة",
+  'view.presentation': "العرض التقديمي",
+  'view.presentationHint': "صفحة HTML مستقلة لأصحاب المصلحة",
+  'view.projectFileHint': "ملف مشروع يمكن استيراده في التطبيق",
+  // Presentation export
+  'presentation.title': "عرض الهوية",
+  'presentation.paletteLocked': "لوحة الألوان (مقفلة)",
+  'presentation.contrast': "على الأبيض {white} · على الأسود {black}",
+  'presentation.logoAlt': "شعار {name}",
+  'presentation.brief': "الموجز",
+  'presentation.prompt': "الموجّه",
+  'presentation.animations_zero': "الرسوم المتحركة",
+  'presentation.animations_one': "الرسم المتحرك",
+  'presentation.animations_two': "الرسوم المتحركة",
+  'presentation.animations_few': "الرسوم المتحركة",
+  'presentation.animations_many': "الرسوم المتحركة",
+  'presentation.animations_other': "الرسوم المتحركة",
+  'presentation.versions': "كل الإصدارات",
+  'presentation.footer': "صُنع بواسطة WisdomMotion"
+};
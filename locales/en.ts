@@ -0,0 +1,510 @@
+// Source strings. Keys are `<area>.<name>`; `{name}` is filled in from the
+// params passed to `t`, and keys ending in `_one`/`_other` are plural forms.
+export const en = {
+  // Design: variation grid
+  'candidates.title': "Variations",
+  'candidates.readyOf': "{ready} of {total} ready",
+  'candidates.ready_one': "{count} ready",
+  'candidates.ready_other': "{count} ready",
+  'candidates.variation': "Variation {number}",
+  'candidates.use': "Use this variation",
+  'candidates.alt': "Logo variation {number}",
+  'candidates.unfavorite': "Remove from favorites",
+  'candidates.favorite': "Keep as favorite",
+  'candidates.selected': "Selected",
+  // Shared
+  'common.cancel': "Cancel",
+  'common.close': "Close",
+  'common.dismiss': "Dismiss",
+  'common.optional': "(optional)",
+  'common.resetToDefault': "Reset to default",
+  'common.unlock': "Unlock",
+  'common.save': "Save",
+  'common.delete': "Delete",
+  // Camera capture
+  'camera.unsupported': "This browser does not support camera capture.",
+  'camera.denied': "Camera access was denied or no camera is available.",
+  'camera.takePhoto': "Take Photo",
+  // Image upload
+  'dropzone.unusable': "The image could not be used.",
+  'dropzone.remove': "Remove image",
+  'dropzone.preparing': "Preparing image...",
+  'dropzone.drop': "Drop an image here.",
+  'dropzone.browse': "Browse files",
+  'dropzone.camera': "Take a photo",
+  'dropzone.cameraPhoto': "Camera photo",
+  // Design: version history
+  'versions.title': "Version History",
+  'versions.alt': "Version {number}",
+  'versions.original': "Original",
+  // Brand kit
+  'brandKit.failed': "Failed to build the brand kit.",
+  'brandKit.building': "Packaging Brand Kit...",
+  'brandKit.download': "Download Brand Kit (.zip)",
+  // Animation jobs
+  'jobs.title': "Animation Jobs",
+  'jobs.status.queued': "Queued",
+  'jobs.status.starting': "Submitting",
+  'jobs.status.generating': "Generating",
+  'jobs.status.downloading': "Downloading",
+  'jobs.status.succeeded': "Ready",
+  'jobs.status.failed': "Failed",
+  'jobs.status.cancelled': "Cancelled",
+  'jobs.status.timedOut': "Timed out",
+  'jobs.retry': "Retry",
+  'jobs.view': "View",
+  'jobs.checks_one': "{count} status check",
+  'jobs.checks_other': "{count} status checks",
+  'jobs.timesOut': "times out after {minutes} min",
+  // Render queue
+  'queue.title': "Render Queue",
+  'queue.parallel': "Parallel",
+  'queue.empty': "Nothing queued. Submit animations from the Animator step.",
+  'queue.thisProject': "This Project",
+  'queue.otherProjects': "Other Projects",
+  'queue.results': "Results",
+  // Error banner; titles and hints per GenerationErrorKind
+  'errors.auth.title': "API key problem",
+  'errors.auth.hint': "Select a key from a paid Google Cloud project with the Gemini API enabled.",
+  'errors.quota.title': "Usage limit reached",
+  'errors.quota.hint': "Wait a minute before trying again, or check the limits for your key.",
+  'errors.safety.title': "Blocked by safety filters",
+  'errors.safety.hint': "Reword the brief or prompt, avoiding real people, brands and sensitive themes.",
+  'errors.noImage.title': "No image returned",
+  'errors.noImage.hint': "The model answered without an image. Trying again usually works.",
+  'errors.network.title': "Connection problem",
+  'errors.network.hint': "Check your connection, then try again.",
+  'errors.download.title': "Download failed",
+  'errors.download.hint': "The result was generated but could not be fetched. Try again.",
+  'errors.timeout.title': "Took too long",
+  'errors.timeout.hint': "Video generation can take several minutes under load. Trying again doubles the timeout.",
+  'errors.cancelled.title': "Cancelled",
+  'errors.cancelled.hint': "The request was stopped before it finished.",
+  'errors.unknown.title': "Something went wrong",
+  'errors.unknown.hint': "Try again in a moment.",
+  'errors.reselectKey': "Re-select API key",
+  'errors.rateLimits': "View rate limits",
+  'errors.editBrief': "Edit brief",
+  'errors.tryAgain': "Try again",
+  // Mockups; scene names follow MockupId, file names stay in English
+  'mockups.scene.businessCard': "Business Card",
+  'mockups.scene.websiteHeader': "Website Header",
+  'mockups.scene.tshirt': "T-Shirt",
+  'mockups.scene.appIcon': "App Icon",
+  'mockups.scene.darkBackground': "On Dark",
+  'mockups.scene.lightBackground': "On Light",
+  'mockups.alt': "{scene} mockup",
+  'mockups.prepareFailed': "Could not prepare the logo.",
+  'mockups.renderFailed': "Could not render the mockup.",
+  'mockups.exportPng': "Export PNG",
+  'mockups.exportAll': "Export All",
+  // Palette
+  'palette.title': "Palette",
+  'palette.analysing': "Analysing colours...",
+  'palette.locked': "Locked",
+  'palette.lock': "Lock palette",
+  'palette.lockedLabel': "Locked:",
+  'palette.drift_one': "{count} colour off palette",
+  'palette.drift_other': "{count} colours off palette",
+  'palette.onWhite': "Contrast against white",
+  'palette.onBlack': "Contrast against black",
+  'palette.rating.aaa': "AAA",
+  'palette.rating.aa': "AA",
+  'palette.rating.aaLarge': "AA Large",
+  'palette.rating.fail': "Fail",
+  // Project library
+  'projects.title': "Your Projects",
+  'projects.subtitle': "Every logo and animation you generate is saved in this browser.",
+  'projects.import': "Import",
+  'projects.new': "New Project",
+  'projects.loading': "Loading projects...",
+  'projects.empty': "No saved projects yet. Generate a logo to start one.",
+  'projects.loadFailed': "Failed to load your projects.",
+  'projects.actionFailed': "That action could not be completed.",
+  'projects.step.draft': "Draft",
+  'projects.step.design': "Designing",
+  'projects.step.animate': "Animating",
+  'projects.step.view': "Animated",
+  'projects.logos_one': "{count} logo",
+  'projects.logos_other': "{count} logos",
+  'projects.animations_one': "{count} animation",
+  'projects.animations_other': "{count} animations",
+  'projects.updated': "Updated {date}",
+  'projects.open': "Open",
+  'projects.rename': "Rename",
+  'projects.export': "Export project file",
+  'projects.duplicate': "Duplicate",
+  'projects.confirmDelete': "Delete \"{name}\"? This cannot be undone.",
+  'projects.deleteOpen': "Close this project before deleting it",
+  // Prompt library
+  'prompts.title': "Prompt Library",
+  'prompts.counts': "{recent} recent · {saved} saved",
+  'prompts.tab.history': "History",
+  'prompts.tab.templates': "Templates",
+  'prompts.clearHistory': "Clear history",
+  'prompts.use': "Use",
+  'prompts.removeHistory': "Remove from history",
+  'prompts.historyEmpty': "Prompts you send are listed here with a thumbnail of their result.",
+  'prompts.historyNote': "Shows your instructions as typed. Style and palette wording added when sending is not included.",
+  'prompts.historyNote.logo': "Shows each brief compiled into English; Use restores the brief as you wrote it. Style and palette wording added when sending is not included.",
+  'prompts.deleteTemplate': "Delete template",
+  'prompts.templateName': "Template name",
+  'prompts.saveTemplate': "Save Template",
+  'prompts.variables': "Variables filled from the brief: {variables}",
+  // Error messages raised by services
+  'errors.message.auth': "Your API key may not have access or has been reset. Please re-select.",
+  'errors.message.quota': "You've hit a usage limit for this API key.",
+  'errors.message.safety': "The request was blocked by the model's safety filters.",
+  'errors.message.safetyReason': "The request was blocked by the model's safety filters ({reason}).",
+  'errors.message.network': "The generation service could not be reached.",
+  'errors.message.videoCancelled': "Video generation was cancelled.",
+  'errors.message.videoTimeout': "Video generation timed out.",
+  'errors.message.noImage': "No image data returned from model.",
+  'errors.message.noDownloadLink': "Failed to get video download link.",
+  'errors.message.download': "The finished video could not be downloaded.",
+  'errors.message.downloadStatus': "The finished video could not be downloaded (HTTP {status}).",
+  'errors.message.translate': "The brief could not be translated.",
+  'errors.message.noStudioKey': "No API key has been selected in AI Studio.",
+  'errors.message.noUserKey': "No API key has been entered. Add one on the Setup step.",
+  'errors.message.noProxy': "No proxy endpoint is configured.",
+  'errors.message.proxyUnreachable': "The proxy endpoint could not be reached.",
+  'errors.message.apiUnreachable': "The Gemini API could not be reached.",
+  'errors.message.proxyRejected': "The proxy rejected the request; check the key configured on the server.",
+  'errors.message.keyRejected': "This API key was rejected.",
+  'errors.message.jobLogoMissing': "The logo for this job is no longer in the project.",
+  'errors.message.jobInterrupted': "The request was interrupted before the provider accepted it.",
+  'errors.message.jobNoVideo': "No video after {minutes} min.",
+  'errors.message.jobSaveFailed': "Could not save the video: {reason}",
+  'errors.message.notProjectFile': "This is not a WisdomMotion project file.",
+  'errors.message.noManifest': "The project file has no project.json.",
+  'errors.message.newerProject': "This project was exported by a newer version of the app.",
+  'errors.message.missingAsset': "The project file is missing {asset}.",
+  'errors.message.openLibrary': "Failed to open the project library.",
+  'errors.message.transaction': "Project library transaction aborted.",
+  'errors.message.projectNotFound': "Project not found.",
+  'errors.message.unsupportedImage': "\"{name}\" is not a supported image. Use PNG, JPEG, WebP or GIF.",
+  'errors.message.imageTooLarge': "\"{name}\" is {size} MB; the limit is {limit} MB.",
+  'errors.message.unreadableImage': "\"{name}\" could not be read as an image.",
+  'errors.message.imageTooSmall': "\"{name}\" is {width}×{height}px; use an image at least {min}px on each side.",
+  'errors.message.videoDecode': "The video could not be decoded in this browser.",
+  'errors.message.noWebm': "This browser cannot record WebM video.",
+  'errors.message.webmFailed': "WebM recording failed.",
+  'errors.message.imageLoad': "Failed to load image.",
+  'errors.message.imageEncode': "Failed to encode image.",
+  'errors.message.unknown': "Unknown error.",
+  'errors.message.validationFailed': "Validation failed (HTTP {status}).",
+  'errors.message.noCanvas': "Canvas 2D context is not available.",
+  'errors.message.noFrames': "An animation needs at least one frame.",
+  'errors.message.notPng': "Not a PNG file.",
+  'errors.message.pngNoHeader': "PNG frame is missing its header.",
+  'errors.message.noInflate': "This browser cannot read compressed ZIP entries.",
+  'errors.message.notZip': "Not a ZIP archive.",
+  'errors.message.zipDamaged': "The ZIP directory is damaged.",
+  'errors.message.zipMethod': "\"{name}\" uses an unsupported ZIP compression method.",
+  'errors.message.noMediaRecorder': "MediaRecorder is not available, so the mock provider cannot render a clip.",
+  'errors.message.mockRecording': "Mock clip recording failed.",
+  'errors.message.mockOperation': "Unknown mock operation: {name}",
+  // Usage dashboard
+  'usage.title': "Usage",
+  'usage.scope.project': "This project",
+  'usage.scope.all': "All projects",
+  'usage.today': "Today",
+  'usage.total': "Total",
+  'usage.calls': "Calls",
+  'usage.failures': "Failures",
+  'usage.images_one': "{count} image",
+  'usage.images_other': "{count} images",
+  'usage.videos_one': "{count} video",
+  'usage.videos_other': "{count} videos",
+  'usage.succeeded_one': "{count} succeeded",
+  'usage.succeeded_other': "{count} succeeded",
+  'usage.notBilled': "not billed",
+  'usage.estimateNote': "Costs are estimates from the price table below, not your Google Cloud bill.",
+  'usage.lastDays_one': "Last {count} Day",
+  'usage.lastDays_other': "Last {count} Days",
+  'usage.byProject': "By Project",
+  'usage.deletedProject': "Deleted project",
+  'usage.noProject': "No project",
+  'usage.callCount_one': "{count} call",
+  'usage.callCount_other': "{count} calls",
+  'usage.failedCount_one': "{count} failed",
+  'usage.failedCount_other': "{count} failed",
+  'usage.recentCalls': "Recent Calls",
+  'usage.call.image': "Image",
+  'usage.call.refine': "Refine",
+  'usage.call.video': "Video",
+  'usage.call.translate': "Brief translation",
+  'usage.budget': "Budget Caps",
+  'usage.dailyLimit': "Daily limit ($)",
+  'usage.projectLimit': "Per-project limit ($)",
+  'usage.noLimit': "none",
+  'usage.whenExceeded': "When exceeded",
+  'usage.action.confirm': "Ask first",
+  'usage.action.block': "Block",
+  'usage.prices': "Price Table (USD)",
+  'usage.resetPrices': "Reset",
+  'usage.perImage': "per image",
+  'usage.perSecond': "per second of video",
+  'usage.perCall': "per call",
+  'usage.confirmClear': "Clear all recorded usage? Budget caps start counting from zero.",
+  'usage.clear': "Clear usage history",
+  // Vector version
+  'vector.title': "Vector Version",
+  'vector.subtitle': "Traced in your browser into flat colour shapes, ready for print vendors.",
+  'vector.colours': "Colours: {value}",
+  'vector.smoothing': "Smoothing: {value}",
+  'vector.raster': "Raster",
+  'vector.rasterAlt': "Raster logo",
+  'vector.vectorAlt': "Vectorized logo",
+  'vector.shapes_one': "{count} shape",
+  'vector.shapes_other': "{count} shapes",
+  'vector.failed': "Vectorization failed.",
+  'vector.download': "Download SVG",
+  // Video editor
+  'editor.title': "Edit & Export",
+  'editor.subtitle': "Trim, loop and re-encode the clip in your browser. Nothing is uploaded.",
+  'editor.start': "Start: {time}",
+  'editor.end': "End: {time}",
+  'editor.poster': "Poster frame: {time}",
+  'editor.posterAlt': "Poster frame",
+  'editor.downloadPoster': "Download poster PNG",
+  'editor.seamless': "Seamless loop",
+  'editor.crossFade': "Cross-fade: {time}",
+  'editor.format.gif': "Animated GIF",
+  'editor.format.webm': "WebM video",
+  'editor.format.apng': "APNG (email)",
+  'editor.width': "Width",
+  'editor.frameRate': "Frame rate",
+  'editor.render': "Render {time} {format}",
+  'editor.decoding': "Decoding frame {done} of {total}...",
+  'editor.recording': "Recording WebM in real time...",
+  'editor.encoding': "Encoding {format}...",
+  'editor.resultAlt': "Rendered clip",
+  'editor.download': "Download",
+  'editor.loadFailed': "The video could not be loaded.",
+  'editor.exportFailed': "Export failed.",
+  'editor.posterFailed': "Could not capture the poster frame.",
+  // Legibility: colour-vision types, findings, colour names and generated alt text
+  'legibility.vision.protanopia': "Protanopia",
+  'legibility.vision.protanopia.description': "No red cones (about 1% of men)",
+  'legibility.vision.deuteranopia': "Deuteranopia",
+  'legibility.vision.deuteranopia.description': "No green cones (about 1% of men)",
+  'legibility.vision.tritanopia': "Tritanopia",
+  'legibility.vision.tritanopia.description': "No blue cones (rare)",
+  'legibility.vision.achromatopsia': "Achromatopsia",
+  'legibility.vision.achromatopsia.description': "No colour vision at all",
+  'legibility.issue.noArtwork': "No artwork could be told apart from the background.",
+  'legibility.issue.lowContrast': "The main colour {color} has only {ratio} contrast against the background; {minimum} is the minimum for graphics.",
+  'legibility.issue.fades': "{color} covers {share} of the mark at {ratio} contrast and may fade into the background.",
+  'legibility.issue.washesOut': "Fine detail washes out at {sizes}. A simplified mark works better as a favicon or app icon.",
+  'legibility.issue.visionContrast': "With {vision} the main colour drops to {ratio} contrast.",
+  'legibility.issue.visionConfused': "With {vision}, {a} and {b} look alike; don't rely on them to tell parts apart.",
+  'legibility.altText': "Alt text",
+  'legibility.regenerate': "Regenerate",
+  'legibility.altPlaceholder': "Describe the logo for people using screen readers",
+  'legibility.altCount': "{length}/{limit} characters. Included in brand kits, project files and presentation pages.",
+  'legibility.analyseFailed': "Could not analyse the logo.",
+  'legibility.checking': "Checking legibility...",
+  'legibility.findings': "Findings",
+  'legibility.allClear': "Readable at small sizes and for the colour-vision types checked.",
+  'legibility.smallSizes': "Small sizes",
+  'legibility.sizeAlt': "{size} pixel render",
+  'legibility.colourVision': "Colour vision",
+  'legibility.visionAlt': "Logo as seen with {vision}",
+  'legibility.contrast': "Contrast against background",
+  'legibility.share': "{share} of mark",
+  'colors.white': "white",
+  'colors.black': "black",
+  'colors.grey': "grey",
+  'colors.red': "red",
+  'colors.orange': "orange",
+  'colors.yellow': "yellow",
+  'colors.green': "green",
+  'colors.teal': "teal",
+  'colors.blue': "blue",
+  'colors.purple': "purple",
+  'colors.pink': "pink",
+  'colors.dark': "dark {color}",
+  'colors.light': "light {color}",
+  'alt.named': "{name} logo",
+  'alt.unnamed': "Logo",
+  'alt.described': "{subject}: a {style}",
+  'alt.inColors': "in {colors}",
+  'alt.style.flat': "flat geometric logo mark",
+  'alt.style.emblem': "emblem logo",
+  'alt.style.wordmark': "wordmark",
+  'alt.style.mascot': "mascot logo",
+  // Setup: credentials
+  'credentials.mode.userKey': "Your API Key",
+  'credentials.mode.proxy': "Backend Proxy",
+  'credentials.start': "Get Started",
+  'credentials.aiStudioHint': "You'll be asked to select a key from your AI Studio projects.",
+  'credentials.keySaved': "Saved in this browser: the key ending in",
+  'credentials.clearKey': "Clear key",
+  'credentials.keyPlaceholder': "Gemini API key",
+  'credentials.keyVerified': "Key verified and saved.",
+  'credentials.verify': "Verify & Save",
+  'credentials.keyHint': "The key is kept in this browser's local storage and sent straight to Google. For a shared deployment, use a backend proxy instead.",
+  'credentials.proxyVerified': "Proxy reachable and accepted the request.",
+  'credentials.test': "Test & Save",
+  'credentials.proxyHint': "The proxy forwards requests to the Gemini API and adds the key on the server, so it never reaches the browser.",
+  // Design: brand brief
+  'brief.language': "Brief language",
+  'brief.languageHint': "Written in another language? It is translated to English before the prompt is sent; the name and tagline are kept as typed.",
+  'brief.organization': "Organization",
+  'brief.organizationPlaceholder': "e.g., More Wisdom",
+  'brief.industry': "Industry",
+  'brief.industryPlaceholder': "e.g., education non-profit",
+  'brief.tagline': "Tagline",
+  'brief.taglinePlaceholder': "e.g., Learning without limits",
+  'brief.style': "Style",
+  'brief.style.flat': "Flat",
+  'brief.style.emblem': "Emblem",
+  'brief.style.wordmark': "Wordmark",
+  'brief.style.mascot': "Mascot",
+  'brief.colors': "Brand Colors",
+  'brief.removeColor': "Remove color",
+  'brief.addColor': "Add color",
+  'brief.mood': "Mood",
+  'brief.moodPlaceholder': "Add a keyword...",
+  'brief.details': "Logo Description",
+  'brief.detailsPlaceholder': "e.g., featuring a wise owl reading a book",
+  'brief.avoid': "Avoid",
+  'brief.avoidPlaceholder': "e.g., gradients, clip-art, small text",
+  'brief.suffixToggle': "Prompt suffix",
+  'brief.suffix': "Suffix",
+  'brief.finalPrompt': "Final prompt",
+  // App shell and workflow
+  'app.tagline': "AI Branding Suite",
+  'app.language': "Language",
+  'app.spendTitle': "Estimated spend today",
+  'app.spendToday': "{cost} today",
+  'app.inQueue_one': "{count} in queue",
+  'app.inQueue_other': "{count} in queue",
+  'app.queue': "Queue",
+  'app.undo': "Undo selection (Ctrl+Z)",
+  'app.redo': "Redo selection (Ctrl+Shift+Z)",
+  'app.nav.projects': "Projects",
+  'app.nav.designer': "Designer",
+  'app.nav.animator': "Animator",
+  'app.loading.concepts': "Synthesizing visual concepts...",
+  'app.loading.proportions': "Perfecting geometric proportions...",
+  'app.loading.palettes': "Applying professional color palettes...",
+  'app.loading.edges': "Polishing vector edges...",
+  'app.loading.impact': "Optimizing for education and impact...",
+  'app.loading.touch': "Adding that 'More Wisdom' touch...",
+  'app.saveFailed': "Could not save your project: {reason}",
+  'app.storageUnavailable': "storage is unavailable",
+  'app.openFailed': "Failed to open the project.",
+  'app.projectMissing': "That project could not be found. It may have been deleted.",
+  'app.credentialsNeeded': "Add an API key or a proxy endpoint to continue.",
+  'app.credentialsFailed': "Failed to verify API key selection. Please try again.",
+  'app.untitled': "Untitled project",
+  'app.budget.daily': "This would take today's estimated spend to {total}, over the {limit} cap.",
+  'app.budget.project': "This would take this project's estimated spend to {total}, over the {limit} cap.",
+  'app.budget.confirm': "Continue anyway?",
+  'app.budget.blocked': "Raise the cap in the Usage panel to continue.",
+  'app.exportFailed': "The export could not be created.",
+  'app.animateFailed': "Failed to animate logo.",
+  'app.generationFailed': "Generation failed.",
+  'app.footer': "© 2024 WisdomMotion Branding Engine. Powered by Google Gemini & Veo.",
+  // Setup
+  'setup.title': "Let's build your brand.",
+  'setup.intro': "Experience the power of Gemini 3 Pro and Veo. Design high-fidelity logos and animate them with professional-grade motion graphics in seconds.",
+  'setup.openProject': "Open a saved project",
+  'setup.billing': "Requires a paid Google Cloud Project API Key.",
+  'setup.billingLink': "More info on billing",
+  // Design step
+  'design.title': "Design Your Logo",
+  'design.subtitle': "Fill in your brand brief. We'll turn it into a prompt you can preview before generating.",
+  'design.newDesign': "New Design",
+  'design.refine': "Refine",
+  'design.editInstruction': "Edit Instruction",
+  'design.editPlaceholder': "e.g., Keep everything, but make the owl blue and the book slightly larger.",
+  'design.refineSelected': "Refine Selected Version",
+  'design.referenceLabel': "Reference Image (optional)",
+  'design.referenceHint': "An existing logo, a sketch or a mascot drawing. PNG, JPEG, WebP or GIF up to 15 MB.",
+  'design.reference.inspire': "Loose inspiration",
+  'design.reference.redraw': "Faithful redraw",
+  'design.lockedPalette': "New designs are held to the locked palette",
+  'design.quality': "Image Quality",
+  'design.quality.1K': "Standard (1K)",
+  'design.quality.2K': "High Definition (2K)",
+  'design.quality.4K': "Ultra HD (4K)",
+  'design.variations': "Variations",
+  'design.single': "Single",
+  'design.options_one': "{count} option",
+  'design.options_other': "{count} options",
+  'design.generate': "Generate",
+  'design.tipTitle': "Pro Tip",
+  'design.tip': "Mentioning \"minimalist\", \"vector style\", or \"flat design\" helps produce clean results that animate beautifully. Avoid too much text for the best visual impact.",
+  'design.preview.artwork': "Artwork",
+  'design.preview.mockups': "Mockups",
+  'design.preview.legibility': "Legibility",
+  'design.logoFallback': "Logo",
+  'design.logoAlt': "Generated Logo",
+  'design.previewEmpty': "Your logo preview will appear here",
+  'design.skipToAnimate': "Skip design and animate the reference image",
+  'design.applyingEdit': "Applying your edit...",
+  'design.next': "Next: Animate This Logo",
+  // Animate step; presets follow AnimationPresetId and their prompts stay in English
+  'animate.back': "Back to Design",
+  'animate.title': "Bring it to Life",
+  'animate.subtitle': "Describe how you want the logo to move. Be creative!",
+  'animate.presets': "Presets",
+  'animate.preset.reveal': "Reveal",
+  'animate.preset.pulse': "Pulse",
+  'animate.preset.particleAssemble': "Particle Assemble",
+  'animate.preset.parallaxFloat': "Parallax Float",
+  'animate.motion': "Animation Motion",
+  'animate.motionPlaceholder': "e.g., The book pages slowly turn as the sun rises in the background, cinematic soft lighting, gentle floating motion.",
+  'animate.removePrompt': "Remove prompt",
+  'animate.addPrompt': "Add another prompt",
+  'animate.lockedPalette': "Animations keep to the locked palette",
+  'animate.formats': "Formats",
+  'animate.format.landscape': "Landscape",
+  'animate.format.portrait': "Portrait",
+  'animate.format.square': "Square",
+  'animate.timeout': "Timeout",
+  'animate.minutes_one': "{count} minute",
+  'animate.minutes_other': "{count} minutes",
+  'animate.queue_one': "Queue {count} Animation",
+  'animate.queue_other': "Queue {count} Animations",
+  'animate.animate': "Animate",
+  'animate.aboutTitle': "About Veo Animation",
+  'animate.about': "Veo creates a cinematic video using your logo as the base. You can specify mood, lighting, and movement for a professional brand intro. Jobs keep running in the background and resume after a page reload.",
+  'animate.referenceAlt': "Static Logo Reference",
+  'animate.startingFrame': "Veo will use this as the starting frame",
+  'animate.ownImage': "Use Your Own Image",
+  'animate.ownImageHint': "Replaces the starting frame with an uploaded image or photo.",
+  // Result view
+  'view.change': "Change Animation",
+  'view.title': "Your Animated Brand",
+  'view.createNew': "Create New",
+  'view.logoDetails': "Logo Details",
+  'view.thumbnailAlt': "Mini",
+  'view.createdWith': "Created with Gemini 3 Pro",
+  'view.animationStyle': "Animation Style",
+  'view.engine': "— Veo Motion Engine",
+  'view.download': "Download Animation",
+  'view.presentation': "Presentation",
+  'view.presentationHint': "Standalone HTML page for stakeholders",
+  'view.projectFileHint': "Project file that can be imported in the app",
+  // Presentation export
+  'presentation.title': "Brand presentation",
+  'presentation.paletteLocked': "Palette (locked)",
+  'presentation.contrast': "On white {white} · on black {black}",
+  'presentation.logoAlt': "{name} logo",
+  'presentation.brief': "Brief",
+  'presentation.prompt': "Prompt",
+  'presentation.animations_one': "Animation",
+  'presentation.animations_other': "Animations",
+  'presentation.versions': "All Versions",
+  'presentation.footer': "Made with WisdomMotion"
+};
+
+export type MessageKey = keyof typeof en;
+
+// Every locale translates every key. Extra keys are plural forms English does
+// not use, such as Arabic's `_two` and `_few`.
+export type Messages = Record<MessageKey, string> & { [key: string]: string };
@@ -0,0 +1,504 @@
+import { Messages } from "./en";
+
+export const es: Messages = {
+  // Design: variation grid
+  'candidates.title': "Variaciones",
+  'candidates.readyOf': "{ready} de {total} listas",
+  'candidates.ready_one': "{count} lista",
+  'candidates.ready_other': "{count} listas",
+  'candidates.variation': "Variación {number}",
+  'candidates.use': "Usar esta variación",
+  'candidates.alt': "Variación de logotipo {number}",
+  'candidates.unfavorite': "Quitar de favoritos",
+  'candidates.favorite': "Guardar como favorita",
+  'candidates.selected': "Seleccionada",
+  // Shared
+  'common.cancel': "Cancelar",
+  'common.close': "Cerrar",
+  'common.dismiss': "Descartar",
+  'common.optional': "(opcional)",
+  'common.resetToDefault': "Restablecer valor predeterminado",
+  'common.unlock': "Desbloquear",
+  'common.save': "Guardar",
+  'common.delete': "Eliminar",
+  // Camera capture
+  'camera.unsupported': "Este navegador no permite usar la cámara.",
+  'camera.denied': "Se denegó el acceso a la cámara o no hay ninguna disponible.",
+  'camera.takePhoto': "Hacer foto",
+  // Image upload
+  'dropzone.unusable': "No se pudo usar la imagen.",
+  'dropzone.remove': "Quitar imagen",
+  'dropzone.preparing': "Preparando la imagen...",
+  'dropzone.drop': "Suelta una imagen aquí.",
+  'dropzone.browse': "Examinar archivos",
+  'dropzone.camera': "Hacer una foto",
+  'dropzone.cameraPhoto': "Foto de la cámara",
+  // Design: version history
+  'versions.title': "Historial de versiones",
+  'versions.alt': "Versión {number}",
+  'versions.original': "Original",
+  // Brand kit
+  'brandKit.failed': "No se pudo crear el kit de marca.",
+  'brandKit.building': "Empaquetando el kit de marca...",
+  'brandKit.download': "Descargar kit de marca (.zip)",
+  // Animation jobs
+  'jobs.title': "Trabajos de animación",
+  'jobs.status.queued': "En cola",
+  'jobs.status.starting': "Enviando",
+  'jobs.status.generating': "Generando",
+  'jobs.status.downloading': "Descargando",
+  'jobs.status.succeeded': "Lista",
+  'jobs.status.failed': "Fallida",
+  'jobs.status.cancelled': "Cancelada",
+  'jobs.status.timedOut': "Tiempo agotado",
+  'jobs.retry': "Reintentar",
+  'jobs.view': "Ver",
+  'jobs.checks_one': "{count} comprobación de estado",
+  'jobs.checks_other': "{count} comprobaciones de estado",
+  'jobs.timesOut': "caduca a los {minutes} min",
+  // Render queue
+  'queue.title': "Cola de renderizado",
+  'queue.parallel': "En paralelo",
+  'queue.empty': "No hay nada en cola. Envía animaciones desde el paso Animador.",
+  'queue.thisProject': "Este proyecto",
+  'queue.otherProjects': "Otros proyectos",
+  'queue.results': "Resultados",
+  // Error banner; titles and hints per GenerationErrorKind
+  'errors.auth.title': "Problema con la clave de API",
+  'errors.auth.hint': "Selecciona una clave de un proyecto de pago de Google Cloud con la API de Gemini habilitada.",
+  'errors.quota.title': "Límite de uso alcanzado",
+  'errors.quota.hint': "Espera un minuto antes de volver a intentarlo o revisa los límites de tu clave.",
+  'errors.safety.title': "Bloqueado por los filtros de seguridad",
+  'errors.safety.hint': "Reformula el brief o la instrucción y evita personas reales, marcas y temas delicados.",
+  'errors.noImage.title': "No se devolvió ninguna imagen",
+  'errors.noImage.hint': "El modelo respondió sin imagen. Volver a intentarlo suele funcionar.",
+  'errors.network.title': "Problema de conexión",
+  'errors.network.hint': "Comprueba tu conexión y vuelve a intentarlo.",
+  'errors.download.title': "Error en la descarga",
+  'errors.download.hint': "El resultado se generó, pero no se pudo obtener. Vuelve a intentarlo.",
+  'errors.timeout.title': "Tardó demasiado",
+  'errors.timeout.hint': "Con mucha carga, generar un vídeo puede tardar varios minutos. Al reintentar se duplica el tiempo de espera.",
+  'errors.cancelled.title': "Cancelado",
+  'errors.cancelled.hint': "La solicitud se detuvo antes de terminar.",
+  'errors.unknown.title': "Algo salió mal",
+  'errors.unknown.hint': "Vuelve a intentarlo en un momento.",
+  'errors.reselectKey': "Volver a seleccionar la clave de API",
+  'errors.rateLimits': "Ver límites de uso",
+  'errors.editBrief': "Editar brief",
+  'errors.tryAgain': "Volver a intentarlo",
+  // Mockups; scene names follow MockupId, file names stay in English
+  'mockups.scene.businessCard': "Tarjeta de visita",
+  'mockups.scene.websiteHeader': "Cabecera web",
+  'mockups.scene.tshirt': "Camiseta",
+  'mockups.scene.appIcon': "Icono de app",
+  'mockups.scene.darkBackground': "Sobre oscuro",
+  'mockups.scene.lightBackground': "Sobre claro",
+  'mockups.alt': "Maqueta: {scene}",
+  'mockups.prepareFailed': "No se pudo preparar el logotipo.",
+  'mockups.renderFailed': "No se pudo renderizar la maqueta.",
+  'mockups.exportPng': "Exportar PNG",
+  'mockups.exportAll': "Exportar todo",
+  // Palette
+  'palette.title': "Paleta",
+  'palette.analysing': "Analizando colores...",
+  'palette.locked': "Bloqueada",
+  'palette.lock': "Bloquear paleta",
+  'palette.lockedLabel': "Bloqueada:",
+  'palette.drift_one': "{count} color fuera de la paleta",
+  'palette.drift_other': "{count} colores fuera de la paleta",
+  'palette.onWhite': "Contraste sobre blanco",
+  'palette.onBlack': "Contraste sobre negro",
+  'palette.rating.aaa': "AAA",
+  'palette.rating.aa': "AA",
+  'palette.rating.aaLarge': "AA grande",
+  'palette.rating.fail': "No cumple",
+  // Project library
+  'projects.title': "Tus proyectos",
+  'projects.subtitle': "Cada logotipo y animación que generas se guarda en este navegador.",
+  'projects.import': "Importar",
+  'projects.new': "Nuevo proyecto",
+  'projects.loading': "Cargando proyectos...",
+  'projects.empty': "Aún no hay proyectos guardados. Genera un logotipo para empezar uno.",
+  'projects.loadFailed': "No se pudieron cargar tus proyectos.",
+  'projects.actionFailed': "No se pudo completar la acción.",
+  'projects.step.draft': "Borrador",
+  'projects.step.design': "En diseño",
+  'projects.step.animate': "En animación",
+  'projects.step.view': "Animado",
+  'projects.logos_one': "{count} logotipo",
+  'projects.logos_other': "{count} logotipos",
+  'projects.animations_one': "{count} animación",
+  'projects.animations_other': "{count} animaciones",
+  'projects.updated': "Actualizado {date}",
+  'projects.open': "Abrir",
+  'projects.rename': "Cambiar nombre",
+  'projects.export': "Exportar archivo de proyecto",
+  'projects.duplicate': "Duplicar",
+  'projects.confirmDelete': "¿Eliminar «{name}»? Esta acción no se puede deshacer.",
+  'projects.deleteOpen': "Cierra este proyecto antes de eliminarlo",
+  // Prompt library
+  'prompts.title': "Biblioteca de instrucciones",
+  'prompts.counts': "{recent} recientes · {saved} guardadas",
+  'prompts.tab.history': "Historial",
+  'prompts.tab.templates': "Plantillas",
+  'prompts.clearHistory': "Borrar historial",
+  'prompts.use': "Usar",
+  'prompts.removeHistory': "Quitar del historial",
+  'prompts.historyEmpty': "Las instrucciones que envías aparecen aquí con una miniatura de su resultado.",
+  'prompts.historyNote': "Muestra tus instrucciones tal como las escribiste. No incluye las indicaciones de estilo y paleta que se añaden al enviar.",
+  'prompts.historyNote.logo': "Muestra cada brief compilado en inglés; Usar restaura el brief tal como lo escribiste. No incluye las indicaciones de estilo y paleta que se añaden al enviar.",
+  'prompts.deleteTemplate': "Eliminar plantilla",
+  'prompts.templateName': "Nombre de la plantilla",
+  'prompts.saveTemplate': "Guardar plantilla",
+  'prompts.variables': "Variables tomadas del brief: {variables}",
+  // Error messages raised by services
+  'errors.message.auth': "Puede que tu clave de API no tenga acceso o se haya restablecido. Vuelve a seleccionarla.",
+  'errors.message.quota': "Has alcanzado un límite de uso de esta clave de API.",
+  'errors.message.safety': "Los filtros de seguridad del modelo bloquearon la solicitud.",
+  'errors.message.safetyReason': "Los filtros de seguridad del modelo bloquearon la solicitud ({reason}).",
+  'errors.message.network': "No se pudo contactar con el servicio de generación.",
+  'errors.message.videoCancelled': "Se canceló la generación del vídeo.",
+  'errors.message.videoTimeout': "Se agotó el tiempo de generación del vídeo.",
+  'errors.message.noImage': "El modelo no devolvió datos de imagen.",
+  'errors.message.noDownloadLink': "No se pudo obtener el enlace de descarga del vídeo.",
+  'errors.message.download': "No se pudo descargar el vídeo terminado.",
+  'errors.message.downloadStatus': "No se pudo descargar el vídeo terminado (HTTP {status}).",
+  'errors.message.translate': "No se pudo traducir el brief.",
+  'errors.message.noStudioKey': "No se ha seleccionado ninguna clave de API en AI Studio.",
+  'errors.message.noUserKey': "No se ha introducido ninguna clave de API. Añade una en el paso de configuración.",
+  'errors.message.noProxy': "No hay ningún endpoint de proxy configurado.",
+  'errors.message.proxyUnreachable': "No se pudo contactar con el endpoint del proxy.",
+  'errors.message.apiUnreachable': "No se pudo contactar con la API de Gemini.",
+  'errors.message.proxyRejected': "El proxy rechazó la solicitud; revisa la clave configurada en el servidor.",
+  'errors.message.keyRejected': "Se rechazó esta clave de API.",
+  'errors.message.jobLogoMissing': "El logotipo de este trabajo ya no está en el proyecto.",
+  'errors.message.jobInterrupted': "La solicitud se interrumpió antes de que el proveedor la aceptara.",
+  'errors.message.jobNoVideo': "Sin vídeo tras {minutes} min.",
+  'errors.message.jobSaveFailed': "No se pudo guardar el vídeo: {reason}",
+  'errors.message.notProjectFile': "Este no es un archivo de proyecto de WisdomMotion.",
+  'errors.message.noManifest': "El archivo de proyecto no contiene project.json.",
+  'errors.message.newerProject': "Este proyecto se exportó con una versión más reciente de la aplicación.",
+  'errors.message.missingAsset': "Al archivo de proyecto le falta {asset}.",
+  'errors.message.openLibrary': "No se pudo abrir la biblioteca de proyectos.",
+  'errors.message.transaction': "Se interrumpió la transacción de la biblioteca de proyectos.",
+  'errors.message.projectNotFound': "No se encontró el proyecto.",
+  'errors.message.unsupportedImage': "«{name}» no es una imagen compatible. Usa PNG, JPEG, WebP o GIF.",
+  'errors.message.imageTooLarge': "«{name}» ocupa {size} MB; el límite es de {limit} MB.",
+  'errors.message.unreadableImage': "«{name}» no se pudo leer como imagen.",
+  'errors.message.imageTooSmall': "«{name}» mide {width}×{height}px; usa una imagen de al menos {min}px por lado.",
+  'errors.message.videoDecode': "No se pudo decodificar el vídeo en este navegador.",
+  'errors.message.noWebm': "Este navegador no puede grabar vídeo WebM.",
+  'errors.message.webmFailed': "Falló la grabación en WebM.",
+  'errors.message.imageLoad': "No se pudo cargar la imagen.",
+  'errors.message.imageEncode': "No se pudo codificar la imagen.",
+  'errors.message.unknown': "Error desconocido.",
+  'errors.message.validationFailed': "La validación falló (HTTP {status}).",
+  'errors.message.noCanvas': "El contexto 2D de canvas no está disponible.",
+  'errors.message.noFrames': "Una animación necesita al menos un fotograma.",
+  'errors.message.notPng': "No es un archivo PNG.",
+  'errors.message.pngNoHeader': "Al fotograma PNG le falta su cabecera.",
+  'errors.message.noInflate': "Este navegador no puede leer entradas ZIP comprimidas.",
+  'errors.message.notZip': "No es un archivo ZIP.",
+  'errors.message.zipDamaged': "El directorio del ZIP está dañado.",
+  'errors.message.zipMethod': "«{name}» usa un método de compresión ZIP no compatible.",
+  'errors.message.noMediaRecorder': "MediaRecorder no está disponible, así que el proveedor de prueba no puede generar un clip.",
+  'errors.message.mockRecording': "Falló la grabación del clip de prueba.",
+  'errors.message.mockOperation': "Operación de prueba desconocida: {name}",
+  // Usage dashboard
+  'usage.title': "Uso",
+  'usage.scope.project': "Este proyecto",
+  'usage.scope.all': "Todos los proyectos",
+  'usage.today': "Hoy",
+  'usage.total': "Total",
+  'usage.calls': "Llamadas",
+  'usage.failures': "Fallos",
+  'usage.images_one': "{count} imagen",
+  'usage.images_other': "{count} imágenes",
+  'usage.videos_one': "{count} vídeo",
+  'usage.videos_other': "{count} vídeos",
+  'usage.succeeded_one': "{count} correcta",
+  'usage.succeeded_other': "{count} correctas",
+  'usage.notBilled': "no facturada",
+  'usage.estimateNote': "Los costes son estimaciones según la tabla de precios de abajo, no tu factura de Google Cloud.",
+  'usage.lastDays_one': "Último día",
+  'usage.lastDays_other': "Últimos {count} días",
+  'usage.byProject': "Por proyecto",
+  'usage.deletedProject': "Proyecto eliminado",
+  'usage.noProject': "Sin proyecto",
+  'usage.callCount_one': "{count} llamada",
+  'usage.callCount_other': "{count} llamadas",
+  'usage.failedCount_one': "{count} fallida",
+  'usage.failedCount_other': "{count} fallidas",
+  'usage.recentCalls': "Llamadas recientes",
+  'usage.call.image': "Imagen",
+  'usage.call.refine': "Retoque",
+  'usage.call.video': "Vídeo",
+  'usage.call.translate': "Traducción del brief",
+  'usage.budget': "Límites de presupuesto",
+  'usage.dailyLimit': "Límite diario ($)",
+  'usage.projectLimit': "Límite por proyecto ($)",
+  'usage.noLimit': "ninguno",
+  'usage.whenExceeded': "Al superarlo",
+  'usage.action.confirm': "Preguntar antes",
+  'usage.action.block': "Bloquear",
+  'usage.prices': "Tabla de precios (USD)",
+  'usage.resetPrices': "Restablecer",
+  'usage.perImage': "por imagen",
+  'usage.perSecond': "por segundo de vídeo",
+  'usage.perCall': "por llamada",
+  'usage.confirmClear': "¿Borrar todo el uso registrado? Los límites de presupuesto vuelven a contar desde cero.",
+  'usage.clear': "Borrar historial de uso",
+  // Vector version
+  'vector.title': "Versión vectorial",
+  'vector.subtitle': "Trazada en tu navegador en formas de color plano, lista para imprenta.",
+  'vector.colours': "Colores: {value}",
+  'vector.smoothing': "Suavizado: {value}",
+  'vector.raster': "Mapa de bits",
+  'vector.rasterAlt': "Logotipo en mapa de bits",
+  'vector.vectorAlt': "Logotipo vectorizado",
+  'vector.shapes_one': "{count} forma",
+  'vector.shapes_other': "{count} formas",
+  'vector.failed': "Falló la vectorización.",
+  'vector.download': "Descargar SVG",
+  // Video editor
+  'editor.title': "Editar y exportar",
+  'editor.subtitle': "Recorta, repite y vuelve a codificar el clip en tu navegador. No se sube nada.",
+  'editor.start': "Inicio: {time}",
+  'editor.end': "Fin: {time}",
+  'editor.poster': "Fotograma de portada: {time}",
+  'editor.posterAlt': "Fotograma de portada",
+  'editor.downloadPoster': "Descargar portada en PNG",
+  'editor.seamless': "Bucle continuo",
+  'editor.crossFade': "Fundido: {time}",
+  'editor.format.gif': "GIF animado",
+  'editor.format.webm': "Vídeo WebM",
+  'editor.format.apng': "APNG (correo)",
+  'editor.width': "Ancho",
+  'editor.frameRate': "Fotogramas por segundo",
+  'editor.render': "Renderizar {time} en {format}",
+  'editor.decoding': "Decodificando fotograma {done} de {total}...",
+  'editor.recording': "Grabando WebM en tiempo real...",
+  'editor.encoding': "Codificando {format}...",
+  'editor.resultAlt': "Clip renderizado",
+  'editor.download': "Descargar",
+  'editor.loadFailed': "No se pudo cargar el vídeo.",
+  'editor.exportFailed': "Falló la exportación.",
+  'editor.posterFailed': "No se pudo capturar el fotograma de portada.",
+  // Legibility: colour-vision types, findings, colour names and generated alt text
+  'legibility.vision.protanopia': "Protanopía",
+  'legibility.vision.protanopia.description': "Sin conos rojos (alrededor del 1 % de los hombres)",
+  'legibility.vision.deuteranopia': "Deuteranopía",
+  'legibility.vision.deuteranopia.description': "Sin conos verdes (alrededor del 1 % de los hombres)",
+  'legibility.vision.tritanopia': "Tritanopía",
+  'legibility.vision.tritanopia.description': "Sin conos azules (poco frecuente)",
+  'legibility.vision.achromatopsia': "Acromatopsia",
+  'legibility.vision.achromatopsia.description': "Sin ninguna visión del color",
+  'legibility.issue.noArtwork': "No se pudo distinguir ningún elemento del fondo.",
+  'legibility.issue.lowContrast': "El color principal {color} solo tiene un contraste de {ratio} con el fondo; el mínimo para gráficos es {minimum}.",
+  'legibility.issue.fades': "{color} cubre el {share} de la marca con un contraste de {ratio} y puede confundirse con el fondo.",
+  'legibility.issue.washesOut': "Los detalles finos se pierden a {sizes}. Una marca simplificada funciona mejor como favicon o icono de app.",
+  'legibility.issue.visionContrast': "Con {vision}, el contraste del color principal baja a {ratio}.",
+  'legibility.issue.visionConfused': "Con {vision}, {a} y {b} se ven parecidos; no confíes en ellos para distinguir partes.",
+  'legibility.altText': "Texto alternativo",
+  'legibility.regenerate': "Volver a generar",
+  'legibility.altPlaceholder': "Describe el logotipo para quienes usan lectores de pantalla",
+  'legibility.altCount': "{length}/{limit} caracteres. Se incluye en los kits de marca, los archivos de proyecto y las presentaciones.",
+  'legibility.analyseFailed': "No se pudo analizar el logotipo.",
+  'legibility.checking': "Comprobando la legibilidad...",
+  'legibility.findings': "Resultados",
+  'legibility.allClear': "Legible en tamaños pequeños y para los tipos de visión del color comprobados.",
+  'legibility.smallSizes': "Tamaños pequeños",
+  'legibility.sizeAlt': "Render de {size} píxeles",
+  'legibility.colourVision': "Visión del color",
+  'legibility.visionAlt': "Logotipo visto con {vision}",
+  'legibility.contrast': "Contraste con el fondo",
+  'legibility.share': "{share} de la marca",
+  'colors.white': "blanco",
+  'colors.black': "negro",
+  'colors.grey': "gris",
+  'colors.red': "rojo",
+  'colors.orange': "naranja",
+  'colors.yellow': "amarillo",
+  'colors.green': "verde",
+  'colors.teal': "verde azulado",
+  'colors.blue': "azul",
+  'colors.purple': "morado",
+  'colors.pink': "rosa",
+  'colors.dark': "{color} oscuro",
+  'colors.light': "{color} claro",
+  'alt.named': "Logotipo de {name}",
+  'alt.unnamed': "Logotipo",
+  'alt.described': "{subject}: {style}",
+  'alt.inColors': "en {colors}",
+  'alt.style.flat': "símbolo geométrico plano",
+  'alt.style.emblem': "logotipo tipo emblema",
+  'alt.style.wordmark': "logotipo tipográfico",
+  'alt.style.mascot': "logotipo con mascota",
+  // Setup: credentials
+  'credentials.mode.userKey': "Tu clave de API",
+  'credentials.mode.proxy': "Proxy de servidor",
+  'credentials.start': "Empezar",
+  'credentials.aiStudioHint': "Se te pedirá que selecciones una clave de tus proyectos de AI Studio.",
+  'credentials.keySaved': "Guardada en este navegador: la clave que termina en",
+  'credentials.clearKey': "Borrar clave",
+  'credentials.keyPlaceholder': "Clave de API de Gemini",
+  'credentials.keyVerified': "Clave verificada y guardada.",
+  'credentials.verify': "Verificar y guardar",
+  'credentials.keyHint': "La clave se guarda en el almacenamiento local de este navegador y se envía directamente a Google. Para una instalación compartida, usa un proxy de servidor.",
+  'credentials.proxyVerified': "El proxy responde y aceptó la solicitud.",
+  'credentials.test': "Probar y guardar",
+  'credentials.proxyHint': "El proxy reenvía las solicitudes a la API de Gemini y añade la clave en el servidor, así que nunca llega al navegador.",
+  // Design: brand brief
+  'brief.language': "Idioma del brief",
+  'brief.languageHint': "¿Está escrito en otro idioma? Se traduce al inglés antes de enviar la instrucción; el nombre y el eslogan se mantienen tal cual.",
+  'brief.organization': "Organización",
+  'brief.organizationPlaceholder': "p. ej., More Wisdom",
+  'brief.industry': "Sector",
+  'brief.industryPlaceholder': "p. ej., ONG educativa",
+  'brief.tagline': "Eslogan",
+  'brief.taglinePlaceholder': "p. ej., Aprender sin límites",
+  'brief.style': "Estilo",
+  'brief.style.flat': "Plano",
+  'brief.style.emblem': "Emblema",
+  'brief.style.wordmark': "Tipográfico",
+  'brief.style.mascot': "Mascota",
+  'brief.colors': "Colores de marca",
+  'brief.removeColor': "Quitar color",
+  'brief.addColor': "Añadir color",
+  'brief.mood': "Tono",
+  'brief.moodPlaceholder': "Añade una palabra clave...",
+  'brief.details': "Descripción del logotipo",
+  'brief.detailsPlaceholder': "p. ej., con un búho sabio leyendo un libro",
+  'brief.avoid': "Evitar",
+  'brief.avoidPlaceholder': "p. ej., degradados, clip-art, texto pequeño",
+  'brief.suffixToggle': "Sufijo de la instrucción",
+  'brief.suffix': "Sufijo",
+  'brief.finalPrompt': "Instrucción final",
+  // App shell and workflow
+  'app.tagline': "Suite de branding con IA",
+  'app.language': "Idioma",
+  'app.spendTitle': "Gasto estimado hoy",
+  'app.spendToday': "{cost} hoy",
+  'app.inQueue_one': "{count} en cola",
+  'app.inQueue_other': "{count} en cola",
+  'app.queue': "Cola",
+  'app.undo': "Deshacer selección (Ctrl+Z)",
+  'app.redo': "Rehacer selección (Ctrl+Mayús+Z)",
+  'app.nav.projects': "Proyectos",
+  'app.nav.designer': "Diseñador",
+  'app.nav.animator': "Animador",
+  'app.loading.concepts': "Sintetizando conceptos visuales...",
+  'app.loading.proportions': "Perfeccionando las proporciones geométricas...",
+  'app.loading.palettes': "Aplicando paletas de color profesionales...",
+  'app.loading.edges': "Puliendo los bordes vectoriales...",
+  'app.loading.impact': "Optimizando para la educación y el impacto...",
+  'app.loading.touch': "Añadiendo el toque «More Wisdom»...",
+  'app.saveFailed': "No se pudo guardar tu proyecto: {reason}",
+  'app.storageUnavailable': "el almacenamiento no está disponible",
+  'app.openFailed': "No se pudo abrir el proyecto.",
+  'app.projectMissing': "No se encontró ese proyecto. Puede que se haya eliminado.",
+  'app.credentialsNeeded': "Añade una clave de API o un endpoint de proxy para continuar.",
+  'app.credentialsFailed': "No se pudo verificar la clave de API seleccionada. Vuelve a intentarlo.",
+  'app.untitled': "Proyecto sin título",
+  'app.budget.daily': "Esto llevaría el gasto estimado de hoy a {total}, por encima del límite de {limit}.",
+  'app.budget.project': "Esto llevaría el gasto estimado de este proyecto a {total}, por encima del límite de {limit}.",
+  'app.budget.confirm': "¿Continuar de todos modos?",
+  'app.budget.blocked': "Sube el límite en el panel de uso para continuar.",
+  'app.exportFailed': "No se pudo crear la exportación.",
+  'app.animateFailed': "No se pudo animar el logotipo.",
+  'app.generationFailed': "Falló la generación.",
+  'app.footer': "© 2024 WisdomMotion Branding Engine. Con la tecnología de Google Gemini y Veo.",
+  // Setup
+  'setup.title': "Construyamos tu marca.",
+  'setup.intro': "Descubre el potencial de Gemini 3 Pro y Veo. Diseña logotipos de alta fidelidad y anímalos con motion graphics de nivel profesional en segundos.",
+  'setup.openProject': "Abrir un proyecto guardado",
+  'setup.billing': "Requiere una clave de API de un proyecto de pago de Google Cloud.",
+  'setup.billingLink': "Más información sobre la facturación",
+  // Design step
+  'design.title': "Diseña tu logotipo",
+  'design.subtitle': "Rellena el brief de tu marca. Lo convertiremos en una instrucción que podrás revisar antes de generar.",
+  'design.newDesign': "Nuevo diseño",
+  'design.refine': "Retocar",
+  'design.editInstruction': "Instrucción de edición",
+  'design.editPlaceholder': "p. ej., Mantén todo, pero haz el búho azul y el libro un poco más grande.",
+  'design.refineSelected': "Retocar la versión seleccionada",
+  'design.referenceLabel': "Imagen de referencia (opcional)",
+  'design.referenceHint': "Un logotipo existente, un boceto o el dibujo de una mascota. PNG, JPEG, WebP o GIF de hasta 15 MB.",
+  'design.reference.inspire': "Inspiración libre",
+  'design.reference.redraw': "Redibujo fiel",
+  'design.lockedPalette': "Los nuevos diseños se ajustan a la paleta bloqueada",
+  'design.quality': "Calidad de imagen",
+  'design.quality.1K': "Estándar (1K)",
+  'design.quality.2K': "Alta definición (2K)",
+  'design.quality.4K': "Ultra HD (4K)",
+  'design.variations': "Variaciones",
+  'design.single': "Una",
+  'design.options_one': "{count} opción",
+  'design.options_other': "{count} opciones",
+  'design.generate': "Generar",
+  'design.tipTitle': "Consejo",
+  'design.tip': "Mencionar «minimalista», «estilo vectorial» o «diseño plano» da resultados limpios que se animan muy bien. Evita demasiado texto para lograr el mejor impacto visual.",
+  'design.preview.artwork': "Diseño",
+  'design.preview.mockups': "Maquetas",
+  'design.preview.legibility': "Legibilidad",
+  'design.logoFallback': "Logotipo",
+  'design.logoAlt': "Logotipo generado",
+  'design.previewEmpty': "La vista previa de tu logotipo aparecerá aquí",
+  'design.skipToAnimate': "Saltar el diseño y animar la imagen de referencia",
+  'design.applyingEdit': "Aplicando tu edición...",
+  'design.next': "Siguiente: animar este logotipo",
+  // Animate step; presets follow AnimationPresetId and their prompts stay in English
+  'animate.back': "Volver al diseño",
+  'animate.title': "Dale vida",
+  'animate.subtitle': "Describe cómo quieres que se mueva el logotipo. ¡Sé creativo!",
+  'animate.presets': "Ajustes predefinidos",
+  'animate.preset.reveal': "Revelar",
+  'animate.preset.pulse': "Pulso",
+  'animate.preset.particleAssemble': "Ensamblaje de partículas",
+  'animate.preset.parallaxFloat': "Flotación con paralaje",
+  'animate.motion': "Movimiento de la animación",
+  'animate.motionPlaceholder': "p. ej., Las páginas del libro pasan despacio mientras sale el sol al fondo, luz cinematográfica suave, movimiento flotante.",
+  'animate.removePrompt': "Quitar instrucción",
+  'animate.addPrompt': "Añadir otra instrucción",
+  'animate.lockedPalette': "Las animaciones se ajustan a la paleta bloqueada",
+  'animate.formats': "Formatos",
+  'animate.format.landscape': "Horizontal",
+  'animate.format.portrait': "Vertical",
+  'animate.format.square': "Cuadrado",
+  'animate.timeout': "Tiempo de espera",
+  'animate.minutes_one': "{count} minuto",
+  'animate.minutes_other': "{count} minutos",
+  'animate.queue_one': "Poner en cola {count} animación",
+  'animate.queue_other': "Poner en cola {count} animaciones",
+  'animate.animate': "Animar",
+  'animate.aboutTitle': "Acerca de la animación con Veo",
+  'animate.about': "Veo crea un vídeo cinematográfico a partir de tu logotipo. Puedes indicar el tono, la iluminación y el movimiento para una intro de marca profesional. Los trabajos siguen en segundo plano y se reanudan al recargar la página.",
+  'animate.referenceAlt': "Referencia estática del logotipo",
+  'animate.startingFrame': "Veo usará esto como fotograma inicial",
+  'animate.ownImage': "Usar tu propia imagen",
+  'animate.ownImageHint': "Sustituye el fotograma inicial por una imagen o foto subida.",
+  // Result view
+  'view.change': "Cambiar animación",
+  'view.title': "Tu marca animada",
+  'view.createNew': "Crear nuevo",
+  'view.logoDetails': "Detalles del logotipo",
+  'view.thumbnailAlt': "Miniatura",
+  'view.createdWith': "Creado con Gemini 3 Pro",
+  'view.animationStyle': "Estilo de animación",
+  'view.engine': "— Motor de movimiento Veo",
+  'view.download': "Descargar animación",
+  'view.presentation': "Presentación",
+  'view.presentationHint': "Página HTML independiente para las partes interesadas",
+  'view.projectFileHint': "Archivo de proyecto que se puede importar en la aplicación",
+  // Presentation export
+  'presentation.title': "Presentación de marca",
+  'presentation.paletteLocked': "Paleta (bloqueada)",
+  'presentation.contrast': "Sobre blanco {white} · sobre negro {black}",
+  'presentation.logoAlt': "Logotipo de {name}",
+  'presentation.brief': "Brief",
+  'presentation.prompt': "Instrucción",
+  'presentation.animations_one': "Animación",
+  'presentation.animations_other': "Animaciones",
+  'presentation.versions': "Todas las versiones",
+  'presentation.footer': "Hecho con WisdomMotion"
+};
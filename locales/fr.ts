@@ -0,0 +1,504 @@
+import { Messages } from "./en";
+
+export const fr: Messages = {
+  // Design: variation grid
+  'candidates.title': "Variantes",
+  'candidates.readyOf': "{ready} sur {total} prêtes",
+  'candidates.ready_one': "{count} prête",
+  'candidates.ready_other': "{count} prêtes",
+  'candidates.variation': "Variante {number}",
+  'candidates.use': "Utiliser cette variante",
+  'candidates.alt': "Variante de logo {number}",
+  'candidates.unfavorite': "Retirer des favoris",
+  'candidates.favorite': "Garder en favori",
+  'candidates.selected': "Sélectionnée",
+  // Shared
+  'common.cancel': "Annuler",
+  'common.close': "Fermer",
+  'common.dismiss': "Ignorer",
+  'common.optional': "(facultatif)",
+  'common.resetToDefault': "Rétablir la valeur par défaut",
+  'common.unlock': "Déverrouiller",
+  'common.save': "Enregistrer",
+  'common.delete': "Supprimer",
+  // Camera capture
+  'camera.unsupported': "Ce navigateur ne permet pas d'utiliser la caméra.",
+  'camera.denied': "L'accès à la caméra a été refusé ou aucune caméra n'est disponible.",
+  'camera.takePhoto': "Prendre une photo",
+  // Image upload
+  'dropzone.unusable': "L'image n'a pas pu être utilisée.",
+  'dropzone.remove': "Retirer l'image",
+  'dropzone.preparing': "Préparation de l'image...",
+  'dropzone.drop': "Déposez une image ici.",
+  'dropzone.browse': "Parcourir les fichiers",
+  'dropzone.camera': "Prendre une photo",
+  'dropzone.cameraPhoto': "Photo de la caméra",
+  // Design: version history
+  'versions.title': "Historique des versions",
+  'versions.alt': "Version {number}",
+  'versions.original': "Originale",
+  // Brand kit
+  'brandKit.failed': "Impossible de créer le kit de marque.",
+  'brandKit.building': "Préparation du kit de marque...",
+  'brandKit.download': "Télécharger le kit de marque (.zip)",
+  // Animation jobs
+  'jobs.title': "Tâches d'animation",
+  'jobs.status.queued': "En file",
+  'jobs.status.starting': "Envoi",
+  'jobs.status.generating': "Génération",
+  'jobs.status.downloading': "Téléchargement",
+  'jobs.status.succeeded': "Prête",
+  'jobs.status.failed': "Échec",
+  'jobs.status.cancelled': "Annulée",
+  'jobs.status.timedOut': "Délai dépassé",
+  'jobs.retry': "Réessayer",
+  'jobs.view': "Voir",
+  'jobs.checks_one': "{count} vérification d'état",
+  'jobs.checks_other': "{count} vérifications d'état",
+  'jobs.timesOut': "expire après {minutes} min",
+  // Render queue
+  'queue.title': "File de rendu",
+  'queue.parallel': "En parallèle",
+  'queue.empty': "Rien en file. Lancez des animations depuis l'étape Animateur.",
+  'queue.thisProject': "Ce projet",
+  'queue.otherProjects': "Autres projets",
+  'queue.results': "Résultats",
+  // Error banner; titles and hints per GenerationErrorKind
+  'errors.auth.title': "Problème de clé API",
+  'errors.auth.hint': "Sélectionnez une clé d'un projet Google Cloud payant où l'API Gemini est activée.",
+  'errors.quota.title': "Limite d'utilisation atteinte",
+  'errors.quota.hint': "Patientez une minute avant de réessayer, ou vérifiez les limites de votre clé.",
+  'errors.safety.title': "Bloqué par les filtres de sécurité",
+  'errors.safety.hint': "Reformulez le brief ou l'instruction en évitant les personnes réelles, les marques et les sujets sensibles.",
+  'errors.noImage.title': "Aucune image renvoyée",
+  'errors.noImage.hint': "Le modèle a répondu sans image. Réessayer suffit généralement.",
+  'errors.network.title': "Problème de connexion",
+  'errors.network.hint': "Vérifiez votre connexion, puis réessayez.",
+  'errors.download.title': "Échec du téléchargement",
+  'errors.download.hint': "Le résultat a été généré mais n'a pas pu être récupéré. Réessayez.",
+  'errors.timeout.title': "Trop long",
+  'errors.timeout.hint': "En période de forte charge, la génération vidéo peut prendre plusieurs minutes. Réessayer double le délai.",
+  'errors.cancelled.title': "Annulé",
+  'errors.cancelled.hint': "La requête a été arrêtée avant la fin.",
+  'errors.unknown.title': "Une erreur est survenue",
+  'errors.unknown.hint': "Réessayez dans un instant.",
+  'errors.reselectKey': "Resélectionner la clé API",
+  'errors.rateLimits': "Voir les limites de débit",
+  'errors.editBrief': "Modifier le brief",
+  'errors.tryAgain': "Réessayer",
+  // Mockups; scene names follow MockupId, file names stay in English
+  'mockups.scene.businessCard': "Carte de visite",
+  'mockups.scene.websiteHeader': "En-tête de site",
+  'mockups.scene.tshirt': "T-shirt",
+  'mockups.scene.appIcon': "Icône d'app",
+  'mockups.scene.darkBackground': "Sur fond sombre",
+  'mockups.scene.lightBackground': "Sur fond clair",
+  'mockups.alt': "Maquette : {scene}",
+  'mockups.prepareFailed': "Impossible de préparer le logo.",
+  'mockups.renderFailed': "Impossible de générer la maquette.",
+  'mockups.exportPng': "Exporter en PNG",
+  'mockups.exportAll': "Tout exporter",
+  // Palette
+  'palette.title': "Palette",
+  'palette.analysing': "Analyse des couleurs...",
+  'palette.locked': "Verrouillée",
+  'palette.lock': "Verrouiller la palette",
+  'palette.lockedLabel': "Verrouillée :",
+  'palette.drift_one': "{count} couleur hors palette",
+  'palette.drift_other': "{count} couleurs hors palette",
+  'palette.onWhite': "Contraste sur blanc",
+  'palette.onBlack': "Contraste sur noir",
+  'palette.rating.aaa': "AAA",
+  'palette.rating.aa': "AA",
+  'palette.rating.aaLarge': "AA grand texte",
+  'palette.rating.fail': "Insuffisant",
+  // Project library
+  'projects.title': "Vos projets",
+  'projects.subtitle': "Chaque logo et chaque animation que vous générez est enregistré dans ce navigateur.",
+  'projects.import': "Importer",
+  'projects.new': "Nouveau projet",
+  'projects.loading': "Chargement des projets...",
+  'projects.empty': "Aucun projet enregistré pour l'instant. Générez un logo pour en commencer un.",
+  'projects.loadFailed': "Impossible de charger vos projets.",
+  'projects.actionFailed': "Cette action n'a pas pu aboutir.",
+  'projects.step.draft': "Brouillon",
+  'projects.step.design': "En conception",
+  'projects.step.animate': "En animation",
+  'projects.step.view': "Animé",
+  'projects.logos_one': "{count} logo",
+  'projects.logos_other': "{count} logos",
+  'projects.animations_one': "{count} animation",
+  'projects.animations_other': "{count} animations",
+  'projects.updated': "Mis à jour le {date}",
+  'projects.open': "Ouvrir",
+  'projects.rename': "Renommer",
+  'projects.export': "Exporter le fichier de projet",
+  'projects.duplicate': "Dupliquer",
+  'projects.confirmDelete': "Supprimer « {name} » ? Cette action est irréversible.",
+  'projects.deleteOpen': "Fermez ce projet avant de le supprimer",
+  // Prompt library
+  'prompts.title': "Bibliothèque d'instructions",
+  'prompts.counts': "{recent} récentes · {saved} enregistrées",
+  'prompts.tab.history': "Historique",
+  'prompts.tab.templates': "Modèles",
+  'prompts.clearHistory': "Effacer l'historique",
+  'prompts.use': "Utiliser",
+  'prompts.removeHistory': "Retirer de l'historique",
+  'prompts.historyEmpty': "Les instructions que vous envoyez apparaissent ici avec une miniature de leur résultat.",
+  'prompts.historyNote': "Affiche vos instructions telles que saisies. Les consignes de style et de palette ajoutées à l'envoi n'y figurent pas.",
+  'prompts.historyNote.logo': "Affiche chaque brief compilé en anglais ; Utiliser restaure le brief tel que vous l'avez écrit. Les consignes de style et de palette ajoutées à l'envoi n'y figurent pas.",
+  'prompts.deleteTemplate': "Supprimer le modèle",
+  'prompts.templateName': "Nom du modèle",
+  'prompts.saveTemplate': "Enregistrer le modèle",
+  'prompts.variables': "Variables tirées du brief : {variables}",
+  // Error messages raised by services
+  'errors.message.auth': "Votre clé API n'a peut-être pas accès ou a été réinitialisée. Veuillez la resélectionner.",
+  'errors.message.quota': "Vous avez atteint une limite d'utilisation pour cette clé API.",
+  'errors.message.safety': "La requête a été bloquée par les filtres de sécurité du modèle.",
+  'errors.message.safetyReason': "La requête a été bloquée par les filtres de sécurité du modèle ({reason}).",
+  'errors.message.network': "Le service de génération est injoignable.",
+  'errors.message.videoCancelled': "La génération vidéo a été annulée.",
+  'errors.message.videoTimeout': "La génération vidéo a dépassé le délai.",
+  'errors.message.noImage': "Le modèle n'a renvoyé aucune donnée d'image.",
+  'errors.message.noDownloadLink': "Impossible d'obtenir le lien de téléchargement de la vidéo.",
+  'errors.message.download': "La vidéo terminée n'a pas pu être téléchargée.",
+  'errors.message.downloadStatus': "La vidéo terminée n'a pas pu être téléchargée (HTTP {status}).",
+  'errors.message.translate': "Le brief n'a pas pu être traduit.",
+  'errors.message.noStudioKey': "Aucune clé API n'a été sélectionnée dans AI Studio.",
+  'errors.message.noUserKey': "Aucune clé API n'a été saisie. Ajoutez-en une à l'étape de configuration.",
+  'errors.message.noProxy': "Aucun point de terminaison de proxy n'est configuré.",
+  'errors.message.proxyUnreachable': "Le point de terminaison du proxy est injoignable.",
+  'errors.message.apiUnreachable': "L'API Gemini est injoignable.",
+  'errors.message.proxyRejected': "Le proxy a refusé la requête ; vérifiez la clé configurée sur le serveur.",
+  'errors.message.keyRejected': "Cette clé API a été refusée.",
+  'errors.message.jobLogoMissing': "Le logo de cette tâche ne fait plus partie du projet.",
+  'errors.message.jobInterrupted': "La requête a été interrompue avant d'être acceptée par le fournisseur.",
+  'errors.message.jobNoVideo': "Aucune vidéo après {minutes} min.",
+  'errors.message.jobSaveFailed': "Impossible d'enregistrer la vidéo : {reason}",
+  'errors.message.notProjectFile': "Ce n'est pas un fichier de projet WisdomMotion.",
+  'errors.message.noManifest': "Le fichier de projet ne contient pas de project.json.",
+  'errors.message.newerProject': "Ce projet a été exporté par une version plus récente de l'application.",
+  'errors.message.missingAsset': "Il manque {asset} dans le fichier de projet.",
+  'errors.message.openLibrary': "Impossible d'ouvrir la bibliothèque de projets.",
+  'errors.message.transaction': "La transaction de la bibliothèque de projets a été interrompue.",
+  'errors.message.projectNotFound': "Projet introuvable.",
+  'errors.message.unsupportedImage': "« {name} » n'est pas une image prise en charge. Utilisez PNG, JPEG, WebP ou GIF.",
+  'errors.message.imageTooLarge': "« {name} » pèse {size} Mo ; la limite est de {limit} Mo.",
+  'errors.message.unreadableImage': "« {name} » n'a pas pu être lu comme une image.",
+  'errors.message.imageTooSmall': "« {name} » mesure {width}×{height} px ; utilisez une image d'au moins {min} px de côté.",
+  'errors.message.videoDecode': "La vidéo n'a pas pu être décodée dans ce navigateur.",
+  'errors.message.noWebm': "Ce navigateur ne peut pas enregistrer de vidéo WebM.",
+  'errors.message.webmFailed': "L'enregistrement WebM a échoué.",
+  'errors.message.imageLoad': "Impossible de charger l'image.",
+  'errors.message.imageEncode': "Impossible d'encoder l'image.",
+  'errors.message.unknown': "Erreur inconnue.",
+  'errors.message.validationFailed': "La validation a échoué (HTTP {status}).",
+  'errors.message.noCanvas': "Le contexte 2D du canvas n'est pas disponible.",
+  'errors.message.noFrames': "Une animation doit contenir au moins une image.",
+  'errors.message.notPng': "Ce n'est pas un fichier PNG.",
+  'errors.message.pngNoHeader': "Il manque l'en-tête de l'image PNG.",
+  'errors.message.noInflate': "Ce navigateur ne peut pas lire les entrées ZIP compressées.",
+  'errors.message.notZip': "Ce n'est pas une archive ZIP.",
+  'errors.message.zipDamaged': "Le répertoire du ZIP est endommagé.",
+  'errors.message.zipMethod': "« {name} » utilise une méthode de compression ZIP non prise en charge.",
+  'errors.message.noMediaRecorder': "MediaRecorder n'est pas disponible : le fournisseur de test ne peut pas produire de clip.",
+  'errors.message.mockRecording': "L'enregistrement du clip de test a échoué.",
+  'errors.message.mockOperation': "Opération de test inconnue : {name}",
+  // Usage dashboard
+  'usage.title': "Utilisation",
+  'usage.scope.project': "Ce projet",
+  'usage.scope.all': "Tous les projets",
+  'usage.today': "Aujourd'hui",
+  'usage.total': "Total",
+  'usage.calls': "Appels",
+  'usage.failures': "Échecs",
+  'usage.images_one': "{count} image",
+  'usage.images_other': "{count} images",
+  'usage.videos_one': "{count} vidéo",
+  'usage.videos_other': "{count} vidéos",
+  'usage.succeeded_one': "{count} réussi",
+  'usage.succeeded_other': "{count} réussis",
+  'usage.notBilled': "non facturé",
+  'usage.estimateNote': "Les coûts sont estimés d'après le tableau des tarifs ci-dessous ; ce n'est pas votre facture Google Cloud.",
+  'usage.lastDays_one': "Dernier jour",
+  'usage.lastDays_other': "{count} derniers jours",
+  'usage.byProject': "Par projet",
+  'usage.deletedProject': "Projet supprimé",
+  'usage.noProject': "Sans projet",
+  'usage.callCount_one': "{count} appel",
+  'usage.callCount_other': "{count} appels",
+  'usage.failedCount_one': "{count} échec",
+  'usage.failedCount_other': "{count} échecs",
+  'usage.recentCalls': "Appels récents",
+  'usage.call.image': "Image",
+  'usage.call.refine': "Retouche",
+  'usage.call.video': "Vidéo",
+  'usage.call.translate': "Traduction du brief",
+  'usage.budget': "Plafonds de budget",
+  'usage.dailyLimit': "Limite quotidienne ($)",
+  'usage.projectLimit': "Limite par projet ($)",
+  'usage.noLimit': "aucune",
+  'usage.whenExceeded': "En cas de dépassement",
+  'usage.action.confirm': "Demander d'abord",
+  'usage.action.block': "Bloquer",
+  'usage.prices': "Tableau des tarifs (USD)",
+  'usage.resetPrices': "Rétablir",
+  'usage.perImage': "par image",
+  'usage.perSecond': "par seconde de vidéo",
+  'usage.perCall': "par appel",
+  'usage.confirmClear': "Effacer toute l'utilisation enregistrée ? Les plafonds de budget repartent de zéro.",
+  'usage.clear': "Effacer l'historique d'utilisation",
+  // Vector version
+  'vector.title': "Version vectorielle",
+  'vector.subtitle': "Vectorisée dans votre navigateur en aplats de couleur, prête pour l'imprimeur.",
+  'vector.colours': "Couleurs : {value}",
+  'vector.smoothing': "Lissage : {value}",
+  'vector.raster': "Matriciel",
+  'vector.rasterAlt': "Logo matriciel",
+  'vector.vectorAlt': "Logo vectorisé",
+  'vector.shapes_one': "{count} forme",
+  'vector.shapes_other': "{count} formes",
+  'vector.failed': "La vectorisation a échoué.",
+  'vector.download': "Télécharger le SVG",
+  // Video editor
+  'editor.title': "Modifier et exporter",
+  'editor.subtitle': "Coupez, bouclez et réencodez le clip dans votre navigateur. Rien n'est envoyé.",
+  'editor.start': "Début : {time}",
+  'editor.end': "Fin : {time}",
+  'editor.poster': "Image d'aperçu : {time}",
+  'editor.posterAlt': "Image d'aperçu",
+  'editor.downloadPoster': "Télécharger l'aperçu en PNG",
+  'editor.seamless': "Boucle continue",
+  'editor.crossFade': "Fondu enchaîné : {time}",
+  'editor.format.gif': "GIF animé",
+  'editor.format.webm': "Vidéo WebM",
+  'editor.format.apng': "APNG (e-mail)",
+  'editor.width': "Largeur",
+  'editor.frameRate': "Images par seconde",
+  'editor.render': "Rendre {time} en {format}",
+  'editor.decoding': "Décodage de l'image {done} sur {total}...",
+  'editor.recording': "Enregistrement WebM en temps réel...",
+  'editor.encoding': "Encodage {format}...",
+  'editor.resultAlt': "Clip rendu",
+  'editor.download': "Télécharger",
+  'editor.loadFailed': "La vidéo n'a pas pu être chargée.",
+  'editor.exportFailed': "L'export a échoué.",
+  'editor.posterFailed': "Impossible de capturer l'image d'aperçu.",
+  // Legibility: colour-vision types, findings, colour names and generated alt text
+  'legibility.vision.protanopia': "Protanopie",
+  'legibility.vision.protanopia.description': "Pas de cônes rouges (environ 1 % des hommes)",
+  'legibility.vision.deuteranopia': "Deutéranopie",
+  'legibility.vision.deuteranopia.description': "Pas de cônes verts (environ 1 % des hommes)",
+  'legibility.vision.tritanopia': "Tritanopie",
+  'legibility.vision.tritanopia.description': "Pas de cônes bleus (rare)",
+  'legibility.vision.achromatopsia': "Achromatopsie",
+  'legibility.vision.achromatopsia.description': "Aucune vision des couleurs",
+  'legibility.issue.noArtwork': "Aucun motif ne se distingue de l'arrière-plan.",
+  'legibility.issue.lowContrast': "La couleur principale {color} n'a qu'un contraste de {ratio} avec l'arrière-plan ; le minimum pour les graphismes est {minimum}.",
+  'legibility.issue.fades': "{color} couvre {share} du logo avec un contraste de {ratio} et risque de se fondre dans l'arrière-plan.",
+  'legibility.issue.washesOut': "Les détails fins disparaissent à {sizes}. Un logo simplifié fonctionne mieux comme favicon ou icône d'app.",
+  'legibility.issue.visionContrast': "Avec une {vision}, le contraste de la couleur principale tombe à {ratio}.",
+  'legibility.issue.visionConfused': "Avec une {vision}, {a} et {b} se ressemblent ; ne comptez pas sur eux pour distinguer des éléments.",
+  'legibility.altText': "Texte alternatif",
+  'legibility.regenerate': "Régénérer",
+  'legibility.altPlaceholder': "Décrivez le logo pour les utilisateurs de lecteurs d'écran",
+  'legibility.altCount': "{length}/{limit} caractères. Inclus dans les kits de marque, les fichiers de projet et les présentations.",
+  'legibility.analyseFailed': "Impossible d'analyser le logo.",
+  'legibility.checking': "Vérification de la lisibilité...",
+  'legibility.findings': "Constats",
+  'legibility.allClear': "Lisible en petite taille et pour les types de vision des couleurs vérifiés.",
+  'legibility.smallSizes': "Petites tailles",
+  'legibility.sizeAlt': "Rendu de {size} pixels",
+  'legibility.colourVision': "Vision des couleurs",
+  'legibility.visionAlt': "Logo vu avec une {vision}",
+  'legibility.contrast': "Contraste avec l'arrière-plan",
+  'legibility.share': "{share} du logo",
+  'colors.white': "blanc",
+  'colors.black': "noir",
+  'colors.grey': "gris",
+  'colors.red': "rouge",
+  'colors.orange': "orange",
+  'colors.yellow': "jaune",
+  'colors.green': "vert",
+  'colors.teal': "bleu canard",
+  'colors.blue': "bleu",
+  'colors.purple': "violet",
+  'colors.pink': "rose",
+  'colors.dark': "{color} foncé",
+  'colors.light': "{color} clair",
+  'alt.named': "Logo de {name}",
+  'alt.unnamed': "Logo",
+  'alt.described': "{subject} : {style}",
+  'alt.inColors': "en {colors}",
+  'alt.style.flat': "symbole géométrique en aplat",
+  'alt.style.emblem': "logo emblème",
+  'alt.style.wordmark': "logotype typographique",
+  'alt.style.mascot': "logo avec mascotte",
+  // Setup: credentials
+  'credentials.mode.userKey': "Votre clé API",
+  'credentials.mode.proxy': "Proxy serveur",
+  'credentials.start': "Commencer",
+  'credentials.aiStudioHint': "Il vous sera demandé de sélectionner une clé parmi vos projets AI Studio.",
+  'credentials.keySaved': "Enregistrée dans ce navigateur : la clé se terminant par",
+  'credentials.clearKey': "Effacer la clé",
+  'credentials.keyPlaceholder': "Clé API Gemini",
+  'credentials.keyVerified': "Clé vérifiée et enregistrée.",
+  'credentials.verify': "Vérifier et enregistrer",
+  'credentials.keyHint': "La clé est conservée dans le stockage local de ce navigateur et envoyée directement à Google. Pour un déploiement partagé, utilisez plutôt un proxy serveur.",
+  'credentials.proxyVerified': "Le proxy est joignable et a accepté la requête.",
+  'credentials.test': "Tester et enregistrer",
+  'credentials.proxyHint': "Le proxy transmet les requêtes à l'API Gemini et ajoute la clé côté serveur ; elle n'atteint donc jamais le navigateur.",
+  // Design: brand brief
+  'brief.language': "Langue du brief",
+  'brief.languageHint': "Rédigé dans une autre langue ? Il est traduit en anglais avant l'envoi de l'instruction ; le nom et le slogan restent tels que saisis.",
+  'brief.organization': "Organisation",
+  'brief.organizationPlaceholder': "ex. : More Wisdom",
+  'brief.industry': "Secteur",
+  'brief.industryPlaceholder': "ex. : association éducative",
+  'brief.tagline': "Slogan",
+  'brief.taglinePlaceholder': "ex. : Apprendre sans limites",
+  'brief.style': "Style",
+  'brief.style.flat': "Aplat",
+  'brief.style.emblem': "Emblème",
+  'brief.style.wordmark': "Logotype",
+  'brief.style.mascot': "Mascotte",
+  'brief.colors': "Couleurs de marque",
+  'brief.removeColor': "Retirer la couleur",
+  'brief.addColor': "Ajouter une couleur",
+  'brief.mood': "Ambiance",
+  'brief.moodPlaceholder': "Ajouter un mot-clé...",
+  'brief.details': "Description du logo",
+  'brief.detailsPlaceholder': "ex. : représentant une chouette sage lisant un livre",
+  'brief.avoid': "À éviter",
+  'brief.avoidPlaceholder': "ex. : dégradés, clip-art, petit texte",
+  'brief.suffixToggle': "Suffixe de l'instruction",
+  'brief.suffix': "Suffixe",
+  'brief.finalPrompt': "Instruction finale",
+  // App shell and workflow
+  'app.tagline': "Suite de branding IA",
+  'app.language': "Langue",
+  'app.spendTitle': "Dépense estimée aujourd'hui",
+  'app.spendToday': "{cost} aujourd'hui",
+  'app.inQueue_one': "{count} en file",
+  'app.inQueue_other': "{count} en file",
+  'app.queue': "File",
+  'app.undo': "Annuler la sélection (Ctrl+Z)",
+  'app.redo': "Rétablir la sélection (Ctrl+Maj+Z)",
+  'app.nav.projects': "Projets",
+  'app.nav.designer': "Concepteur",
+  'app.nav.animator': "Animateur",
+  'app.loading.concepts': "Synthèse des concepts visuels...",
+  'app.loading.proportions': "Ajustement des proportions géométriques...",
+  'app.loading.palettes': "Application de palettes professionnelles...",
+  'app.loading.edges': "Finition des contours vectoriels...",
+  'app.loading.impact': "Optimisation pour l'éducation et l'impact...",
+  'app.loading.touch': "Ajout de la touche « More Wisdom »...",
+  'app.saveFailed': "Impossible d'enregistrer votre projet : {reason}",
+  'app.storageUnavailable': "le stockage est indisponible",
+  'app.openFailed': "Impossible d'ouvrir le projet.",
+  'app.projectMissing': "Ce projet est introuvable. Il a peut-être été supprimé.",
+  'app.credentialsNeeded': "Ajoutez une clé API ou un point de terminaison de proxy pour continuer.",
+  'app.credentialsFailed': "Impossible de vérifier la clé API sélectionnée. Veuillez réessayer.",
+  'app.untitled': "Projet sans titre",
+  'app.budget.daily': "La dépense estimée d'aujourd'hui passerait à {total}, au-delà du plafond de {limit}.",
+  'app.budget.project': "La dépense estimée de ce projet passerait à {total}, au-delà du plafond de {limit}.",
+  'app.budget.confirm': "Continuer quand même ?",
+  'app.budget.blocked': "Relevez le plafond dans le panneau Utilisation pour continuer.",
+  'app.exportFailed': "L'export n'a pas pu être créé.",
+  'app.animateFailed': "Impossible d'animer le logo.",
+  'app.generationFailed': "La génération a échoué.",
+  'app.footer': "© 2024 WisdomMotion Branding Engine. Propulsé par Google Gemini et Veo.",
+  // Setup
+  'setup.title': "Construisons votre marque.",
+  'setup.intro': "Découvrez la puissance de Gemini 3 Pro et de Veo. Concevez des logos haute fidélité et animez-les avec un motion design de qualité professionnelle en quelques secondes.",
+  'setup.openProject': "Ouvrir un projet enregistré",
+  'setup.billing': "Nécessite une clé API d'un projet Google Cloud payant.",
+  'setup.billingLink': "En savoir plus sur la facturation",
+  // Design step
+  'design.title': "Concevez votre logo",
+  'design.subtitle': "Remplissez le brief de votre marque. Nous en ferons une instruction que vous pourrez relire avant de générer.",
+  'design.newDesign': "Nouveau design",
+  'design.refine': "Retoucher",
+  'design.editInstruction': "Instruction de retouche",
+  'design.editPlaceholder': "ex. : Gardez tout, mais rendez la chouette bleue et le livre un peu plus grand.",
+  'design.refineSelected': "Retoucher la version sélectionnée",
+  'design.referenceLabel': "Image de référence (facultatif)",
+  'design.referenceHint': "Un logo existant, un croquis ou le dessin d'une mascotte. PNG, JPEG, WebP ou GIF jusqu'à 15 Mo.",
+  'design.reference.inspire': "Inspiration libre",
+  'design.reference.redraw': "Redessin fidèle",
+  'design.lockedPalette': "Les nouveaux designs respectent la palette verrouillée",
+  'design.quality': "Qualité d'image",
+  'design.quality.1K': "Standard (1K)",
+  'design.quality.2K': "Haute définition (2K)",
+  'design.quality.4K': "Ultra HD (4K)",
+  'design.variations': "Variantes",
+  'design.single': "Une seule",
+  'design.options_one': "{count} option",
+  'design.options_other': "{count} options",
+  'design.generate': "Générer",
+  'design.tipTitle': "Astuce",
+  'design.tip': "Mentionner « minimaliste », « style vectoriel » ou « design plat » donne des résultats nets qui s'animent très bien. Évitez trop de texte pour un meilleur impact visuel.",
+  'design.preview.artwork': "Visuel",
+  'design.preview.mockups': "Maquettes",
+  'design.preview.legibility': "Lisibilité",
+  'design.logoFallback': "Logo",
+  'design.logoAlt': "Logo généré",
+  'design.previewEmpty': "L'aperçu de votre logo apparaîtra ici",
+  'design.skipToAnimate': "Passer le design et animer l'image de référence",
+  'design.applyingEdit': "Application de votre retouche...",
+  'design.next': "Suivant : animer ce logo",
+  // Animate step; presets follow AnimationPresetId and their prompts stay in English
+  'animate.back': "Retour au design",
+  'animate.title': "Donnez-lui vie",
+  'animate.subtitle': "Décrivez comment le logo doit bouger. Laissez parler votre créativité !",
+  'animate.presets': "Préréglages",
+  'animate.preset.reveal': "Révélation",
+  'animate.preset.pulse': "Pulsation",
+  'animate.preset.particleAssemble': "Assemblage de particules",
+  'animate.preset.parallaxFloat': "Flottement parallaxe",
+  'animate.motion': "Mouvement de l'animation",
+  'animate.motionPlaceholder': "ex. : Les pages du livre tournent lentement tandis que le soleil se lève en arrière-plan, lumière douce et cinématographique, léger mouvement flottant.",
+  'animate.removePrompt': "Retirer l'instruction",
+  'animate.addPrompt': "Ajouter une autre instruction",
+  'animate.lockedPalette': "Les animations respectent la palette verrouillée",
+  'animate.formats': "Formats",
+  'animate.format.landscape': "Paysage",
+  'animate.format.portrait': "Portrait",
+  'animate.format.square': "Carré",
+  'animate.timeout': "Délai",
+  'animate.minutes_one': "{count} minute",
+  'animate.minutes_other': "{count} minutes",
+  'animate.queue_one': "Mettre {count} animation en file",
+  'animate.queue_other': "Mettre {count} animations en file",
+  'animate.animate': "Animer",
+  'animate.aboutTitle': "À propos de l'animation Veo",
+  'animate.about': "Veo crée une vidéo cinématographique à partir de votre logo. Vous pouvez préciser l'ambiance, l'éclairage et le mouvement pour une intro de marque professionnelle. Les tâches continuent en arrière-plan et reprennent après un rechargement de la page.",
+  'animate.referenceAlt': "Référence fixe du logo",
+  'animate.startingFrame': "Veo utilisera ceci comme image de départ",
+  'animate.ownImage': "Utiliser votre propre image",
+  'animate.ownImageHint': "Remplace l'image de départ par une image ou une photo importée.",
+  // Result view
+  'view.change': "Changer l'animation",
+  'view.title': "Votre marque animée",
+  'view.createNew': "Créer un nouveau",
+  'view.logoDetails': "Détails du logo",
+  'view.thumbnailAlt': "Miniature",
+  'view.createdWith': "Créé avec Gemini 3 Pro",
+  'view.animationStyle': "Style d'animation",
+  'view.engine': "— Moteur de mouvement Veo",
+  'view.download': "Télécharger l'animation",
+  'view.presentation': "Présentation",
+  'view.presentationHint': "Page HTML autonome pour les parties prenantes",
+  'view.projectFileHint': "Fichier de projet importable dans l'application",
+  // Presentation export
+  'presentation.title': "Présentation de marque",
+  'presentation.paletteLocked': "Palette (verrouillée)",
+  'presentation.contrast': "Sur blanc {white} · sur noir {black}",
+  'presentation.logoAlt': "Logo de {name}",
+  'presentation.brief': "Brief",
+  'presentation.prompt': "Instruction",
+  'presentation.animations_one': "Animation",
+  'presentation.animations_other': "Animations",
+  'presentation.versions': "Toutes les versions",
+  'presentation.footer': "Réalisé avec WisdomMotion"
+};
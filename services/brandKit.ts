@@ -0,0 +1,198 @@
+import { LogoData } from "../types";
+import { createZip, textEntry, ZipEntry } from "./zip";
+import { base64ToBytes, concatBytes } from "./binary";
+import { loadImage, createCanvas, canvasToBlob, blobToBytes, slugify } from "./imageUtils";
+import { sampleBackground, extractPalette, paletteToJson, paletteToAse } from "./palette";
+
+export interface BrandKitFile {
+  path: string;
+  width: number;
+  height: number;
+  purpose: string;
+}
+
+const PNG_SIZES = [16, 32, 48, 64, 128, 192, 256, 512, 1024];
+const FAVICON_SIZES = [16, 32, 48];
+const APPLE_TOUCH_SIZE = 180;
+
+const SOCIAL_CROPS = [
+  { path: 'social/og-image.png', width: 1200, height: 630, purpose: 'Open Graph share image' },
+  { path: 'social/twitter-card.png', width: 1200, height: 600, purpose: 'X / Twitter summary card' },
+  { path: 'social/linkedin-banner.png', width: 1584, height: 396, purpose: 'LinkedIn page banner' },
+  { path: 'social/square-post.png', width: 1080, height: 1080, purpose: 'Square social post' }
+];
+
+// Colour distance (per channel, 0-255) still treated as background.
+const BACKGROUND_TOLERANCE = 40;
+
+type Rgb = [number, number, number];
+
+const toHex = ([r, g, b]: Rgb) => `#${[r, g, b].map(v => v.toString(16).padStart(2, '0')).join('')}`;
+
+// Flood-fills from the image border and clears every connected pixel close
+// to the background colour, so white details inside the mark survive. Pixels
+// near the tolerance edge get partial alpha to keep antialiasing smooth.
+export const removeBackground = (source: ImageData, tolerance = BACKGROUND_TOLERANCE): ImageData => {
+  const { width, height } = source;
+  const out = new ImageData(new Uint8ClampedArray(source.data), width, height);
+  const background = sampleBackground(source);
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [];
+
+  const distance = (index: number) => Math.max(
+    Math.abs(out.data[index * 4] - background[0]),
+    Math.abs(out.data[index * 4 + 1] - background[1]),
+    Math.abs(out.data[index * 4 + 2] - background[2])
+  );
+
+  for (let x = 0; x < width; x++) stack.push(x, (height - 1) * width + x);
+  for (let y = 0; y < height; y++) stack.push(y * width, y * width + width - 1);
+
+  while (stack.length) {
+    const index = stack.pop()!;
+    if (visited[index]) continue;
+    visited[index] = 1;
+    const d = distance(index);
+    if (d > tolerance) continue;
+
+    out.data[index * 4 + 3] = Math.round(255 * Math.max(0, (d - tolerance / 2) / (tolerance / 2)));
+
+    const x = index % width;
+    const y = (index - x) / width;
+    if (x > 0) stack.push(index - 1);
+    if (x < width - 1) stack.push(index + 1);
+    if (y > 0) stack.push(index - width);
+    if (y < height - 1) stack.push(index + width);
+  }
+
+  return out;
+};
+
+const drawContained = (
+  image: CanvasImageSource,
+  sourceSize: number,
+  width: number,
+  height: number,
+  options: { background?: string; scale?: number } = {}
+) => {
+  const { canvas, ctx } = createCanvas(width, height);
+  if (options.background) {
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  const side = Math.min(width, height) * (options.scale ?? 1);
+  ctx.drawImage(image, 0, 0, sourceSize, sourceSize, (width - side) / 2, (height - side) / 2, side, side);
+  return canvas;
+};
+
+const pngBytes = async (canvas: HTMLCanvasElement) => blobToBytes(await canvasToBlob(canvas));
+
+// ICO container holding PNG-encoded images (supported since Windows Vista and
+// by every current browser).
+export const createIco = (images: { size: number; data: Uint8Array }[]): Uint8Array => {
+  const header = new Uint8Array(6 + images.length * 16);
+  const view = new DataView(header.buffer);
+  view.setUint16(2, 1, true);
+  view.setUint16(4, images.length, true);
+
+  let offset = header.length;
+  images.forEach(({ size, data }, i) => {
+    const entry = 6 + i * 16;
+    header[entry] = size >= 256 ? 0 : size;
+    header[entry + 1] = size >= 256 ? 0 : size;
+    view.setUint16(entry + 4, 1, true);
+    view.setUint16(entry + 6, 32, true);
+    view.setUint32(entry + 8, data.length, true);
+    view.setUint32(entry + 12, offset, true);
+    offset += data.length;
+  });
+
+  return concatBytes([header, ...images.map(image => image.data)]);
+};
+
+export const buildBrandKit = async (logo: LogoData, name: string): Promise<Blob> => {
+  const image = await loadImage(logo.url);
+  const sourceSize = Math.min(image.naturalWidth, image.naturalHeight);
+
+  const { canvas: sourceCanvas, ctx: sourceCtx } = createCanvas(sourceSize, sourceSize);
+  sourceCtx.drawImage(image, 0, 0);
+  const sourceData = sourceCtx.getImageData(0, 0, sourceSize, sourceSize);
+  const background = toHex(sampleBackground(sourceData));
+
+  const { canvas: transparent, ctx: transparentCtx } = createCanvas(sourceSize, sourceSize);
+  transparentCtx.putImageData(removeBackground(sourceData), 0, 0);
+
+  const entries: ZipEntry[] = [];
+  const files: BrandKitFile[] = [];
+  const add = (path: string, data: Uint8Array, width: number, height: number, purpose: string) => {
+    entries.push({ name: path, data });
+    files.push({ path, width, height, purpose });
+  };
+
+  const extension = logo.mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+  add(`original.${extension}`, base64ToBytes(logo.base64), sourceSize, sourceSize, 'Original generated artwork');
+
+  for (const size of PNG_SIZES) {
+    add(`png/logo-${size}.png`, await pngBytes(drawContained(sourceCanvas, sourceSize, size, size)), size, size, 'Logo on original background');
+  }
+  add('png/logo-transparent.png', await pngBytes(transparent), sourceSize, sourceSize, 'Logo with background removed');
+  for (const size of [256, 512]) {
+    add(`png/logo-transparent-${size}.png`, await pngBytes(drawContained(transparent, sourceSize, size, size)), size, size, 'Logo with background removed');
+  }
+
+  const favicons = [];
+  for (const size of FAVICON_SIZES) {
+    const data = await pngBytes(drawContained(transparent, sourceSize, size, size));
+    favicons.push({ size, data });
+    if (size !== 48) add(`favicon-${size}x${size}.png`, data, size, size, 'Browser tab icon');
+  }
+  add('favicon.ico', createIco(favicons), 48, 48, `Multi-resolution favicon (${FAVICON_SIZES.join(', ')} px)`);
+
+  // iOS does not honour transparency and adds its own rounding, so keep the
+  // background and leave some breathing room.
+  add(
+    'apple-touch-icon.png',
+    await pngBytes(drawContained(sourceCanvas, sourceSize, APPLE_TOUCH_SIZE, APPLE_TOUCH_SIZE, { background, scale: 0.85 })),
+    APPLE_TOUCH_SIZE,
+    APPLE_TOUCH_SIZE,
+    'iOS home screen icon'
+  );
+
+  for (const crop of SOCIAL_CROPS) {
+    const canvas = drawContained(transparent, sourceSize, crop.width, crop.height, { background, scale: 0.7 });
+    add(crop.path, await pngBytes(canvas), crop.width, crop.height, crop.purpose);
+  }
+
+  const webManifest = {
+    name,
+    short_name: name.slice(0, 12),
+    icons: [192, 512].map(size => ({ src: `png/logo-${size}.png`, sizes: `${size}x${size}`, type: 'image/png' })),
+    theme_color: background,
+    background_color: background,
+    display: 'standalone'
+  };
+  entries.push(textEntry('site.webmanifest', JSON.stringify(webManifest, null, 2)));
+  files.push({ path: 'site.webmanifest', width: 0, height: 0, purpose: 'Web app manifest' });
+
+  const palette = logo.palette || await extractPalette(logo.url);
+  entries.push(textEntry('palette/palette.json', paletteToJson(palette, name)));
+  files.push({ path: 'palette/palette.json', width: 0, height: 0, purpose: 'Brand colours with RGB, CMYK and contrast ratios' });
+  add('palette/palette.ase', paletteToAse(palette, name), 0, 0, 'Adobe Swatch Exchange file');
+
+  const manifest = {
+    name,
+    slug: slugify(name),
+    prompt: logo.prompt,
+    editInstruction: logo.editInstruction,
+    altText: logo.altText,
+    generatedAt: new Date(logo.createdAt).toISOString(),
+    exportedAt: new Date().toISOString(),
+    backgroundColor: background,
+    palette: palette.map(color => color.hex),
+    files
+  };
+  entries.push(textEntry('manifest.json', JSON.stringify(manifest, null, 2)));
+
+  return createZip(entries);
+};
@@ -0,0 +1,168 @@
+import { CredentialMode } from "../types";
+import { GenerationError, classifyError } from "./errors";
+import { t } from "./i18n";
+
+// Provided by the AI Studio host page; absent in a standalone deployment.
+declare global {
+  interface AIStudio {
+    hasSelectedApiKey: () => Promise<boolean>;
+    openSelectKey: () => Promise<void>;
+  }
+
+  interface Window {
+    readonly aistudio?: AIStudio;
+  }
+}
+
+export const GEMINI_API_ORIGIN = 'https://generativelanguage.googleapis.com';
+const STORAGE_KEY = 'wisdommotion.credentials';
+// Sent in place of a key in proxy mode; the proxy swaps in the real one.
+const PROXY_PLACEHOLDER_KEY = 'proxy';
+
+export interface CredentialSettings {
+  // Chosen on the Setup step; ignored inside AI Studio.
+  mode?: Exclude<CredentialMode, 'aistudio'>;
+  apiKey?: string;
+  proxyUrl?: string;
+}
+
+// What the Gemini client needs to make a call.
+export interface GeminiAuth {
+  apiKey: string;
+  // Set in proxy mode: requests go here instead of GEMINI_API_ORIGIN.
+  baseUrl?: string;
+}
+
+type CredentialListener = () => void;
+
+let settings: CredentialSettings | null = null;
+const listeners = new Set<CredentialListener>();
+
+export const isAiStudioAvailable = () => typeof window !== 'undefined' && !!window.aistudio;
+
+// Proxy endpoint baked in at build time (GENERATION_PROXY_URL).
+export const defaultProxyUrl = () => process.env.GENERATION_PROXY_URL || '';
+
+export const getCredentialSettings = (): CredentialSettings => {
+  if (settings) return settings;
+  try {
+    settings = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    settings = {};
+  }
+  return settings!;
+};
+
+const update = (patch: Partial<CredentialSettings>) => {
+  settings = { ...getCredentialSettings(), ...patch };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage unavailable: the credentials last for this session only.
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToCredentials = (listener: CredentialListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getProxyUrl = () => getCredentialSettings().proxyUrl ?? defaultProxyUrl();
+
+// AI Studio always wins when present. Otherwise the user's choice, falling
+// back to the proxy when one is configured for this deployment.
+export const getCredentialMode = (): CredentialMode => {
+  if (isAiStudioAvailable()) return 'aistudio';
+  return getCredentialSettings().mode || (getProxyUrl() ? 'proxy' : 'userKey');
+};
+
+export const setCredentialMode = (mode: Exclude<CredentialMode, 'aistudio'>) => update({ mode });
+
+export const saveApiKey = (apiKey: string) => update({ apiKey: apiKey.trim(), mode: 'userKey' });
+
+export const clearApiKey = () => update({ apiKey: undefined });
+
+// An empty value goes back to the build default.
+export const saveProxyUrl = (proxyUrl: string) => update({ proxyUrl: proxyUrl.trim() || undefined, mode: 'proxy' });
+
+export const hasCredentials = async (): Promise<boolean> => {
+  switch (getCredentialMode()) {
+    case 'aistudio':
+      return window.aistudio!.hasSelectedApiKey();
+    case 'userKey':
+      return !!getCredentialSettings().apiKey;
+    case 'proxy':
+      return !!getProxyUrl();
+  }
+};
+
+// Synchronous version for the route guards. AI Studio can only be asked
+// asynchronously, so there the picker opens on the first failed call instead.
+export const credentialsConfigured = (settings = getCredentialSettings()): boolean => {
+  const mode = getCredentialMode();
+  if (mode === 'aistudio') return true;
+  return mode === 'userKey' ? !!settings.apiKey : !!(settings.proxyUrl ?? defaultProxyUrl());
+};
+
+// Only AI Studio has a picker; the other modes are filled in on the Setup step.
+export const requestCredentials = async () => {
+  if (getCredentialMode() === 'aistudio') await window.aistudio!.openSelectKey();
+};
+
+const absoluteUrl = (url: string) => new URL(url, window.location.href).toString().replace(/\/+$/, '');
+
+// AI Studio provides the selected key as process.env.API_KEY. A standalone
+// build has no `process` at all, hence the guard.
+const injectedApiKey = (): string | undefined => {
+  try {
+    return process.env.API_KEY;
+  } catch {
+    return undefined;
+  }
+};
+
+export const getGeminiAuth = (): GeminiAuth => {
+  switch (getCredentialMode()) {
+    case 'aistudio': {
+      const apiKey = injectedApiKey();
+      if (!apiKey) throw new GenerationError('auth', t('errors.message.noStudioKey'));
+      return { apiKey };
+    }
+    case 'userKey': {
+      const apiKey = getCredentialSettings().apiKey;
+      if (!apiKey) throw new GenerationError('auth', t('errors.message.noUserKey'));
+      return { apiKey };
+    }
+    case 'proxy': {
+      const proxyUrl = getProxyUrl();
+      if (!proxyUrl) throw new GenerationError('auth', t('errors.message.noProxy'));
+      return { apiKey: PROXY_PLACEHOLDER_KEY, baseUrl: absoluteUrl(proxyUrl) };
+    }
+  }
+};
+
+// The cheapest authenticated call there is: list a single model. Throws a
+// classified error when the key or proxy does not work.
+export const validateCredentials = async (auth: GeminiAuth): Promise<void> => {
+  let response: Response;
+  try {
+    response = await fetch(`${auth.baseUrl || GEMINI_API_ORIGIN}/v1beta/models?pageSize=1`, {
+      headers: auth.baseUrl ? {} : { 'x-goog-api-key': auth.apiKey }
+    });
+  } catch (err) {
+    throw new GenerationError('network', t(auth.baseUrl ? 'errors.message.proxyUnreachable' : 'errors.message.apiUnreachable'), { cause: err });
+  }
+  if (response.ok) return;
+  if (response.status === 400 || response.status === 401 || response.status === 403) {
+    throw new GenerationError('auth', t(auth.baseUrl ? 'errors.message.proxyRejected' : 'errors.message.keyRejected'), { status: response.status });
+  }
+  throw classifyError(Object.assign(new Error(t('errors.message.validationFailed', { status: response.status })), { status: response.status }));
+};
+
+export const validateApiKey = (apiKey: string) => validateCredentials({ apiKey: apiKey.trim() });
+
+export const validateProxyUrl = (proxyUrl: string) =>
+  validateCredentials({ apiKey: PROXY_PLACEHOLDER_KEY, baseUrl: absoluteUrl(proxyUrl.trim()) });
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { classifyError, sleep } from './errors';
+
+describe('classifyError', () => {
+  it('treats fetch rejections as network errors', () => {
+    expect(classifyError(new TypeError('Failed to fetch')).kind).toBe('network');
+    expect(classifyError(new TypeError('NetworkError when attempting to fetch resource.')).kind).toBe('network');
+    expect(classifyError(new TypeError('Load failed')).kind).toBe('network');
+  });
+
+  it('does not retry programming errors as network trouble', () => {
+    const error = classifyError(new TypeError("Cannot read properties of undefined (reading 'uri')"));
+    expect(error.kind).not.toBe('network');
+    expect(error.retryable).toBe(false);
+    expect(classifyError(new Error('Invalid network configuration')).kind).not.toBe('network');
+  });
+});
+
+describe('sleep', () => {
+  it('rejects as cancelled when aborted mid-wait', async () => {
+    const controller = new AbortController();
+    const wait = sleep(10_000, controller.signal);
+    controller.abort();
+    await expect(wait).rejects.toMatchObject({ kind: 'cancelled' });
+  });
+});
@@ -0,0 +1,106 @@
+import { GenerationErrorKind } from "../types";
+import { t } from "./i18n";
+
+export type { GenerationErrorKind };
+
+// Kinds worth retrying automatically: the same request may well succeed later.
+const TRANSIENT_KINDS: GenerationErrorKind[] = ['quota', 'network', 'download'];
+
+export class GenerationError extends Error {
+  kind: GenerationErrorKind;
+  status?: number;
+  cause?: unknown;
+
+  constructor(kind: GenerationErrorKind, message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+
+  get retryable() {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+const matches = (text: string, patterns: RegExp[]) => patterns.some(pattern => pattern.test(text));
+
+// fetch rejects with a TypeError whose wording depends on the browser. Other
+// TypeErrors are bugs and must not be retried as network trouble.
+const isFetchFailure = (err: unknown) =>
+  err instanceof TypeError && matches(err.message, [/Failed to fetch/i, /NetworkError/, /Load failed/i]);
+
+// Maps whatever a provider, the SDK or fetch threw onto a GenerationError.
+// The SDK's ApiError carries an HTTP `status`; everything else is matched on
+// the message text.
+export const classifyError = (err: unknown): GenerationError => {
+  if (err instanceof GenerationError) return err;
+
+  const message = err instanceof Error ? err.message : typeof err === 'string' ? err : t('errors.message.unknown');
+  const status = typeof (err as any)?.status === 'number' ? (err as any).status : undefined;
+  const options = { status, cause: err };
+
+  if (status === 401 || status === 403 || matches(message, [/Requested entity was not found/i, /API key not valid/i, /PERMISSION_DENIED/, /UNAUTHENTICATED/])) {
+    return new GenerationError('auth', t('errors.message.auth'), options);
+  }
+  if (status === 429 || matches(message, [/RESOURCE_EXHAUSTED/, /quota/i, /rate limit/i])) {
+    return new GenerationError('quota', t('errors.message.quota'), options);
+  }
+  if (matches(message, [/safety/i, /blocked/i, /PROHIBITED_CONTENT/, /responsible ai/i])) {
+    return new GenerationError('safety', t('errors.message.safety'), options);
+  }
+  if (isFetchFailure(err) || (status !== undefined && status >= 500) || matches(message, [/UNAVAILABLE/, /INTERNAL/])) {
+    return new GenerationError('network', t('errors.message.network'), options);
+  }
+  if (matches(message, [/timed out/i])) {
+    return new GenerationError('timeout', message, options);
+  }
+  if (matches(message, [/cancelled/i, /aborted/i])) {
+    return new GenerationError('cancelled', message, options);
+  }
+  return new GenerationError('unknown', message, options);
+};
+
+// Resolves after `ms`, or rejects as cancelled as soon as the signal aborts.
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(new GenerationError('cancelled', t('errors.message.videoCancelled')));
+    };
+    if (signal?.aborted) return cancel();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', cancel, { once: true });
+  });
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (error: GenerationError, attempt: number, delayMs: number) => void;
+}
+
+// Runs `task`, retrying transient failures with exponential backoff and jitter.
+// Anything else is rethrown immediately, already classified.
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  { retries = 3, baseDelayMs = 1000, maxDelayMs = 16000, signal, onRetry }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      const error = classifyError(err);
+      if (!error.retryable || attempt >= retries || signal?.aborted) throw error;
+
+      const delayMs = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+      onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateLogo, refineLogo, translateBrief, waitForVideo, downloadAnimation } from './generationService';
+import { selectProvider, getProvider } from './providers';
+import { saveApiKey } from './credentials';
+import { getUsage } from './usageMeter';
+import { DEFAULT_BRIEF } from './promptBuilder';
+import { fakeGenAI, imageResponse, videoOperation, PIXEL_PNG } from '../test/fakeGenAI';
+
+const image = { base64: PIXEL_PNG, mimeType: 'image/png' };
+const VIDEO_URI = 'https://generativelanguage.googleapis.com/v1beta/files/abc:download?alt=media';
+const noDelay = { baseDelayMs: 0 };
+
+describe('generationService', () => {
+  beforeEach(() => {
+    selectProvider('gemini');
+    saveApiKey('test-key');
+  });
+
+  describe('generateLogo', () => {
+    it('returns a data URL in the returned mimeType and meters the call', async () => {
+      fakeGenAI.generateContent.mockResolvedValue(imageResponse('abc', 'image/webp'));
+      const result = await generateLogo('an owl', '2K', { projectId: 'p1' });
+      expect(result).toEqual({ url: 'data:image/webp;base64,abc', base64: 'abc', mimeType: 'image/webp' });
+      expect(getUsage().events.at(-1)).toMatchObject({ projectId: 'p1', kind: 'image', operation: 'generate', imageSize: '2K', status: 'succeeded' });
+    });
+
+    it('does not retry a response without an image', async () => {
+      fakeGenAI.generateContent.mockResolvedValue({ candidates: [{ content: { parts: [] } }] });
+      await expect(generateLogo('an owl', '1K', { retry: noDelay })).rejects.toMatchObject({ kind: 'noImage' });
+      expect(fakeGenAI.generateContent).toHaveBeenCalledTimes(1);
+      expect(getUsage().events.at(-1)).toMatchObject({ status: 'failed', errorKind: 'noImage' });
+    });
+
+    it('retries transient failures', async () => {
+      fakeGenAI.generateContent
+        .mockRejectedValueOnce(Object.assign(new Error('RESOURCE_EXHAUSTED'), { status: 429 }))
+        .mockResolvedValueOnce(imageResponse('abc'));
+      await expect(generateLogo('an owl', '1K', { retry: noDelay })).resolves.toMatchObject({ base64: 'abc' });
+      expect(fakeGenAI.generateContent).toHaveBeenCalledTimes(2);
+    });
+
+    it('classifies a rejected key', async () => {
+      fakeGenAI.generateContent.mockRejectedValue(Object.assign(new Error('API key not valid.'), { status: 400 }));
+      await expect(generateLogo('an owl', '1K', { retry: noDelay })).rejects.toMatchObject({ kind: 'auth' });
+    });
+  });
+
+  it('refineLogo edits the source image', async () => {
+    fakeGenAI.generateContent.mockResolvedValue(imageResponse('def', 'image/png'));
+    await expect(refineLogo(image, 'make it blue')).resolves.toMatchObject({ base64: 'def' });
+    const { parts } = fakeGenAI.generateContent.mock.calls[0][0].contents;
+    expect(parts[0]).toEqual({ inlineData: { data: image.base64, mimeType: image.mimeType } });
+    expect(parts[1].text).toContain('Edit this logo: make it blue.');
+  });
+
+  describe('translateBrief', () => {
+    const brief = { ...DEFAULT_BRIEF, organizationName: 'Más Sabiduría', industry: 'educación', details: 'un búho sabio', avoid: '', moods: ['cálido'], language: 'es' as const };
+
+    it('leaves an English brief alone', async () => {
+      await expect(translateBrief(DEFAULT_BRIEF)).resolves.toBe(DEFAULT_BRIEF);
+      expect(fakeGenAI.generateContent).not.toHaveBeenCalled();
+    });
+
+    it('translates the free-text fields once and meters the call', async () => {
+      fakeGenAI.generateContent.mockResolvedValue({ text: JSON.stringify(['education', 'a wise owl', 'warm']) });
+
+      const translated = await translateBrief(brief, { projectId: 'p1' });
+      expect(translated).toMatchObject({ organizationName: 'Más Sabiduría', industry: 'education', details: 'a wise owl', avoid: '', moods: ['warm'], language: 'en' });
+      expect(fakeGenAI.generateContent.mock.calls[0][0].contents).toContain('from Spanish to English');
+      expect(getUsage().events.at(-1)).toMatchObject({ projectId: 'p1', kind: 'text', operation: 'translate', status: 'succeeded' });
+
+      await translateBrief(brief);
+      expect(fakeGenAI.generateContent).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects an answer of the wrong length', async () => {
+      fakeGenAI.generateContent.mockResolvedValue({ text: JSON.stringify(['education']) });
+      await expect(translateBrief({ ...brief, details: 'una lechuza' }, { retry: noDelay })).rejects.toMatchObject({ kind: 'unknown' });
+    });
+  });
+
+  describe('waitForVideo', () => {
+    it('polls until the operation completes', async () => {
+      vi.useFakeTimers();
+      fakeGenAI.getVideosOperation
+        .mockResolvedValueOnce(videoOperation('operations/1'))
+        .mockResolvedValueOnce(videoOperation('operations/1', { done: true, uri: VIDEO_URI }));
+      const onPoll = vi.fn();
+
+      const finished = waitForVideo({ name: 'operations/1', done: false }, { onPoll });
+      await vi.advanceTimersByTimeAsync(getProvider().pollIntervalMs);
+      expect(fakeGenAI.getVideosOperation).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(getProvider().pollIntervalMs);
+
+      await expect(finished).resolves.toMatchObject({ done: true, videoUri: VIDEO_URI });
+      expect(onPoll).toHaveBeenCalledTimes(2);
+    });
+
+    it('fails when the operation finishes with an error', async () => {
+      vi.useFakeTimers();
+      fakeGenAI.getVideosOperation.mockResolvedValue(videoOperation('operations/1', { done: true, error: 'Blocked by safety filters.' }));
+
+      const finished = waitForVideo({ name: 'operations/1', done: false });
+      const assertion = expect(finished).rejects.toMatchObject({ kind: 'safety' });
+      await vi.runAllTimersAsync();
+      await assertion;
+    });
+
+    it('gives up at the deadline', async () => {
+      vi.useFakeTimers();
+      fakeGenAI.getVideosOperation.mockResolvedValue(videoOperation('operations/1'));
+
+      const finished = waitForVideo({ name: 'operations/1', done: false }, { deadline: Date.now() + 25000 });
+      const assertion = expect(finished).rejects.toMatchObject({ kind: 'timeout' });
+      await vi.advanceTimersByTimeAsync(30000);
+      await assertion;
+      expect(fakeGenAI.getVideosOperation).toHaveBeenCalledTimes(3);
+    });
+
+    it('stops when cancelled', async () => {
+      vi.useFakeTimers();
+      fakeGenAI.getVideosOperation.mockResolvedValue(videoOperation('operations/1'));
+      const controller = new AbortController();
+
+      const finished = waitForVideo({ name: 'operations/1', done: false }, { signal: controller.signal });
+      const assertion = expect(finished).rejects.toMatchObject({ kind: 'cancelled' });
+      await vi.advanceTimersByTimeAsync(getProvider().pollIntervalMs);
+      controller.abort();
+      await assertion;
+      expect(fakeGenAI.getVideosOperation).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('downloadAnimation does not retry a rejected key', async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response('', { status: 401 }));
+    await expect(downloadAnimation({ name: 'operations/1', done: true, videoUri: VIDEO_URI })).rejects.toMatchObject({ kind: 'auth' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
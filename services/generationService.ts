@@ -0,0 +1,151 @@
+import { BrandBrief, ImageSize, AspectRatio, ReferenceMode } from "../types";
+import { getProvider, GenerationProvider, ImageInput, VideoOperation } from "./providers";
+import { buildLogoPrompt, paletteInstruction, DEFAULT_PROMPT_SUFFIX } from "./promptBuilder";
+import { GenerationError, classifyError, withRetry, RetryOptions, sleep } from "./errors";
+import { meter } from "./usageMeter";
+import { t, LOCALES } from "./i18n";
+
+// Translated brief fields by their source text, so regenerating from an
+// unchanged brief does not pay for the translation again.
+const briefTranslations = new Map<string, string[]>();
+
+// Image models follow English prompts best. Briefs written in another
+// language have their free-text fields translated; the name and tagline are
+// drawn as lettering, so they stay exactly as typed.
+export const translateBrief = async (brief: BrandBrief, options: { projectId?: string; retry?: RetryOptions } = {}): Promise<BrandBrief> => {
+  const from = brief.language || 'en';
+  if (from === 'en') return brief;
+
+  const suffix = brief.suffix === DEFAULT_PROMPT_SUFFIX ? '' : brief.suffix;
+  const fields = [brief.industry, brief.details, brief.avoid, suffix, ...brief.moods];
+  const cacheKey = JSON.stringify([from, fields]);
+  let result = briefTranslations.get(cacheKey);
+  if (!result) {
+    // Empty fields are skipped rather than sent.
+    const indexes = fields.map((text, index) => (text.trim() ? index : -1)).filter(index => index >= 0);
+    const provider = getProvider();
+    const translated = indexes.length
+      ? await meter(
+        { projectId: options.projectId, providerId: provider.id, model: provider.textModel, kind: 'text', operation: 'translate' },
+        () => withRetry(() => provider.translateText({ texts: indexes.map(index => fields[index]), from: LOCALES[from].englishName, to: 'English' }), options.retry)
+      )
+      : [];
+    result = fields.map((text, index) => (indexes.includes(index) ? translated[indexes.indexOf(index)] : text));
+    briefTranslations.set(cacheKey, result);
+  }
+
+  const [industry, details, avoid, translatedSuffix, ...moods] = result;
+  return { ...brief, industry, details, avoid, suffix: suffix ? translatedSuffix : brief.suffix, moods, language: 'en' };
+};
+
+export const generateLogo = async (
+  prompt: string,
+  size: ImageSize = '1K',
+  options: {
+    variation?: number;
+    suffix?: string;
+    // Uploaded image sent alongside the prompt.
+    reference?: { image: ImageInput; mode: ReferenceMode };
+    // Locked brand colours.
+    palette?: string[];
+    // Project the call is metered against.
+    projectId?: string;
+    retry?: RetryOptions;
+  } = {}
+): Promise<{ url: string; base64: string; mimeType: string }> => {
+  const provider = getProvider();
+  const { base64, mimeType } = await meter(
+    { projectId: options.projectId, providerId: provider.id, model: provider.imageModel, kind: 'image', operation: 'generate', imageSize: size },
+    () => withRetry(() => provider.generateImage({
+      prompt: buildLogoPrompt(prompt, options.suffix, { reference: options.reference?.mode, palette: options.palette }),
+      size,
+      variation: options.variation,
+      sourceImage: options.reference?.image
+    }), options.retry)
+  );
+
+  return {
+    url: `data:${mimeType};base64,${base64}`,
+    base64,
+    mimeType
+  };
+};
+
+export const refineLogo = async (
+  image: { base64: string; mimeType: string },
+  instruction: string,
+  size: ImageSize = '1K',
+  options: { palette?: string[]; projectId?: string; retry?: RetryOptions } = {}
+): Promise<{ url: string; base64: string; mimeType: string }> => {
+  const lock = options.palette?.length ? ` ${paletteInstruction(options.palette)}` : '';
+  const provider = getProvider();
+  const { base64, mimeType } = await meter(
+    { projectId: options.projectId, providerId: provider.id, model: provider.imageModel, kind: 'image', operation: 'refine', imageSize: size },
+    () => withRetry(() => provider.generateImage({
+      prompt: `Edit this logo: ${instruction}. Keep everything else about the design, its style and the white background unchanged.${lock}`,
+      size,
+      sourceImage: image
+    }), options.retry)
+  );
+
+  return {
+    url: `data:${mimeType};base64,${base64}`,
+    base64,
+    mimeType
+  };
+};
+
+export const startAnimation = (
+  image: { base64: string; mimeType: string },
+  animationPrompt: string,
+  aspectRatio: AspectRatio = '16:9',
+  provider: GenerationProvider = getProvider()
+): Promise<VideoOperation> =>
+  withRetry(() => provider.startVideo({ image, prompt: animationPrompt, aspectRatio }));
+
+export interface WaitOptions {
+  signal?: AbortSignal;
+  // Epoch milliseconds after which polling gives up.
+  deadline?: number;
+  onPoll?: (operation: VideoOperation) => void;
+}
+
+// Polls until the operation is done, the deadline passes or the signal aborts.
+export const waitForVideo = async (
+  operation: VideoOperation,
+  { signal, deadline, onPoll }: WaitOptions = {},
+  provider: GenerationProvider = getProvider()
+): Promise<VideoOperation> => {
+  let current = operation;
+  while (!current.done) {
+    if (deadline !== undefined && Date.now() >= deadline) {
+      throw new GenerationError('timeout', t('errors.message.videoTimeout'));
+    }
+    const remaining = deadline === undefined ? provider.pollIntervalMs : Math.max(0, deadline - Date.now());
+    await sleep(Math.min(provider.pollIntervalMs, remaining), signal);
+    const previous = current;
+    current = await withRetry(() => provider.getVideoOperation(previous), { signal });
+    onPoll?.(current);
+  }
+
+  if (current.error) throw classifyError(new Error(current.error));
+  return current;
+};
+
+export const downloadAnimation = (
+  operation: VideoOperation,
+  provider: GenerationProvider = getProvider()
+): Promise<Blob> => withRetry(() => provider.downloadVideo(operation));
+
+// Video usage is metered per generation, from start to download, rather than
+// per polling call.
+export const videoUsage = (provider: GenerationProvider, aspectRatio: AspectRatio, projectId?: string) => ({
+  projectId,
+  providerId: provider.id,
+  model: provider.videoModel,
+  kind: 'video' as const,
+  operation: 'animate' as const,
+  resolution: provider.videoResolution,
+  aspectRatio,
+  videoSeconds: provider.videoSeconds
+});
@@ -0,0 +1,180 @@
+import { concatBytes } from "./binary";
+import { t } from "./i18n";
+
+type Rgb = [number, number, number];
+
+// Pixels sampled across all frames to build the shared palette.
+const MAX_PALETTE_SAMPLES = 60000;
+
+// Median cut: repeatedly splits the box with the widest channel range at its
+// median until there are `maxColors` boxes, then averages each box.
+export const medianCut = (samples: Rgb[], maxColors: number): Rgb[] => {
+  const range = (box: Rgb[], channel: number) => {
+    let min = 255;
+    let max = 0;
+    for (const color of box) {
+      if (color[channel] < min) min = color[channel];
+      if (color[channel] > max) max = color[channel];
+    }
+    return max - min;
+  };
+  const widest = (box: Rgb[]) => {
+    const ranges = [0, 1, 2].map(channel => range(box, channel));
+    const channel = ranges.indexOf(Math.max(...ranges));
+    return { channel, spread: ranges[channel] };
+  };
+
+  let boxes: Rgb[][] = [samples];
+  while (boxes.length < maxColors) {
+    let target = -1;
+    let best = 0;
+    boxes.forEach((box, i) => {
+      const { spread } = widest(box);
+      if (box.length > 1 && spread > best) {
+        best = spread;
+        target = i;
+      }
+    });
+    if (target < 0) break;
+    const box = boxes[target];
+    const { channel } = widest(box);
+    box.sort((a, b) => a[channel] - b[channel]);
+    const middle = box.length >> 1;
+    boxes = [...boxes.slice(0, target), box.slice(0, middle), box.slice(middle), ...boxes.slice(target + 1)];
+  }
+
+  return boxes.filter(box => box.length).map(box => {
+    const sum = box.reduce((acc, [r, g, b]) => [acc[0] + r, acc[1] + g, acc[2] + b], [0, 0, 0]);
+    return sum.map(v => Math.round(v / box.length)) as Rgb;
+  });
+};
+
+// Nearest palette entry per colour, cached on 6 bits per channel.
+const createMapper = (palette: Rgb[]) => {
+  const cache = new Int16Array(1 << 18).fill(-1);
+  return (r: number, g: number, b: number) => {
+    const key = ((r >> 2) << 12) | ((g >> 2) << 6) | (b >> 2);
+    if (cache[key] >= 0) return cache[key];
+    let best = 0;
+    let bestDistance = Infinity;
+    palette.forEach(([pr, pg, pb], i) => {
+      const d = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+      if (d < bestDistance) {
+        bestDistance = d;
+        best = i;
+      }
+    });
+    cache[key] = best;
+    return best;
+  };
+};
+
+// GIF flavour of LZW with variable code sizes up to 12 bits, packed LSB first.
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      out.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let current = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const next = indices[i];
+    const key = (current << 8) | next;
+    const known = table.get(key);
+    if (known !== undefined) {
+      current = known;
+      continue;
+    }
+    emit(current);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    current = next;
+  }
+  emit(current);
+  emit(endCode);
+  if (bufferBits > 0) out.push(buffer & 0xff);
+  return Uint8Array.from(out);
+};
+
+// Splits image data into the length-prefixed sub-blocks GIF expects.
+const subBlocks = (data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(data.length + Math.ceil(data.length / 255) + 1);
+  let offset = 0;
+  for (let i = 0; i < data.length; i += 255) {
+    const block = data.subarray(i, i + 255);
+    out[offset++] = block.length;
+    out.set(block, offset);
+    offset += block.length;
+  }
+  out[offset] = 0;
+  return out;
+};
+
+const uint16 = (value: number) => [value & 0xff, (value >>> 8) & 0xff];
+
+// Encodes same-sized frames as a looping GIF with one global palette.
+// `loops` of 0 repeats forever.
+export const encodeGif = (frames: ImageData[], delayMs: number, { maxColors = 256, loops = 0 } = {}): Uint8Array => {
+  if (!frames.length) throw new Error(t('errors.message.noFrames'));
+  const { width, height } = frames[0];
+  const pixelCount = width * height;
+
+  const samples: Rgb[] = [];
+  const step = Math.max(1, Math.floor((pixelCount * frames.length) / MAX_PALETTE_SAMPLES));
+  frames.forEach(frame => {
+    for (let i = 0; i < pixelCount; i += step) {
+      samples.push([frame.data[i * 4], frame.data[i * 4 + 1], frame.data[i * 4 + 2]]);
+    }
+  });
+  const palette = medianCut(samples, Math.max(2, Math.min(256, maxColors)));
+  const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+  const colorTable = new Uint8Array(3 << tableBits);
+  palette.forEach((color, i) => colorTable.set(color, i * 3));
+  const mapColor = createMapper(palette);
+  const minCodeSize = Math.max(2, tableBits);
+  const delay = Math.max(2, Math.round(delayMs / 10));
+
+  const parts: Uint8Array[] = [
+    new TextEncoder().encode('GIF89a'),
+    Uint8Array.from([...uint16(width), ...uint16(height), 0xf0 | (tableBits - 1), 0, 0]),
+    colorTable,
+    Uint8Array.from([0x21, 0xff, 0x0b, ...new TextEncoder().encode('NETSCAPE2.0'), 0x03, 0x01, ...uint16(loops), 0x00])
+  ];
+
+  frames.forEach(frame => {
+    const indices = new Uint8Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+      indices[i] = mapColor(frame.data[i * 4], frame.data[i * 4 + 1], frame.data[i * 4 + 2]);
+    }
+    parts.push(
+      Uint8Array.from([0x21, 0xf9, 0x04, 0x00, ...uint16(delay), 0x00, 0x00]),
+      Uint8Array.from([0x2c, 0, 0, 0, 0, ...uint16(width), ...uint16(height), 0x00, minCodeSize]),
+      subBlocks(lzwEncode(indices, minCodeSize))
+    );
+  });
+
+  parts.push(Uint8Array.from([0x3b]));
+  return concatBytes(parts);
+};
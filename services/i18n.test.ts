@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { translate, setLocale, getLocale, subscribeToLocale, isRtl, formatNumber, t, isLocale } from './i18n';
+
+describe('i18n', () => {
+  afterEach(() => {
+    setLocale('en');
+  });
+
+  it('fills in params', () => {
+    expect(translate('en', 'candidates.readyOf', { ready: 2, total: 4 })).toBe('2 of 4 ready');
+    expect(translate('fr', 'errors.message.downloadStatus', { status: 503 })).toBe("La vidéo terminée n'a pas pu être téléchargée (HTTP 503).");
+  });
+
+  it('picks the plural form for the language', () => {
+    expect(translate('en', 'projects.logos', { count: 1 })).toBe('1 logo');
+    expect(translate('en', 'projects.logos', { count: 3 })).toBe('3 logos');
+    expect(translate('ar', 'projects.logos', { count: 2 })).toBe('شعاران');
+    expect(translate('ar', 'projects.logos', { count: 3 })).toBe(`${formatNumber(3, 'ar')} شعارات`);
+    expect(translate('ar', 'projects.logos', { count: 11 })).toBe(`${formatNumber(11, 'ar')} شعارًا`);
+  });
+
+  it('falls back to the other form when a category is missing', () => {
+    // Spanish has a `many` category for millions but no separate string for it.
+    expect(translate('es', 'usage.lastDays', { count: 1000000 })).toBe(`Últimos ${formatNumber(1000000, 'es')} días`);
+  });
+
+  it('only accepts supported locale codes', () => {
+    expect(isLocale('fr')).toBe(true);
+    expect(isLocale('de')).toBe(false);
+    expect(isLocale('toString')).toBe(false);
+    expect(isLocale('__proto__')).toBe(false);
+  });
+
+  it('switches language, document direction and persists the choice', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToLocale(listener);
+
+    setLocale('ar');
+    expect(getLocale()).toBe('ar');
+    expect(isRtl()).toBe(true);
+    expect(document.documentElement.lang).toBe('ar');
+    expect(document.documentElement.dir).toBe('rtl');
+    expect(localStorage.getItem('wisdommotion.locale')).toBe('ar');
+    expect(t('common.save')).toBe('حفظ');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    setLocale('es');
+    expect(document.documentElement.dir).toBe('ltr');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,107 @@
+import { Locale } from "../types";
+import { en, MessageKey, Messages } from "../locales/en";
+import { es } from "../locales/es";
+import { fr } from "../locales/fr";
+import { ar } from "../locales/ar";
+
+export type { Locale };
+
+// Keys with plural forms are stored as `<key>_one`, `<key>_other` and so on,
+// one per Intl.PluralRules category the language uses.
+export type PluralKey = { [K in MessageKey]: K extends `${infer Base}_other` ? Base : never }[MessageKey];
+export type TranslationKey = MessageKey | PluralKey;
+export type TranslationParams = Record<string, string | number>;
+export type TranslateFn = (key: TranslationKey, params?: TranslationParams) => string;
+
+export const LOCALES: Record<Locale, { label: string; englishName: string; dir: 'ltr' | 'rtl'; messages: Messages }> = {
+  en: { label: 'English', englishName: 'English', dir: 'ltr', messages: en },
+  es: { label: 'Español', englishName: 'Spanish', dir: 'ltr', messages: es },
+  fr: { label: 'Français', englishName: 'French', dir: 'ltr', messages: fr },
+  ar: { label: 'العربية', englishName: 'Arabic', dir: 'rtl', messages: ar }
+};
+
+export const DEFAULT_LOCALE: Locale = 'en';
+const STORAGE_KEY = 'wisdommotion.locale';
+
+type LocaleListener = () => void;
+
+let locale: Locale | null = null;
+const listeners = new Set<LocaleListener>();
+
+export const isLocale = (value: string | null | undefined): value is Locale => !!value && Object.hasOwn(LOCALES, value);
+
+// The saved choice, else the first browser language we have, else English.
+const detectLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage unavailable: fall through to the browser languages.
+  }
+  const preferred = typeof navigator !== 'undefined' ? navigator.languages || [navigator.language] : [];
+  return preferred.map(tag => tag?.split('-')[0]).find(isLocale) || DEFAULT_LOCALE;
+};
+
+const applyToDocument = (value: Locale) => {
+  if (typeof document === 'undefined') return;
+  document.documentElement.lang = value;
+  document.documentElement.dir = LOCALES[value].dir;
+};
+
+export const getLocale = (): Locale => {
+  if (!locale) {
+    locale = detectLocale();
+    applyToDocument(locale);
+  }
+  return locale;
+};
+
+export const subscribeToLocale = (listener: LocaleListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const setLocale = (value: Locale) => {
+  locale = value;
+  try {
+    localStorage.setItem(STORAGE_KEY, value);
+  } catch {
+    // Not persisted; the language still applies for this session.
+  }
+  applyToDocument(value);
+  listeners.forEach(listener => listener());
+};
+
+export const isRtl = (value: Locale = getLocale()) => LOCALES[value].dir === 'rtl';
+
+const interpolate = (message: string, params?: TranslationParams) =>
+  params ? message.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder)) : message;
+
+// Looks the key up in `target`, falling back to English for anything the
+// locale does not have yet. A numeric `count` picks the plural form.
+export const translate = (target: Locale, key: TranslationKey, params?: TranslationParams): string => {
+  const messages = LOCALES[target].messages;
+  const count = params?.count;
+  if (typeof count === 'number' && `${key}_other` in en) {
+    const form = `${key}_${new Intl.PluralRules(target).select(count)}`;
+    const message = messages[form] ?? messages[`${key}_other`] ?? (en as Messages)[`${key}_other`];
+    return interpolate(message, { ...params, count: formatNumber(count, target) });
+  }
+  return interpolate(messages[key] ?? (en as Messages)[key] ?? key, params);
+};
+
+// For services and other code outside React; components use useTranslation
+// so they re-render when the language changes.
+export const t: TranslateFn = (key, params) => translate(getLocale(), key, params);
+
+export const formatNumber = (value: number, target: Locale = getLocale(), options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(target, options).format(value);
+
+export const formatDate = (timestamp: number, target: Locale = getLocale(), options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }) =>
+  new Intl.DateTimeFormat(target, options).format(timestamp);
+
+// "a, b and c" in the current language.
+export const formatList = (items: string[], target: Locale = getLocale()) =>
+  new Intl.ListFormat(target, { type: 'conjunction' }).format(items);
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LogoData } from '../types';
+import { submitVideoJob, retryVideoJob, cancelVideoJob, getVideoJobs, resumeVideoJobs } from './jobManager';
+import { selectProvider } from './providers';
+import { saveApiKey } from './credentials';
+import { setBudget, DEFAULT_BUDGET, getUsage, clearUsage } from './usageMeter';
+import { fakeGenAI, videoOperation, PIXEL_PNG } from '../test/fakeGenAI';
+
+const VIDEO_URI = 'https://generativelanguage.googleapis.com/v1beta/files/abc:download?alt=media';
+
+const logo: LogoData = { id: 'logo-1', url: '', base64: PIXEL_PNG, mimeType: 'image/png', prompt: 'an owl', size: '1K', createdAt: 0 };
+
+const findJob = (id: string) => getVideoJobs().find(job => job.id === id);
+
+describe('jobManager', () => {
+  beforeEach(() => {
+    selectProvider('gemini');
+    saveApiKey('test-key');
+  });
+
+  afterEach(() => {
+    setBudget(DEFAULT_BUDGET);
+  });
+
+  describe('running a job', () => {
+    beforeEach(() => {
+      // jsdom has no object URLs.
+      vi.stubGlobal('URL', class extends URL {
+        static createObjectURL = () => 'blob:video';
+      });
+    });
+
+    it('starts, polls and downloads the video', async () => {
+      clearUsage();
+      vi.useFakeTimers();
+      fakeGenAI.generateVideos.mockResolvedValue(videoOperation('operations/1'));
+      fakeGenAI.getVideosOperation.mockResolvedValue(videoOperation('operations/1', { done: true, uri: VIDEO_URI }));
+      vi.mocked(fetch).mockResolvedValue(new Response('video-bytes', { status: 200 }));
+
+      const job = submitVideoJob({ projectId: 'p1', logo, prompt: 'spin slowly', aspectRatio: '1:1' });
+      await vi.runAllTimersAsync();
+
+      expect(findJob(job.id)).toMatchObject({ status: 'succeeded', operationName: 'operations/1' });
+      expect(fakeGenAI.generateVideos.mock.calls[0][0]).toMatchObject({ prompt: 'spin slowly', config: { aspectRatio: '1:1' } });
+      expect(getUsage().events.at(-1)).toMatchObject({ kind: 'video', aspectRatio: '1:1', status: 'succeeded' });
+    });
+
+    it('fails once download retries are used up', async () => {
+      clearUsage();
+      vi.useFakeTimers();
+      fakeGenAI.generateVideos.mockResolvedValue(videoOperation('operations/1'));
+      fakeGenAI.getVideosOperation.mockResolvedValue(videoOperation('operations/1', { done: true, uri: VIDEO_URI }));
+      vi.mocked(fetch).mockResolvedValue(new Response('', { status: 503 }));
+
+      const job = submitVideoJob({ projectId: 'p1', logo, prompt: 'spin slowly', aspectRatio: '16:9' });
+      await vi.runAllTimersAsync();
+
+      expect(findJob(job.id)).toMatchObject({ status: 'failed', errorKind: 'download' });
+      // One attempt plus three retries.
+      expect(fetch).toHaveBeenCalledTimes(4);
+      expect(getUsage().events.at(-1)).toMatchObject({ kind: 'video', status: 'failed', errorKind: 'download' });
+    });
+  });
+
+  describe('budget caps', () => {
+    it('does not queue a batch over a blocking cap', () => {
+      setBudget({ action: 'block', dailyLimit: 0 });
+      const job = submitVideoJob({ projectId: 'p1', logo, prompt: 'spin', aspectRatio: '16:9' });
+      expect(job).toBeUndefined();
+      expect(fakeGenAI.generateVideos).not.toHaveBeenCalled();
+    });
+
+    it('does not retry over a blocking cap', async () => {
+      fakeGenAI.generateVideos.mockRejectedValue(Object.assign(new Error('API key not valid.'), { status: 400 }));
+      const job = submitVideoJob({ projectId: 'p1', logo, prompt: 'spin', aspectRatio: '16:9' });
+      await vi.waitFor(() => expect(findJob(job.id)?.status).toBe('failed'));
+
+      setBudget({ action: 'block', dailyLimit: 0 });
+      expect(retryVideoJob(job.id)).toBeUndefined();
+      expect(findJob(job.id)?.status).toBe('failed');
+      expect(fakeGenAI.generateVideos).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('does not submit a job cancelled while its logo is loading', async () => {
+    const job = submitVideoJob({ projectId: 'p1', logo, prompt: 'spin', aspectRatio: '16:9' });
+    cancelVideoJob(job.id);
+    await vi.waitFor(() => expect(findJob(job.id)?.status).toBe('cancelled'));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(fakeGenAI.generateVideos).not.toHaveBeenCalled();
+  });
+
+  it('meters a job cancelled while the provider was accepting it', async () => {
+    clearUsage();
+    let accept!: (operation: ReturnType<typeof videoOperation>) => void;
+    fakeGenAI.generateVideos.mockReturnValue(new Promise(resolve => { accept = resolve; }));
+    const job = submitVideoJob({ projectId: 'p1', logo, prompt: 'spin', aspectRatio: '16:9' });
+    await vi.waitFor(() => expect(fakeGenAI.generateVideos).toHaveBeenCalled());
+
+    cancelVideoJob(job.id);
+    accept(videoOperation('operations/accepted'));
+    await vi.waitFor(() => expect(findJob(job.id)?.operationName).toBe('operations/accepted'));
+    expect(findJob(job.id)?.status).toBe('cancelled');
+    await vi.waitFor(() => expect(getUsage().events).toEqual([expect.objectContaining({ kind: 'video', status: 'cancelled', projectId: 'p1' })]));
+  });
+
+  it('resumes when storage is blocked', () => {
+    const getItem = vi.spyOn(Storage.prototype, 'getItem').mockImplementation(() => {
+      throw new DOMException('Access denied', 'SecurityError');
+    });
+    try {
+      expect(() => resumeVideoJobs()).not.toThrow();
+    } finally {
+      getItem.mockRestore();
+    }
+  });
+});
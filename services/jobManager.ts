@@ -0,0 +1,334 @@
+import { AnimationData, AspectRatio, LogoData, VideoJob } from "../types";
+import { getProvider, getProviderById } from "./providers";
+import { startAnimation, waitForVideo, downloadAnimation, videoUsage } from "./generationService";
+import { buildAnimationPrompt } from "./promptBuilder";
+import { appendAnimation, getProject } from "./projectStore";
+import { classifyError } from "./errors";
+import { recordUsage, checkBudget, estimateRequest } from "./usageMeter";
+import { t } from "./i18n";
+
+const STORAGE_KEY = 'wisdommotion.videoJobs';
+const CONCURRENCY_KEY = 'wisdommotion.videoJobConcurrency';
+export const DEFAULT_JOB_TIMEOUT_MS = 10 * 60 * 1000;
+export const DEFAULT_JOB_CONCURRENCY = 2;
+// Finished jobs older than this are dropped from storage on startup.
+const FINISHED_JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+type JobListener = () => void;
+// `animation` is only present for jobs that succeeded.
+type SettledListener = (job: VideoJob, animation?: AnimationData) => void;
+// Asked before any job is queued, with its expected cost. The app installs one
+// that explains the cap or asks to go over it; without one a cap always blocks.
+type SpendApprover = (request: { projectId: string; estimate: number }) => boolean;
+
+const blockOverBudget: SpendApprover = request => !checkBudget(request);
+
+let jobs: VideoJob[] = [];
+const controllers = new Map<string, AbortController>();
+const listeners = new Set<JobListener>();
+const settledListeners = new Set<SettledListener>();
+// Source images for queued jobs, kept in memory until the job starts. After a
+// reload the image is looked up in the project library instead.
+const pendingImages = new Map<string, { base64: string; mimeType: string }>();
+// Jobs picked up again by resumeVideoJobs after a reload.
+const resuming = new Set<string>();
+let concurrency = DEFAULT_JOB_CONCURRENCY;
+let approveSpend = blockOverBudget;
+
+export const isJobActive = (job: VideoJob) =>
+  job.status === 'starting' || job.status === 'generating' || job.status === 'downloading';
+
+// Queued or running: anything that has not reached a final state.
+export const isJobPending = (job: VideoJob) => job.status === 'queued' || isJobActive(job);
+
+const persist = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+  } catch {
+    // Storage unavailable (private mode, quota): jobs still run for this session.
+  }
+};
+
+const emit = () => {
+  persist();
+  listeners.forEach(listener => listener());
+};
+
+const updateJob = (id: string, patch: Partial<VideoJob>) => {
+  jobs = jobs.map(job => (job.id === id ? { ...job, ...patch } : job));
+  emit();
+};
+
+const findJob = (id: string) => jobs.find(job => job.id === id);
+
+const resolveImage = async (job: VideoJob) => {
+  const pending = pendingImages.get(job.id);
+  if (pending) return pending;
+  const project = await getProject(job.projectId);
+  const logo = project?.logos.find(l => l.id === job.logoId);
+  if (!logo) throw new Error(t('errors.message.jobLogoMissing'));
+  return { base64: logo.base64, mimeType: logo.mimeType };
+};
+
+// Drives a job from wherever it currently is (fresh, queued or resumed) to a
+// final state.
+const runJob = async (id: string) => {
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  let initial = findJob(id)!;
+  if (!initial.startedAt) {
+    updateJob(id, { status: 'starting', startedAt: Date.now() });
+    initial = findJob(id)!;
+  }
+  const provider = getProviderById(initial.providerId);
+  const deadline = initial.startedAt! + initial.timeoutMs;
+
+  try {
+    let operationName = initial.operationName;
+    if (!operationName) {
+      // A job that was already submitting when the page unloaded may or may
+      // not have reached the provider; starting it again could bill twice.
+      if (resuming.has(id)) {
+        throw new Error(t('errors.message.jobInterrupted'));
+      }
+      const image = await resolveImage(initial);
+      // Cancelled while the logo was loading: nothing has been billed yet.
+      if (controller.signal.aborted) return;
+      const operation = await startAnimation(image, buildAnimationPrompt(initial.prompt, initial.palette), initial.aspectRatio, provider);
+      operationName = operation.name;
+      // The provider has accepted (and will bill) the request even if the job
+      // was cancelled meanwhile; keeping the name lets the catch below meter it.
+      updateJob(id, { operationName });
+      controller.signal.throwIfAborted();
+      updateJob(id, { status: 'generating' });
+    }
+
+    const finished = await waitForVideo(
+      { name: operationName, done: false },
+      {
+        signal: controller.signal,
+        deadline,
+        onPoll: () => updateJob(id, { lastPolledAt: Date.now(), pollCount: (findJob(id)?.pollCount || 0) + 1 })
+      },
+      provider
+    );
+
+    updateJob(id, { status: 'downloading' });
+    const video = await downloadAnimation(finished, provider);
+    controller.signal.throwIfAborted();
+
+    const job = findJob(id)!;
+    const animation: AnimationData = {
+      id: crypto.randomUUID(),
+      logoId: job.logoId,
+      video,
+      videoUrl: URL.createObjectURL(video),
+      prompt: job.prompt,
+      aspectRatio: job.aspectRatio,
+      createdAt: Date.now()
+    };
+    const { videoUrl, video: _blob, ...stored } = animation;
+    // A storage failure must not throw away a finished (and paid-for) video.
+    let storageError: string | undefined;
+    try {
+      await appendAnimation(job.projectId, stored, video);
+    } catch (err: any) {
+      storageError = t('errors.message.jobSaveFailed', { reason: err?.message || t('app.storageUnavailable') });
+    }
+
+    updateJob(id, { status: 'succeeded', finishedAt: Date.now(), animationId: animation.id, error: storageError });
+    recordUsage({ ...videoUsage(provider, job.aspectRatio, job.projectId), status: 'succeeded', durationMs: Date.now() - job.startedAt! });
+    settledListeners.forEach(listener => listener(findJob(id)!, animation));
+  } catch (err: any) {
+    const job = findJob(id);
+    if (!job) return;
+    // A job interrupted by a reload before it reached the provider made no call.
+    const reachedProvider = !!job.operationName || !resuming.has(id);
+    const usage = { ...videoUsage(provider, job.aspectRatio, job.projectId), durationMs: Date.now() - (job.startedAt || job.queuedAt) };
+    if (job.status === 'cancelled') {
+      if (job.operationName) recordUsage({ ...usage, status: 'cancelled', errorKind: 'cancelled' });
+      return;
+    }
+    const timedOut = Date.now() >= deadline;
+    const error = classifyError(err);
+    if (reachedProvider) recordUsage({ ...usage, status: 'failed', errorKind: timedOut ? 'timeout' : error.kind });
+    updateJob(id, {
+      status: timedOut ? 'timedOut' : 'failed',
+      finishedAt: Date.now(),
+      error: timedOut ? t('errors.message.jobNoVideo', { minutes: Math.round(job.timeoutMs / 60000) }) : error.message || t('app.animateFailed'),
+      errorKind: timedOut ? 'timeout' : error.kind
+    });
+    settledListeners.forEach(listener => listener(findJob(id)!));
+  } finally {
+    controllers.delete(id);
+    pendingImages.delete(id);
+    resuming.delete(id);
+    pump();
+  }
+};
+
+const estimateVideos = (count: number) => {
+  const provider = getProvider();
+  return estimateRequest({ model: provider.videoModel, videoSeconds: provider.videoSeconds, count });
+};
+
+export const setSpendApprover = (approver: SpendApprover) => {
+  approveSpend = approver;
+  return () => {
+    if (approveSpend === approver) approveSpend = blockOverBudget;
+  };
+};
+
+// Starts queued jobs, oldest first, until the concurrency limit is reached.
+const pump = () => {
+  const running = jobs.filter(job => controllers.has(job.id)).length;
+  const queued = jobs.filter(job => job.status === 'queued' && !controllers.has(job.id)).sort((a, b) => a.queuedAt - b.queuedAt);
+  queued.slice(0, Math.max(0, concurrency - running)).forEach(job => runJob(job.id));
+};
+
+export const submitVideoJob = (params: {
+  projectId: string;
+  logo: LogoData;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  timeoutMs?: number;
+  palette?: string[];
+}): VideoJob => submitVideoBatch({ ...params, prompts: [params.prompt], aspectRatios: [params.aspectRatio] })[0];
+
+// Queues one job per prompt and aspect ratio combination, or none when the
+// spend is not approved.
+export const submitVideoBatch = (params: {
+  projectId: string;
+  logo: LogoData;
+  prompts: string[];
+  aspectRatios: AspectRatio[];
+  timeoutMs?: number;
+  palette?: string[];
+}): VideoJob[] => {
+  const count = params.prompts.length * params.aspectRatios.length;
+  if (!approveSpend({ projectId: params.projectId, estimate: estimateVideos(count) })) return [];
+  const batchId = crypto.randomUUID();
+  const queuedAt = Date.now();
+  const batch: VideoJob[] = params.prompts.flatMap(prompt => params.aspectRatios.map(aspectRatio => ({
+    id: crypto.randomUUID(),
+    batchId,
+    projectId: params.projectId,
+    logoId: params.logo.id,
+    prompt,
+    aspectRatio,
+    providerId: getProvider().id,
+    status: 'queued' as const,
+    queuedAt,
+    pollCount: 0,
+    timeoutMs: params.timeoutMs || DEFAULT_JOB_TIMEOUT_MS,
+    palette: params.palette
+  })));
+  batch.forEach(job => pendingImages.set(job.id, { base64: params.logo.base64, mimeType: params.logo.mimeType }));
+  jobs = [...batch, ...jobs];
+  emit();
+  pump();
+  return batch;
+};
+
+export const getVideoJobConcurrency = () => concurrency;
+
+export const setVideoJobConcurrency = (value: number) => {
+  concurrency = Math.max(1, Math.round(value));
+  try {
+    localStorage.setItem(CONCURRENCY_KEY, String(concurrency));
+  } catch {
+    // Not persisted; the limit still applies for this session.
+  }
+  emit();
+  pump();
+};
+
+// Stops polling and discards the result. The provider may still finish the
+// operation server-side; neither API offers a way to abort it.
+export const cancelVideoJob = (id: string) => {
+  const job = findJob(id);
+  if (!job || !isJobPending(job)) return;
+  updateJob(id, { status: 'cancelled', finishedAt: Date.now() });
+  pendingImages.delete(id);
+  controllers.get(id)?.abort();
+};
+
+// Queues a fresh copy of a failed, timed-out or cancelled job, if the spend is
+// approved. The source image is looked up in the project library when the
+// copy starts.
+export const retryVideoJob = (id: string, timeoutMs?: number): VideoJob | undefined => {
+  const job = findJob(id);
+  if (!job || isJobPending(job) || job.status === 'succeeded') return;
+  if (!approveSpend({ projectId: job.projectId, estimate: estimateVideos(1) })) return;
+  const retry: VideoJob = {
+    id: crypto.randomUUID(),
+    batchId: job.batchId,
+    projectId: job.projectId,
+    logoId: job.logoId,
+    prompt: job.prompt,
+    aspectRatio: job.aspectRatio,
+    providerId: getProvider().id,
+    status: 'queued',
+    queuedAt: Date.now(),
+    pollCount: 0,
+    timeoutMs: timeoutMs || job.timeoutMs,
+    palette: job.palette
+  };
+  jobs = [retry, ...jobs.filter(j => j.id !== id)];
+  emit();
+  pump();
+  return retry;
+};
+
+export const dismissVideoJob = (id: string) => {
+  const job = findJob(id);
+  if (!job || isJobPending(job)) return;
+  jobs = jobs.filter(j => j.id !== id);
+  emit();
+};
+
+// Reloads persisted jobs, resumes polling for any that were running and
+// restarts the queue.
+export const resumeVideoJobs = () => {
+  try {
+    const storedConcurrency = Number(localStorage.getItem(CONCURRENCY_KEY));
+    if (storedConcurrency > 0) concurrency = storedConcurrency;
+  } catch {
+    // Storage is blocked; keep the default limit.
+  }
+
+  let stored: VideoJob[] = [];
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    stored = [];
+  }
+  const now = Date.now();
+  jobs = stored.filter(job => isJobPending(job) || now - (job.finishedAt || job.queuedAt) < FINISHED_JOB_TTL_MS);
+  emit();
+  // Running jobs resume regardless of the limit: they already hold a slot
+  // on the provider side.
+  jobs.filter(isJobActive).forEach(job => {
+    if (!controllers.has(job.id)) {
+      resuming.add(job.id);
+      runJob(job.id);
+    }
+  });
+  pump();
+};
+
+export const getVideoJobs = () => jobs;
+
+export const subscribeToVideoJobs = (listener: JobListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const onVideoJobSettled = (listener: SettledListener) => {
+  settledListeners.add(listener);
+  return () => {
+    settledListeners.delete(listener);
+  };
+};
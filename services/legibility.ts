@@ -0,0 +1,253 @@
+import { BrandBrief, LogoData, StylePreset } from "../types";
+import { loadImage, createCanvas } from "./imageUtils";
+import { sampleBackground, extractPaletteFromImageData, contrastRatio } from "./palette";
+import { t, getLocale, formatList, formatNumber, TranslationKey } from "./i18n";
+
+type Rgb = [number, number, number];
+
+export type ColorVision = 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+
+export interface LegibilityIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface SizeCheck {
+  size: number;
+  url: string;
+  // Contrast the strongest quarter of the mark still reaches at this size.
+  contrast: number;
+}
+
+export interface VisionCheck {
+  type: ColorVision;
+  url: string;
+  // Main colour against the background, as simulated.
+  contrast: number;
+  // Palette colours that are distinct normally but look alike here.
+  confused: [string, string][];
+}
+
+export interface LegibilityReport {
+  background: string;
+  colors: { hex: string; share: number; contrast: number }[];
+  sizes: SizeCheck[];
+  vision: VisionCheck[];
+  issues: LegibilityIssue[];
+}
+
+export const SMALL_SIZES = [16, 24, 32, 48, 64];
+const WORKING_SIZE = 256;
+// WCAG 1.4.11: graphics needed to understand content need 3:1.
+export const MIN_CONTRAST = 3;
+// RGB distances: colours further apart than DISTINCT read as different, and
+// closer than CONFUSED as the same.
+const DISTINCT_DISTANCE = 60;
+const CONFUSED_DISTANCE = 35;
+// Pixels this close to the background are not part of the mark.
+const MARK_TOLERANCE = 8;
+// Alt text longer than this is cut off by some screen readers.
+export const ALT_TEXT_LIMIT = 125;
+
+// Machado, Oliveira & Fernandes (2009) at full severity, applied to linear RGB.
+export const COLOR_VISION: Record<ColorVision, { label: TranslationKey; description: TranslationKey; matrix: number[] }> = {
+  protanopia: {
+    label: 'legibility.vision.protanopia',
+    description: 'legibility.vision.protanopia.description',
+    matrix: [0.152286, 1.052583, -0.204868, 0.114503, 0.786281, 0.099216, -0.003882, -0.048116, 1.051998]
+  },
+  deuteranopia: {
+    label: 'legibility.vision.deuteranopia',
+    description: 'legibility.vision.deuteranopia.description',
+    matrix: [0.367322, 0.860646, -0.227968, 0.280085, 0.672501, 0.047413, -0.01182, 0.04294, 0.968881]
+  },
+  tritanopia: {
+    label: 'legibility.vision.tritanopia',
+    description: 'legibility.vision.tritanopia.description',
+    matrix: [1.255528, -0.076749, -0.178779, -0.078411, 0.930809, 0.147602, 0.004733, 0.691367, 0.3039]
+  },
+  achromatopsia: {
+    label: 'legibility.vision.achromatopsia',
+    description: 'legibility.vision.achromatopsia.description',
+    matrix: [0.2126, 0.7152, 0.0722, 0.2126, 0.7152, 0.0722, 0.2126, 0.7152, 0.0722]
+  }
+};
+
+const TO_LINEAR = Array.from({ length: 256 }, (_, v) => {
+  const c = v / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+});
+
+const toSrgb = (linear: number) => {
+  const c = Math.min(1, Math.max(0, linear));
+  return Math.round((c <= 0.0031308 ? c * 12.92 : 1.055 * c ** (1 / 2.4) - 0.055) * 255);
+};
+
+export const simulateColor = ([r, g, b]: Rgb, type: ColorVision): Rgb => {
+  const m = COLOR_VISION[type].matrix;
+  const [lr, lg, lb] = [TO_LINEAR[r], TO_LINEAR[g], TO_LINEAR[b]];
+  return [
+    toSrgb(m[0] * lr + m[1] * lg + m[2] * lb),
+    toSrgb(m[3] * lr + m[4] * lg + m[5] * lb),
+    toSrgb(m[6] * lr + m[7] * lg + m[8] * lb)
+  ];
+};
+
+export const simulateImageData = (source: ImageData, type: ColorVision): ImageData => {
+  const out = new ImageData(new Uint8ClampedArray(source.data), source.width, source.height);
+  for (let i = 0; i < out.data.length; i += 4) {
+    const [r, g, b] = simulateColor([out.data[i], out.data[i + 1], out.data[i + 2]], type);
+    out.data[i] = r;
+    out.data[i + 1] = g;
+    out.data[i + 2] = b;
+  }
+  return out;
+};
+
+const distance = (a: Rgb, b: Rgb) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+const toHex = ([r, g, b]: Rgb) => `#${[r, g, b].map(v => v.toString(16).padStart(2, '0')).join('')}`;
+
+// Downscaling blends thin strokes into the background, so contrast is
+// measured on the pixels that are left rather than on the palette.
+export const markContrast = (data: ImageData, background: Rgb): number => {
+  const ratios: number[] = [];
+  for (let i = 0; i < data.data.length; i += 4) {
+    const rgb: Rgb = [data.data[i], data.data[i + 1], data.data[i + 2]];
+    const d = Math.max(Math.abs(rgb[0] - background[0]), Math.abs(rgb[1] - background[1]), Math.abs(rgb[2] - background[2]));
+    if (d > MARK_TOLERANCE) ratios.push(contrastRatio(rgb, background));
+  }
+  if (!ratios.length) return 1;
+  ratios.sort((a, b) => b - a);
+  return ratios[Math.floor(ratios.length / 4)];
+};
+
+// Fits the image into a square, padded with `fill` like an icon would be.
+const renderAt = (image: HTMLImageElement, size: number, fill?: string) => {
+  const { canvas, ctx } = createCanvas(size, size);
+  const scale = size / Math.max(image.naturalWidth, image.naturalHeight);
+  const width = image.naturalWidth * scale;
+  const height = image.naturalHeight * scale;
+  if (fill) {
+    ctx.fillStyle = fill;
+    ctx.fillRect(0, 0, size, size);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, (size - width) / 2, (size - height) / 2, width, height);
+  return { canvas, data: ctx.getImageData(0, 0, size, size) };
+};
+
+const formatRatio = (ratio: number) => `${formatNumber(ratio, undefined, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}:1`;
+
+export const analyzeLegibility = async (url: string): Promise<LegibilityReport> => {
+  const image = await loadImage(url);
+  // Sampled from the stretched image so padding cannot skew it.
+  const probe = createCanvas(WORKING_SIZE, WORKING_SIZE);
+  probe.ctx.drawImage(image, 0, 0, WORKING_SIZE, WORKING_SIZE);
+  const background = sampleBackground(probe.ctx.getImageData(0, 0, WORKING_SIZE, WORKING_SIZE));
+  const working = renderAt(image, WORKING_SIZE, toHex(background));
+  const palette = extractPaletteFromImageData(working.data)
+    .filter(color => distance(color.rgb, background) > MARK_TOLERANCE);
+  const colors = palette.map(color => ({ hex: color.hex, share: color.share, contrast: contrastRatio(color.rgb, background) }));
+  const issues: LegibilityIssue[] = [];
+
+  const primary = colors[0];
+  if (!primary) {
+    issues.push({ severity: 'error', message: t('legibility.issue.noArtwork') });
+  } else if (primary.contrast < MIN_CONTRAST) {
+    issues.push({ severity: 'error', message: t('legibility.issue.lowContrast', { color: primary.hex.toUpperCase(), ratio: formatRatio(primary.contrast), minimum: `${MIN_CONTRAST}:1` }) });
+  }
+  colors.slice(1).filter(color => color.share >= 0.1 && color.contrast < MIN_CONTRAST).forEach(color => {
+    issues.push({ severity: 'warning', message: t('legibility.issue.fades', { color: color.hex.toUpperCase(), share: formatNumber(color.share, undefined, { style: 'percent' }), ratio: formatRatio(color.contrast) }) });
+  });
+
+  const sizes = SMALL_SIZES.map(size => {
+    const render = renderAt(image, size, toHex(background));
+    return { size, url: render.canvas.toDataURL('image/png'), contrast: markContrast(render.data, background) };
+  });
+  const washedOut = sizes.filter(check => check.contrast < MIN_CONTRAST);
+  if (washedOut.length) {
+    issues.push({
+      severity: washedOut.some(check => check.size >= 32) ? 'error' : 'warning',
+      message: t('legibility.issue.washesOut', { sizes: formatList(washedOut.map(check => `${check.size}px`)) })
+    });
+  }
+
+  const vision = (Object.keys(COLOR_VISION) as ColorVision[]).map(type => {
+    const simulated = simulateImageData(working.data, type);
+    const { canvas, ctx } = createCanvas(WORKING_SIZE, WORKING_SIZE);
+    ctx.putImageData(simulated, 0, 0);
+    const simulatedBackground = simulateColor(background, type);
+    const confused: [string, string][] = [];
+    palette.forEach((a, i) => palette.slice(i + 1).forEach(b => {
+      if (distance(a.rgb, b.rgb) >= DISTINCT_DISTANCE && distance(simulateColor(a.rgb, type), simulateColor(b.rgb, type)) < CONFUSED_DISTANCE) {
+        confused.push([a.hex, b.hex]);
+      }
+    }));
+    const contrast = palette[0] ? contrastRatio(simulateColor(palette[0].rgb, type), simulatedBackground) : 1;
+    return { type, url: canvas.toDataURL('image/png'), contrast, confused };
+  });
+  vision.forEach(check => {
+    const label = t(COLOR_VISION[check.type].label).toLocaleLowerCase(getLocale());
+    if (primary && primary.contrast >= MIN_CONTRAST && check.contrast < MIN_CONTRAST) {
+      issues.push({ severity: 'warning', message: t('legibility.issue.visionContrast', { vision: label, ratio: formatRatio(check.contrast) }) });
+    }
+    check.confused.forEach(([a, b]) => {
+      issues.push({ severity: 'warning', message: t('legibility.issue.visionConfused', { vision: label, a: a.toUpperCase(), b: b.toUpperCase() }) });
+    });
+  });
+
+  return { background: toHex(background), colors, sizes, vision, issues };
+};
+
+// Plain-language colour names for alt text, from hue and lightness.
+export const colorName = ([r, g, b]: Rgb): string => {
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const lightness = (max + min) / 2;
+  const saturation = max === min ? 0 : (max - min) / (1 - Math.abs(2 * lightness - 1));
+  if (saturation < 0.15) return t(lightness > 0.85 ? 'colors.white' : lightness < 0.15 ? 'colors.black' : 'colors.grey');
+
+  let hue = 0;
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  if (max === rn) hue = ((gn - bn) / (max - min)) % 6;
+  else if (max === gn) hue = (bn - rn) / (max - min) + 2;
+  else hue = (rn - gn) / (max - min) + 4;
+  hue = (hue * 60 + 360) % 360;
+
+  const names: [number, TranslationKey][] = [
+    [15, 'colors.red'], [40, 'colors.orange'], [65, 'colors.yellow'], [160, 'colors.green'], [195, 'colors.teal'],
+    [250, 'colors.blue'], [290, 'colors.purple'], [335, 'colors.pink'], [360, 'colors.red']
+  ];
+  const name = t(names.find(([limit]) => hue < limit)![1]);
+  if (lightness < 0.3) return t('colors.dark', { color: name });
+  if (lightness > 0.75) return t('colors.light', { color: name });
+  return name;
+};
+
+const ALT_STYLES: Record<StylePreset, TranslationKey> = {
+  flat: 'alt.style.flat',
+  emblem: 'alt.style.emblem',
+  wordmark: 'alt.style.wordmark',
+  mascot: 'alt.style.mascot'
+};
+
+// A short screen-reader description built from the brief and the extracted
+// palette, in the interface language. The user can edit it; it is only
+// generated once per version.
+export const generateAltText = (logo: LogoData, brief?: BrandBrief): string => {
+  const name = brief?.organizationName.trim();
+  const colors = [...new Set((logo.palette || []).slice(0, 3).map(color => colorName(color.rgb)))];
+  const inColors = colors.length ? ` ${t('alt.inColors', { colors: formatList(colors) })}` : '';
+  const subject = name ? t('alt.named', { name }) : t('alt.unnamed');
+
+  let text: string;
+  if (logo.uploaded || !brief) {
+    text = `${subject}${inColors}`;
+  } else {
+    const details = brief.details.trim();
+    text = `${t('alt.described', { subject, style: t(ALT_STYLES[brief.style]) })}${details ? ` ${details}${inColors ? ',' : ''}` : ''}${inColors}`;
+  }
+  text = `${text}.`;
+  return text.length > ALT_TEXT_LIMIT ? `${text.slice(0, ALT_TEXT_LIMIT - 1).replace(/[\s,;:]+\S*$/, '')}…` : text;
+};
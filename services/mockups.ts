@@ -0,0 +1,358 @@
+import { LogoData } from "../types";
+import { loadImage, createCanvas } from "./imageUtils";
+import { removeBackground } from "./brandKit";
+
+type Point = [number, number];
+// Corners clockwise from top left.
+export type Quad = [Point, Point, Point, Point];
+
+export type MockupId = 'businessCard' | 'websiteHeader' | 'tshirt' | 'appIcon' | 'darkBackground' | 'lightBackground';
+
+export interface LogoSources {
+  // Artwork as generated, background included.
+  original: HTMLCanvasElement;
+  // Background flood-filled away, for printing onto surfaces.
+  transparent: HTMLCanvasElement;
+}
+
+interface MockupScene {
+  label: string;
+  icon: string;
+  width: number;
+  height: number;
+  render: (ctx: CanvasRenderingContext2D, logo: LogoSources, name: string) => void;
+}
+
+// Mesh density used for perspective warps; higher is smoother but slower.
+const WARP_SUBDIVISIONS = 14;
+
+// Projective map from the unit square onto `quad` (Heckbert's square-to-quad).
+export const squareToQuad = (quad: Quad) => {
+  const [[x0, y0], [x1, y1], [x2, y2], [x3, y3]] = quad;
+  const dx3 = x0 - x1 + x2 - x3;
+  const dy3 = y0 - y1 + y2 - y3;
+  let a, b, d, e, g = 0, h = 0;
+  if (Math.abs(dx3) < 1e-9 && Math.abs(dy3) < 1e-9) {
+    a = x1 - x0; b = x3 - x0; d = y1 - y0; e = y3 - y0;
+  } else {
+    const dx1 = x1 - x2, dx2 = x3 - x2, dy1 = y1 - y2, dy2 = y3 - y2;
+    const det = dx1 * dy2 - dx2 * dy1;
+    g = (dx3 * dy2 - dx2 * dy3) / det;
+    h = (dx1 * dy3 - dx3 * dy1) / det;
+    a = x1 - x0 + g * x1; b = x3 - x0 + h * x3;
+    d = y1 - y0 + g * y1; e = y3 - y0 + h * y3;
+  }
+  return (u: number, v: number): Point => {
+    const w = g * u + h * v + 1;
+    return [(a * u + b * v + x0) / w, (d * u + e * v + y0) / w];
+  };
+};
+
+// Draws one source triangle onto one destination triangle with an affine
+// transform, clipped to a slightly enlarged triangle to hide mesh seams.
+const drawTriangle = (ctx: CanvasRenderingContext2D, image: CanvasImageSource, src: Point[], dst: Point[]) => {
+  const [[s0x, s0y], [s1x, s1y], [s2x, s2y]] = src;
+  const [[d0x, d0y], [d1x, d1y], [d2x, d2y]] = dst;
+  const denom = s0x * (s1y - s2y) + s1x * (s2y - s0y) + s2x * (s0y - s1y);
+  if (!denom) return;
+  const solve = (v0: number, v1: number, v2: number) => [
+    (v0 * (s1y - s2y) + v1 * (s2y - s0y) + v2 * (s0y - s1y)) / denom,
+    (v0 * (s2x - s1x) + v1 * (s0x - s2x) + v2 * (s1x - s0x)) / denom,
+    (v0 * (s1x * s2y - s2x * s1y) + v1 * (s2x * s0y - s0x * s2y) + v2 * (s0x * s1y - s1x * s0y)) / denom
+  ];
+  const [a, c, e] = solve(d0x, d1x, d2x);
+  const [b, d, f] = solve(d0y, d1y, d2y);
+
+  const cx = (d0x + d1x + d2x) / 3;
+  const cy = (d0y + d1y + d2y) / 3;
+  const grow = ([x, y]: Point): Point => {
+    const length = Math.hypot(x - cx, y - cy) || 1;
+    return [x + ((x - cx) / length) * 0.6, y + ((y - cy) / length) * 0.6];
+  };
+
+  ctx.save();
+  ctx.beginPath();
+  dst.map(grow).forEach(([x, y], i) => (i ? ctx.lineTo(x, y) : ctx.moveTo(x, y)));
+  ctx.closePath();
+  ctx.clip();
+  ctx.transform(a, b, c, d, e, f);
+  ctx.drawImage(image, 0, 0);
+  ctx.restore();
+};
+
+export const drawPerspective = (
+  ctx: CanvasRenderingContext2D,
+  image: HTMLCanvasElement,
+  quad: Quad,
+  subdivisions = WARP_SUBDIVISIONS
+) => {
+  const map = squareToQuad(quad);
+  const { width, height } = image;
+  for (let row = 0; row < subdivisions; row++) {
+    for (let col = 0; col < subdivisions; col++) {
+      const u0 = col / subdivisions, u1 = (col + 1) / subdivisions;
+      const v0 = row / subdivisions, v1 = (row + 1) / subdivisions;
+      const src: Point[] = [[u0 * width, v0 * height], [u1 * width, v0 * height], [u1 * width, v1 * height], [u0 * width, v1 * height]];
+      const dst = [map(u0, v0), map(u1, v0), map(u1, v1), map(u0, v1)];
+      drawTriangle(ctx, image, [src[0], src[1], src[2]], [dst[0], dst[1], dst[2]]);
+      drawTriangle(ctx, image, [src[0], src[2], src[3]], [dst[0], dst[2], dst[3]]);
+    }
+  }
+};
+
+const roundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) => {
+  ctx.beginPath();
+  ctx.roundRect(x, y, width, height, radius);
+};
+
+const drawContained = (ctx: CanvasRenderingContext2D, image: HTMLCanvasElement, x: number, y: number, width: number, height: number) => {
+  const scale = Math.min(width / image.width, height / image.height);
+  const w = image.width * scale;
+  const h = image.height * scale;
+  ctx.drawImage(image, x + (width - w) / 2, y + (height - h) / 2, w, h);
+};
+
+// Placeholder copy is drawn as grey bars so no fonts need to load.
+const textBars = (ctx: CanvasRenderingContext2D, x: number, y: number, widths: number[], height: number, gap: number, color: string) => {
+  ctx.fillStyle = color;
+  widths.forEach((w, i) => {
+    roundedRect(ctx, x, y + i * (height + gap), w, height, height / 2);
+    ctx.fill();
+  });
+};
+
+const shadow = (ctx: CanvasRenderingContext2D, blur: number, offsetY: number, alpha = 0.25) => {
+  ctx.shadowColor = `rgba(0, 0, 0, ${alpha})`;
+  ctx.shadowBlur = blur;
+  ctx.shadowOffsetY = offsetY;
+};
+
+export const MOCKUP_SCENES: Record<MockupId, MockupScene> = {
+  businessCard: {
+    label: 'Business Card',
+    icon: 'fa-address-card',
+    width: 1600,
+    height: 1000,
+    render: (ctx, logo, name) => {
+      const desk = ctx.createLinearGradient(0, 0, 1600, 1000);
+      desk.addColorStop(0, '#d6d3d1');
+      desk.addColorStop(1, '#a8a29e');
+      ctx.fillStyle = desk;
+      ctx.fillRect(0, 0, 1600, 1000);
+
+      // The card face is laid out flat, then warped onto the tilted card.
+      const { canvas: face, ctx: faceCtx } = createCanvas(1050, 600);
+      faceCtx.fillStyle = '#ffffff';
+      faceCtx.fillRect(0, 0, 1050, 600);
+      drawContained(faceCtx, logo.transparent, 70, 140, 320, 320);
+      faceCtx.fillStyle = '#111827';
+      faceCtx.font = 'bold 44px system-ui, sans-serif';
+      faceCtx.fillText(name.slice(0, 24), 450, 250);
+      textBars(faceCtx, 450, 300, [380, 300, 340], 18, 22, '#d1d5db');
+
+      const quad: Quad = [[330, 250], [1290, 190], [1350, 760], [290, 790]];
+      ctx.save();
+      shadow(ctx, 60, 30, 0.35);
+      ctx.fillStyle = '#ffffff';
+      ctx.beginPath();
+      quad.forEach(([x, y], i) => (i ? ctx.lineTo(x, y) : ctx.moveTo(x, y)));
+      ctx.closePath();
+      ctx.fill();
+      ctx.restore();
+      drawPerspective(ctx, face, quad);
+    }
+  },
+  websiteHeader: {
+    label: 'Website Header',
+    icon: 'fa-window-maximize',
+    width: 1600,
+    height: 1000,
+    render: (ctx, logo, name) => {
+      ctx.fillStyle = '#e0e7ff';
+      ctx.fillRect(0, 0, 1600, 1000);
+
+      const { canvas: page, ctx: pageCtx } = createCanvas(1400, 860);
+      pageCtx.fillStyle = '#f3f4f6';
+      pageCtx.fillRect(0, 0, 1400, 860);
+      pageCtx.fillStyle = '#e5e7eb';
+      pageCtx.fillRect(0, 0, 1400, 56);
+      ['#f87171', '#fbbf24', '#34d399'].forEach((color, i) => {
+        pageCtx.fillStyle = color;
+        pageCtx.beginPath();
+        pageCtx.arc(32 + i * 30, 28, 9, 0, Math.PI * 2);
+        pageCtx.fill();
+      });
+      pageCtx.fillStyle = '#ffffff';
+      roundedRect(pageCtx, 140, 14, 700, 28, 14);
+      pageCtx.fill();
+
+      pageCtx.fillStyle = '#ffffff';
+      pageCtx.fillRect(0, 56, 1400, 120);
+      drawContained(pageCtx, logo.transparent, 40, 66, 100, 100);
+      pageCtx.fillStyle = '#111827';
+      pageCtx.font = 'bold 34px system-ui, sans-serif';
+      pageCtx.fillText(name.slice(0, 28), 160, 128);
+      textBars(pageCtx, 900, 108, [90], 16, 0, '#9ca3af');
+      textBars(pageCtx, 1020, 108, [90], 16, 0, '#9ca3af');
+      textBars(pageCtx, 1140, 108, [90], 16, 0, '#9ca3af');
+      pageCtx.fillStyle = '#4f46e5';
+      roundedRect(pageCtx, 1260, 96, 110, 40, 20);
+      pageCtx.fill();
+
+      textBars(pageCtx, 120, 300, [700, 560], 40, 24, '#1f2937');
+      textBars(pageCtx, 120, 440, [620, 580, 400], 16, 16, '#9ca3af');
+      pageCtx.fillStyle = '#e5e7eb';
+      roundedRect(pageCtx, 900, 260, 400, 400, 32);
+      pageCtx.fill();
+      drawContained(pageCtx, logo.original, 940, 300, 320, 320);
+
+      // A slight tilt, as if seen on a screen.
+      const quad: Quad = [[120, 90], [1500, 60], [1520, 930], [100, 900]];
+      ctx.save();
+      shadow(ctx, 50, 20);
+      ctx.fillStyle = '#ffffff';
+      ctx.beginPath();
+      quad.forEach(([x, y], i) => (i ? ctx.lineTo(x, y) : ctx.moveTo(x, y)));
+      ctx.closePath();
+      ctx.fill();
+      ctx.restore();
+      drawPerspective(ctx, page, quad);
+    }
+  },
+  tshirt: {
+    label: 'T-Shirt',
+    icon: 'fa-shirt',
+    width: 1200,
+    height: 1200,
+    render: (ctx, logo) => {
+      ctx.fillStyle = '#f5f5f4';
+      ctx.fillRect(0, 0, 1200, 1200);
+
+      const shirt = new Path2D(
+        'M420 140 C470 190 730 190 780 140 L1020 250 L1110 520 L950 570 L920 470 L920 1080 L280 1080 L280 470 L250 570 L90 520 L180 250 Z'
+      );
+      ctx.save();
+      shadow(ctx, 40, 18, 0.2);
+      ctx.fillStyle = '#1f2937';
+      ctx.fill(shirt);
+      ctx.restore();
+
+      // Printed onto the chest with a slight taper; the fold shading drawn
+      // afterwards lies over the print like it would on fabric.
+      ctx.save();
+      ctx.clip(shirt);
+      ctx.globalAlpha = 0.92;
+      drawPerspective(ctx, logo.transparent, [[440, 330], [760, 325], [770, 650], [430, 655]]);
+      ctx.restore();
+
+      const fold = ctx.createLinearGradient(280, 0, 920, 0);
+      fold.addColorStop(0, 'rgba(0, 0, 0, 0.25)');
+      fold.addColorStop(0.5, 'rgba(255, 255, 255, 0.05)');
+      fold.addColorStop(1, 'rgba(0, 0, 0, 0.25)');
+      ctx.save();
+      ctx.clip(shirt);
+      ctx.fillStyle = fold;
+      ctx.fillRect(0, 0, 1200, 1200);
+      ctx.restore();
+    }
+  },
+  appIcon: {
+    label: 'App Icon',
+    icon: 'fa-mobile-screen',
+    width: 1200,
+    height: 1200,
+    render: (ctx, logo, name) => {
+      ctx.fillStyle = '#e5e7eb';
+      ctx.fillRect(0, 0, 1200, 1200);
+
+      ctx.save();
+      shadow(ctx, 60, 30, 0.35);
+      ctx.fillStyle = '#111827';
+      roundedRect(ctx, 330, 60, 540, 1080, 80);
+      ctx.fill();
+      ctx.restore();
+
+      const screen = ctx.createLinearGradient(0, 90, 0, 1110);
+      screen.addColorStop(0, '#6366f1');
+      screen.addColorStop(1, '#ec4899');
+      ctx.save();
+      roundedRect(ctx, 352, 82, 496, 1036, 62);
+      ctx.clip();
+      ctx.fillStyle = screen;
+      ctx.fillRect(352, 82, 496, 1036);
+
+      const iconSize = 92;
+      const colors = ['#f59e0b', '#10b981', '#3b82f6', '#ef4444', '#8b5cf6', '#14b8a6', '#f97316', '#64748b'];
+      for (let i = 0; i < 16; i++) {
+        const col = i % 4;
+        const row = Math.floor(i / 4);
+        const x = 384 + col * 116;
+        const y = 180 + row * 150;
+        ctx.save();
+        roundedRect(ctx, x, y, iconSize, iconSize, 22);
+        ctx.clip();
+        if (i === 5) {
+          ctx.fillStyle = '#ffffff';
+          ctx.fillRect(x, y, iconSize, iconSize);
+          drawContained(ctx, logo.original, x, y, iconSize, iconSize);
+        } else {
+          ctx.fillStyle = colors[i % colors.length];
+          ctx.globalAlpha = 0.85;
+          ctx.fillRect(x, y, iconSize, iconSize);
+        }
+        ctx.restore();
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+        ctx.font = `${i === 5 ? 'bold ' : ''}16px system-ui, sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.fillText(i === 5 ? name.slice(0, 10) : 'App', x + iconSize / 2, y + iconSize + 24);
+        ctx.textAlign = 'start';
+      }
+
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.25)';
+      roundedRect(ctx, 372, 960, 456, 120, 40);
+      ctx.fill();
+      ctx.restore();
+    }
+  },
+  darkBackground: {
+    label: 'On Dark',
+    icon: 'fa-moon',
+    width: 1200,
+    height: 1200,
+    render: (ctx, logo) => {
+      ctx.fillStyle = '#111827';
+      ctx.fillRect(0, 0, 1200, 1200);
+      drawContained(ctx, logo.transparent, 200, 200, 800, 800);
+    }
+  },
+  lightBackground: {
+    label: 'On Light',
+    icon: 'fa-sun',
+    width: 1200,
+    height: 1200,
+    render: (ctx, logo) => {
+      ctx.fillStyle = '#f5f5f4';
+      ctx.fillRect(0, 0, 1200, 1200);
+      drawContained(ctx, logo.transparent, 200, 200, 800, 800);
+    }
+  }
+};
+
+// Decoding and background removal are the slow part, so they are done once
+// per logo and shared by every scene.
+export const prepareLogoSources = async (logo: LogoData): Promise<LogoSources> => {
+  const image = await loadImage(logo.url);
+  const { canvas: original, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+  ctx.drawImage(image, 0, 0);
+  const { canvas: transparent, ctx: transparentCtx } = createCanvas(image.naturalWidth, image.naturalHeight);
+  transparentCtx.putImageData(removeBackground(ctx.getImageData(0, 0, image.naturalWidth, image.naturalHeight)), 0, 0);
+  return { original, transparent };
+};
+
+export const renderMockup = (id: MockupId, sources: LogoSources, name: string): HTMLCanvasElement => {
+  const scene = MOCKUP_SCENES[id];
+  const { canvas, ctx } = createCanvas(scene.width, scene.height);
+  ctx.imageSmoothingQuality = 'high';
+  scene.render(ctx, sources, name);
+  return canvas;
+};
@@ -0,0 +1,177 @@
+import { PaletteColor } from "../types";
+import { loadImage, createCanvas } from "./imageUtils";
+import { quantize } from "./vectorizer";
+import { concatBytes } from "./binary";
+import { TranslationKey } from "./i18n";
+
+type Rgb = [number, number, number];
+
+const DEFAULT_PALETTE_SIZE = 5;
+const WORKING_SIZE = 128;
+// Per-channel distance from the background colour still counted as background.
+const BACKGROUND_TOLERANCE = 24;
+// Clusters closer than this (RGB Euclidean) are merged into one swatch.
+const MERGE_DISTANCE = 28;
+// Swatches covering less of the artwork than this are dropped as antialiasing.
+const MIN_SHARE = 0.02;
+// A generated colour further than this from every locked colour counts as drift.
+const DRIFT_DISTANCE = 60;
+
+// Averages the four corners; generated logos sit on a flat background.
+export const sampleBackground = (data: ImageData): Rgb => {
+  const { width, height } = data;
+  const corners = [0, width - 1, (height - 1) * width, height * width - 1];
+  const sum = corners.reduce<Rgb>((acc, index) => [
+    acc[0] + data.data[index * 4],
+    acc[1] + data.data[index * 4 + 1],
+    acc[2] + data.data[index * 4 + 2]
+  ], [0, 0, 0]);
+  return sum.map(v => Math.round(v / corners.length)) as Rgb;
+};
+
+export const hexToRgb = (hex: string): Rgb => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+export const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export const isHexColor = (value: unknown): value is string => typeof value === 'string' && HEX_COLOR_PATTERN.test(value);
+
+const toHex = ([r, g, b]: Rgb) => `#${[r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+
+const distance = (a: Rgb, b: Rgb) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+// Naive device-independent conversion; print shops will still proof it.
+export const rgbToCmyk = ([r, g, b]: Rgb): [number, number, number, number] => {
+  const k = 1 - Math.max(r, g, b) / 255;
+  if (k >= 1) return [0, 0, 0, 100];
+  const channel = (v: number) => Math.round(((1 - v / 255 - k) / (1 - k)) * 100);
+  return [channel(r), channel(g), channel(b), Math.round(k * 100)];
+};
+
+// WCAG 2.x relative luminance and contrast ratio.
+export const relativeLuminance = ([r, g, b]: Rgb) => {
+  const linear = (v: number) => {
+    const c = v / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+};
+
+export const contrastRatio = (a: Rgb, b: Rgb) => {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+export const wcagRating = (ratio: number) => (ratio >= 7 ? 'AAA' : ratio >= 4.5 ? 'AA' : ratio >= 3 ? 'AA Large' : 'Fail');
+
+export const WCAG_RATING_LABELS: Record<ReturnType<typeof wcagRating>, TranslationKey> = {
+  AAA: 'palette.rating.aaa',
+  AA: 'palette.rating.aa',
+  'AA Large': 'palette.rating.aaLarge',
+  Fail: 'palette.rating.fail'
+};
+
+export const describeColor = (rgb: Rgb, share: number): PaletteColor => ({
+  hex: toHex(rgb),
+  rgb,
+  cmyk: rgbToCmyk(rgb),
+  share,
+  contrastOnWhite: Math.round(contrastRatio(rgb, [255, 255, 255]) * 100) / 100,
+  contrastOnBlack: Math.round(contrastRatio(rgb, [0, 0, 0]) * 100) / 100
+});
+
+// Dominant colours of the artwork, largest first. Background pixels are left
+// out so a white backdrop does not crowd out the brand colours.
+export const extractPaletteFromImageData = (data: ImageData, count = DEFAULT_PALETTE_SIZE): PaletteColor[] => {
+  const background = sampleBackground(data);
+  const total = data.width * data.height;
+  const foreground = new Uint8ClampedArray(total * 4);
+  let kept = 0;
+  for (let i = 0; i < total; i++) {
+    const r = data.data[i * 4];
+    const g = data.data[i * 4 + 1];
+    const b = data.data[i * 4 + 2];
+    const isBackground = Math.max(Math.abs(r - background[0]), Math.abs(g - background[1]), Math.abs(b - background[2])) <= BACKGROUND_TOLERANCE;
+    if (isBackground || data.data[i * 4 + 3] < 128) continue;
+    foreground.set([r, g, b, 255], kept * 4);
+    kept++;
+  }
+  if (!kept) return [describeColor(background, 1)];
+
+  // Over-cluster, then merge near duplicates.
+  const { palette, labels } = quantize(foreground, kept, Math.min(count * 2, 16));
+  const counts = palette.map((_, c) => labels.subarray(0, kept).reduce((n, label) => n + (label === c ? 1 : 0), 0));
+  const clusters = palette
+    .map((rgb, c) => ({ rgb: rgb as Rgb, count: counts[c] }))
+    .filter(cluster => cluster.count > 0)
+    .sort((a, b) => b.count - a.count);
+
+  const merged: { rgb: Rgb; count: number }[] = [];
+  for (const cluster of clusters) {
+    const near = merged.find(m => distance(m.rgb, cluster.rgb) < MERGE_DISTANCE);
+    if (near) near.count += cluster.count;
+    else merged.push({ ...cluster });
+  }
+
+  return merged
+    .filter(m => m.count / kept >= MIN_SHARE)
+    .slice(0, count)
+    .map(m => describeColor(m.rgb.map(Math.round) as Rgb, Math.round((m.count / kept) * 1000) / 1000));
+};
+
+export const extractPalette = async (url: string, count = DEFAULT_PALETTE_SIZE): Promise<PaletteColor[]> => {
+  const image = await loadImage(url);
+  const ratio = Math.min(1, WORKING_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * ratio));
+  const height = Math.max(1, Math.round(image.naturalHeight * ratio));
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+  return extractPaletteFromImageData(ctx.getImageData(0, 0, width, height), count);
+};
+
+// Colours of `palette` that are not close to any locked colour.
+export const paletteDrift = (palette: PaletteColor[], locked: string[]): PaletteColor[] => {
+  const lockedRgb = locked.map(hexToRgb);
+  return palette.filter(color => !lockedRgb.some(rgb => distance(rgb, color.rgb) <= DRIFT_DISTANCE));
+};
+
+export const paletteToJson = (palette: PaletteColor[], name: string) =>
+  JSON.stringify({ name, colors: palette }, null, 2);
+
+// Adobe Swatch Exchange: one group named after the brand holding RGB global
+// swatches. All numbers are big-endian; names are null-terminated UTF-16.
+export const paletteToAse = (palette: PaletteColor[], name: string): Uint8Array => {
+  const utf16 = (text: string) => {
+    const bytes = new Uint8Array(2 + (text.length + 1) * 2);
+    const view = new DataView(bytes.buffer);
+    view.setUint16(0, text.length + 1);
+    for (let i = 0; i < text.length; i++) view.setUint16(2 + i * 2, text.charCodeAt(i));
+    return bytes;
+  };
+  const block = (type: number, body: Uint8Array) => {
+    const header = new Uint8Array(6);
+    const view = new DataView(header.buffer);
+    view.setUint16(0, type);
+    view.setUint32(2, body.length);
+    return concatBytes([header, body]);
+  };
+  const swatch = (color: PaletteColor) => {
+    const values = new Uint8Array(4 + 12 + 2);
+    const view = new DataView(values.buffer);
+    [...'RGB '].forEach((char, i) => view.setUint8(i, char.charCodeAt(0)));
+    color.rgb.forEach((v, i) => view.setFloat32(4 + i * 4, v / 255));
+    view.setUint16(16, 0); // global colour
+    return block(0x0001, concatBytes([utf16(color.hex.toUpperCase()), values]));
+  };
+
+  const blocks = [block(0xc001, utf16(name)), ...palette.map(swatch), block(0xc002, new Uint8Array(0))];
+  const header = new Uint8Array(12);
+  const view = new DataView(header.buffer);
+  [...'ASEF'].forEach((char, i) => view.setUint8(i, char.charCodeAt(0)));
+  view.setUint16(4, 1);
+  view.setUint16(6, 0);
+  view.setUint32(8, blocks.length);
+  return concatBytes([header, ...blocks]);
+};
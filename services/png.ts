@@ -0,0 +1,142 @@
+import { crc32, concatBytes } from "./binary";
+import { t } from "./i18n";
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const adler32 = (bytes: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+const writeUint32 = (target: Uint8Array, offset: number, value: number) => {
+  target[offset] = (value >>> 24) & 0xff;
+  target[offset + 1] = (value >>> 16) & 0xff;
+  target[offset + 2] = (value >>> 8) & 0xff;
+  target[offset + 3] = value & 0xff;
+};
+
+export const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  writeUint32(chunk, 0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  writeUint32(chunk, 8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// zlib stream made of uncompressed ("stored") deflate blocks. Larger than a
+// real encoder would produce, but needs no canvas and is fully deterministic.
+const zlibStore = (raw: Uint8Array): Uint8Array => {
+  const blockCount = Math.max(1, Math.ceil(raw.length / 65535));
+  const out = new Uint8Array(2 + raw.length + blockCount * 5 + 4);
+  out[0] = 0x78;
+  out[1] = 0x01;
+  let offset = 2;
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * 65535;
+    const length = Math.min(65535, raw.length - start);
+    out[offset++] = block === blockCount - 1 ? 1 : 0;
+    out[offset++] = length & 0xff;
+    out[offset++] = length >>> 8;
+    out[offset++] = ~length & 0xff;
+    out[offset++] = (~length >>> 8) & 0xff;
+    out.set(raw.subarray(start, start + length), offset);
+    offset += length;
+  }
+  writeUint32(out, offset, adler32(raw));
+  return out;
+};
+
+export const encodePng = (width: number, height: number, rgba: Uint8ClampedArray): Uint8Array => {
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, width);
+  writeUint32(header, 4, height);
+  header[8] = 8; // bit depth
+  header[9] = 6; // colour type: RGBA
+
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0; // filter: none
+    raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return concatBytes([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibStore(raw)),
+    pngChunk('IEND', new Uint8Array(0))
+  ]);
+};
+
+export interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+export const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  if (!PNG_SIGNATURE.every((value, i) => bytes[i] === value)) throw new Error(t('errors.message.notPng'));
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = readUint32(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+// Builds an animated PNG from same-sized PNG frames. The frames keep the
+// browser's own compression: their IDAT payloads are copied into the first
+// frame's IDAT and later frames' fdAT chunks unchanged.
+export const assembleApng = (frames: Uint8Array[], delayMs: number, plays = 0): Uint8Array => {
+  if (!frames.length) throw new Error(t('errors.message.noFrames'));
+  const parsed = frames.map(readPngChunks);
+  const header = parsed[0].find(chunk => chunk.type === 'IHDR');
+  if (!header) throw new Error(t('errors.message.pngNoHeader'));
+  const width = readUint32(header.data, 0);
+  const height = readUint32(header.data, 4);
+  const delay = Math.min(0xffff, Math.max(1, Math.round(delayMs)));
+
+  const control = new Uint8Array(8);
+  writeUint32(control, 0, frames.length);
+  writeUint32(control, 4, plays);
+
+  const parts: Uint8Array[] = [PNG_SIGNATURE, pngChunk('IHDR', header.data), pngChunk('acTL', control)];
+  let sequence = 0;
+  parsed.forEach((chunks, index) => {
+    const frameControl = new Uint8Array(26);
+    writeUint32(frameControl, 0, sequence++);
+    writeUint32(frameControl, 4, width);
+    writeUint32(frameControl, 8, height);
+    // x/y offsets stay 0; delay is expressed as delay / 1000 seconds.
+    frameControl[20] = (delay >>> 8) & 0xff;
+    frameControl[21] = delay & 0xff;
+    frameControl[22] = 1000 >>> 8;
+    frameControl[23] = 1000 & 0xff;
+    parts.push(pngChunk('fcTL', frameControl));
+
+    chunks.filter(chunk => chunk.type === 'IDAT').forEach(chunk => {
+      if (index === 0) {
+        parts.push(pngChunk('IDAT', chunk.data));
+        return;
+      }
+      const frameData = new Uint8Array(4 + chunk.data.length);
+      writeUint32(frameData, 0, sequence++);
+      frameData.set(chunk.data, 4);
+      parts.push(pngChunk('fdAT', frameData));
+    });
+  });
+  parts.push(pngChunk('IEND', new Uint8Array(0)));
+  return concatBytes(parts);
+};
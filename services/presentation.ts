@@ -0,0 +1,136 @@
+import { Project, StoredLogo, PaletteColor } from "../types";
+import { getVideo } from "./projectStore";
+import { blobToBytes } from "./imageUtils";
+import { bytesToBase64 } from "./binary";
+import { compileBrief } from "./promptBuilder";
+import { wcagRating, WCAG_RATING_LABELS, describeColor, hexToRgb } from "./palette";
+import { LOCALES, t, getLocale, formatDate } from "./i18n";
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const logoSrc = (logo: StoredLogo) => escapeHtml(`data:${logo.mimeType};base64,${logo.base64}`);
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #111827; background: #f9fafb; line-height: 1.5; }
+  main { max-width: 1040px; margin: 0 auto; padding: 48px 24px 96px; }
+  header { margin-bottom: 48px; }
+  header p { color: #6b7280; margin: 4px 0 0; }
+  h1 { font-size: 40px; margin: 0; letter-spacing: -0.02em; }
+  h2 { font-size: 13px; text-transform: uppercase; letter-spacing: 0.12em; color: #9ca3af; margin: 56px 0 16px; }
+  .hero { background: #fff; border-radius: 24px; box-shadow: 0 20px 40px rgba(0,0,0,0.08); padding: 32px; display: flex; justify-content: center; }
+  .hero img { max-width: 100%; max-height: 480px; }
+  .card { background: #fff; border: 1px solid #f3f4f6; border-radius: 16px; padding: 16px; }
+  .grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(220px, 1fr)); gap: 16px; }
+  .grid img { width: 100%; aspect-ratio: 1; object-fit: contain; border-radius: 12px; background: #f9fafb; }
+  .caption { font-size: 13px; color: #4b5563; margin: 8px 0 0; }
+  .muted { color: #9ca3af; font-size: 12px; }
+  .selected { border-color: #6366f1; box-shadow: 0 0 0 2px #c7d2fe; }
+  .swatches { display: grid; grid-template-columns: repeat(auto-fill, minmax(180px, 1fr)); gap: 16px; }
+  .swatch { height: 96px; border-radius: 12px; border: 1px solid #e5e7eb; margin-bottom: 8px; }
+  .mono { font-family: ui-monospace, Menlo, monospace; font-weight: 700; }
+  video { width: 100%; border-radius: 16px; background: #000; }
+  .videos { display: grid; grid-template-columns: repeat(auto-fill, minmax(300px, 1fr)); gap: 24px; }
+  blockquote { margin: 0; font-style: italic; color: #374151; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 6px 24px; margin: 0; }
+  dt { font-weight: 700; color: #6b7280; font-size: 13px; }
+  dd { margin: 0; }
+  footer { margin-top: 72px; color: #9ca3af; font-size: 12px; text-align: center; }
+`;
+
+const rating = (ratio: number) => `${ratio.toFixed(1)} (${t(WCAG_RATING_LABELS[wcagRating(ratio)])})`;
+
+const paletteSection = (palette: PaletteColor[], locked: boolean) => `
+  <h2>${t(locked ? 'presentation.paletteLocked' : 'palette.title')}</h2>
+  <div class="swatches">
+    ${palette.map(color => `
+      <div class="card">
+        <div class="swatch" style="background:${escapeHtml(color.hex)}"></div>
+        <div class="mono">${escapeHtml(color.hex.toUpperCase())}</div>
+        <div class="muted">RGB ${escapeHtml(color.rgb.join(', '))}</div>
+        <div class="muted">CMYK ${escapeHtml(color.cmyk.join(', '))}</div>
+        <div class="muted">${t('presentation.contrast', { white: rating(color.contrastOnWhite), black: rating(color.contrastOnBlack) })}</div>
+      </div>`).join('')}
+  </div>`;
+
+// A single HTML file with every asset inlined, so stakeholders can open it
+// from an email attachment without the app or an API key. It is written in
+// the app's current language.
+export const buildPresentation = async (project: Project): Promise<Blob> => {
+  const locale = getLocale();
+  const selected = project.logos.find(l => l.id === project.selectedLogoId) || project.logos[project.logos.length - 1];
+
+  const videos: string[] = [];
+  for (const animation of project.animations) {
+    const video = await getVideo(project.id, animation.id);
+    if (!video) continue;
+    const src = escapeHtml(`data:${video.type || 'video/mp4'};base64,${bytesToBase64(await blobToBytes(video))}`);
+    videos.push(`
+      <figure class="card" style="margin:0">
+        <video src="${src}" controls loop playsinline muted${animation.id === project.selectedAnimationId ? ' autoplay' : ''}></video>
+        <figcaption class="caption"><span class="muted">${escapeHtml(animation.aspectRatio)}</span> ${escapeHtml(animation.prompt)}</figcaption>
+      </figure>`);
+  }
+
+  // A locked palette is what every generation was held to, so it is shown
+  // instead of the colours extracted from the selected logo.
+  const locked = !!project.lockedPalette?.length;
+  const palette = locked
+    ? project.lockedPalette!.map(hex => describeColor(hexToRgb(hex), 1 / project.lockedPalette!.length))
+    : selected?.palette;
+  const brief = project.brief;
+
+  const html = `<!DOCTYPE html>
+<html lang="${locale}" dir="${LOCALES[locale].dir}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(project.name)} · ${t('presentation.title')}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+  <header>
+    <h1>${escapeHtml(project.name)}</h1>
+    <p>${t('presentation.title')} · ${formatDate(project.updatedAt, locale, { dateStyle: 'long' })}</p>
+  </header>
+
+  ${selected ? `<div class="hero"><img src="${logoSrc(selected)}" alt="${escapeHtml(selected.altText || t('presentation.logoAlt', { name: project.name }))}"></div>` : ''}
+
+  ${brief ? `
+  <h2>${t('presentation.brief')}</h2>
+  <div class="card">
+    <dl>
+      ${brief.organizationName ? `<dt>${t('brief.organization')}</dt><dd>${escapeHtml(brief.organizationName)}</dd>` : ''}
+      ${brief.tagline ? `<dt>${t('brief.tagline')}</dt><dd>${escapeHtml(brief.tagline)}</dd>` : ''}
+      ${brief.industry ? `<dt>${t('brief.industry')}</dt><dd>${escapeHtml(brief.industry)}</dd>` : ''}
+      ${brief.moods.length ? `<dt>${t('brief.mood')}</dt><dd>${escapeHtml(brief.moods.join(', '))}</dd>` : ''}
+      <dt>${t('presentation.prompt')}</dt><dd><blockquote dir="ltr">${escapeHtml(compileBrief(brief))}</blockquote></dd>
+    </dl>
+  </div>` : ''}
+
+  ${palette?.length ? paletteSection(palette, locked) : ''}
+
+  ${videos.length ? `<h2>${t('presentation.animations', { count: videos.length })}</h2><div class="videos">${videos.join('')}</div>` : ''}
+
+  ${project.logos.length > 1 ? `
+  <h2>${t('presentation.versions')}</h2>
+  <div class="grid">
+    ${project.logos.map((logo, index) => `
+      <figure class="card${logo.id === selected?.id ? ' selected' : ''}" style="margin:0">
+        <img src="${logoSrc(logo)}" alt="${escapeHtml(logo.altText || t('versions.alt', { number: index + 1 }))}">
+        <figcaption class="caption">
+          <strong>v${index + 1}</strong>${logo.editInstruction ? ` · ${escapeHtml(logo.editInstruction)}` : ''}
+          <div class="muted">${escapeHtml(logo.prompt)}</div>
+        </figcaption>
+      </figure>`).join('')}
+  </div>` : ''}
+
+  <footer>${t('presentation.footer')}</footer>
+</main>
+</body>
+</html>`;
+
+  return new Blob([html], { type: 'text/html' });
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { importProjectFile, PROJECT_FILE_FORMAT, PROJECT_FILE_VERSION } from './projectFile';
+import { DEFAULT_BRIEF } from './promptBuilder';
+import { createZip, textEntry } from './zip';
+import { base64ToBytes } from './binary';
+import { PIXEL_PNG } from '../test/fakeGenAI';
+
+const logo = { id: 'logo-1', asset: 'logos/logo-1.png', mimeType: 'image/png', prompt: 'an owl', size: '1K', createdAt: 1 };
+
+const projectFile = (project: Record<string, unknown>) => createZip([
+  textEntry('project.json', JSON.stringify({
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    exportedAt: new Date(0).toISOString(),
+    project: { id: crypto.randomUUID(), name: 'Owl', createdAt: 1, updatedAt: 1, step: 'DESIGN', logos: [logo], animations: [], ...project }
+  })),
+  { name: logo.asset, data: base64ToBytes(PIXEL_PNG) }
+]);
+
+describe('importProjectFile', () => {
+  it('fills a partial brief from the default brief', async () => {
+    const project = await importProjectFile(projectFile({ brief: { colors: ['#123456', 7], moods: [], style: 'baroque' } }));
+    expect(project.brief).toEqual({ ...DEFAULT_BRIEF, colors: ['#123456'], moods: [] });
+  });
+
+  it('rejects logos, animations and steps that would break the app', async () => {
+    const { prompt: _prompt, ...promptless } = logo;
+    const notProjectFile = 'This is not a WisdomMotion project file.';
+    await expect(importProjectFile(projectFile({}))).resolves.toMatchObject({ name: 'Owl' });
+    await expect(importProjectFile(projectFile({ logos: [promptless] }))).rejects.toThrow(notProjectFile);
+    await expect(importProjectFile(projectFile({ animations: [{ id: 'a1', logoId: logo.id, createdAt: 1 }] }))).rejects.toThrow(notProjectFile);
+    await expect(importProjectFile(projectFile({ step: 'NOWHERE' }))).rejects.toThrow(notProjectFile);
+  });
+});
@@ -0,0 +1,156 @@
+import { Project, StoredLogo, StoredAnimation, BrandBrief, AppStep, ImageSize, AspectRatio } from "../types";
+import { createZip, readZip, textEntry, ZipEntry } from "./zip";
+import { base64ToBytes, bytesToBase64 } from "./binary";
+import { getVideo, importProject } from "./projectStore";
+import { blobToBytes } from "./imageUtils";
+import { isHexColor } from "./palette";
+import { DEFAULT_BRIEF, STYLE_PRESETS } from "./promptBuilder";
+import { t, isLocale } from "./i18n";
+
+export const PROJECT_FILE_FORMAT = 'wisdommotion-project';
+export const PROJECT_FILE_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.wmproj';
+
+// project.json inside the archive. Binary data lives in separate entries and
+// is referenced by path.
+interface ProjectManifest {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: Omit<Project, 'logos' | 'animations'> & {
+    logos: (Omit<StoredLogo, 'base64'> & { asset: string })[];
+    animations: (StoredAnimation & { asset?: string })[];
+  };
+}
+
+const extensionFor = (mimeType: string) =>
+  mimeType.includes('jpeg') ? 'jpg' : mimeType.includes('webm') ? 'webm' : mimeType.includes('mp4') ? 'mp4' : mimeType.split('/')[1] || 'bin';
+
+// A stored ZIP: `project.json` plus `logos/<id>.<ext>` and `videos/<id>.<ext>`.
+export const exportProjectFile = async (project: Project): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+
+  const logos = project.logos.map(({ base64, ...logo }) => {
+    const asset = `logos/${logo.id}.${extensionFor(logo.mimeType)}`;
+    entries.push({ name: asset, data: base64ToBytes(base64) });
+    return { ...logo, asset };
+  });
+
+  const animations = [];
+  for (const animation of project.animations) {
+    const video = await getVideo(project.id, animation.id);
+    if (!video) {
+      animations.push(animation);
+      continue;
+    }
+    const asset = `videos/${animation.id}.${extensionFor(video.type)}`;
+    entries.push({ name: asset, data: await blobToBytes(video) });
+    animations.push({ ...animation, asset });
+  }
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: { ...project, logos, animations }
+  };
+  return createZip([textEntry('project.json', JSON.stringify(manifest, null, 2)), ...entries]);
+};
+
+const IMAGE_MIME_TYPE = /^image\/[a-z0-9.+-]+$/i;
+
+const isRecord = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+const isNumbers = (value: unknown, length: number) => Array.isArray(value) && value.length === length && value.every(Number.isFinite);
+const isOneOf = <T extends string>(values: readonly T[]) => (value: unknown): value is T => values.includes(value as T);
+
+const isImageSize = isOneOf<ImageSize>(['1K', '2K', '4K']);
+const isAspectRatio = isOneOf<AspectRatio>(['1:1', '16:9', '9:16']);
+const isStep = isOneOf<AppStep>(Object.values(AppStep));
+
+const isPaletteColor = (color: unknown) =>
+  isRecord(color) && isHexColor(color.hex) && isNumbers(color.rgb, 3) && isNumbers(color.cmyk, 4)
+  && [color.share, color.contrastOnWhite, color.contrastOnBlack].every(Number.isFinite);
+
+const isManifestLogo = (logo: unknown) =>
+  isRecord(logo) && isString(logo.id) && isString(logo.asset) && typeof logo.mimeType === 'string' && IMAGE_MIME_TYPE.test(logo.mimeType)
+  && typeof logo.prompt === 'string' && isImageSize(logo.size) && Number.isFinite(logo.createdAt)
+  && (logo.palette === undefined || (Array.isArray(logo.palette) && logo.palette.every(isPaletteColor)));
+
+const isManifestAnimation = (animation: unknown) =>
+  isRecord(animation) && isString(animation.id) && isString(animation.logoId) && (animation.asset === undefined || typeof animation.asset === 'string')
+  && typeof animation.prompt === 'string' && isAspectRatio(animation.aspectRatio) && Number.isFinite(animation.createdAt);
+
+// Project files can come from anywhere, and their values end up in the
+// library and in presentation pages, so the shape is checked before use.
+const isManifestProject = (project: unknown): project is ProjectManifest['project'] =>
+  isRecord(project) && isString(project.id) && typeof project.name === 'string' && isStep(project.step)
+  && Number.isFinite(project.createdAt) && Number.isFinite(project.updatedAt)
+  && Array.isArray(project.logos) && project.logos.every(isManifestLogo)
+  && Array.isArray(project.animations) && project.animations.every(isManifestAnimation)
+  && (project.lockedPalette === undefined || (Array.isArray(project.lockedPalette) && project.lockedPalette.every(isHexColor)))
+  && (project.brief === undefined || isRecord(project.brief));
+
+const BRIEF_TEXT_FIELDS = ['organizationName', 'tagline', 'industry', 'avoid', 'details', 'suffix'] as const;
+const strings = (value: unknown) => (Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined);
+
+// Briefs from older or hand-edited files may lack fields; anything missing or
+// malformed falls back to the default brief.
+const readBrief = (brief: Partial<Record<keyof BrandBrief, unknown>>): BrandBrief => {
+  const read: BrandBrief = { ...DEFAULT_BRIEF };
+  BRIEF_TEXT_FIELDS.forEach(field => {
+    const value = brief[field];
+    if (typeof value === 'string') read[field] = value;
+  });
+  if (typeof brief.style === 'string' && Object.hasOwn(STYLE_PRESETS, brief.style)) read.style = brief.style as BrandBrief['style'];
+  read.colors = strings(brief.colors) ?? read.colors;
+  read.moods = strings(brief.moods) ?? read.moods;
+  if (isLocale(brief.language as string)) read.language = brief.language as BrandBrief['language'];
+  return read;
+};
+
+const videoType = (path: string) => (path.endsWith('.webm') ? 'video/webm' : 'video/mp4');
+
+// Reads a project file and adds it to the library.
+export const importProjectFile = async (file: Blob): Promise<Project> => {
+  let entries: ZipEntry[];
+  try {
+    entries = await readZip(file);
+  } catch {
+    throw new Error(t('errors.message.notProjectFile'));
+  }
+  const files = new Map(entries.map(entry => [entry.name, entry.data]));
+  const manifestBytes = files.get('project.json');
+  if (!manifestBytes) throw new Error(t('errors.message.noManifest'));
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch {
+    throw new Error(t('errors.message.notProjectFile'));
+  }
+  if (!isRecord(manifest) || manifest.format !== PROJECT_FILE_FORMAT || !Number.isFinite(manifest.version)) {
+    throw new Error(t('errors.message.notProjectFile'));
+  }
+  if (manifest.version > PROJECT_FILE_VERSION) {
+    throw new Error(t('errors.message.newerProject'));
+  }
+  const project = manifest.project;
+  if (!isManifestProject(project)) throw new Error(t('errors.message.notProjectFile'));
+
+  const logos: StoredLogo[] = project.logos.map(({ asset, ...logo }) => {
+    const data = files.get(asset);
+    if (!data) throw new Error(t('errors.message.missingAsset', { asset }));
+    return { ...logo, base64: bytesToBase64(data) };
+  });
+
+  const videos = new Map<string, Blob>();
+  const animations: StoredAnimation[] = project.animations.map(({ asset, ...animation }) => {
+    const data = asset ? files.get(asset) : undefined;
+    if (asset && data) videos.set(animation.id, new Blob([data], { type: videoType(asset) }));
+    return animation;
+  });
+
+  const brief = project.brief && readBrief(project.brief);
+  return importProject({ ...project, brief, logos, animations }, videos);
+};
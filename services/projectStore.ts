@@ -0,0 +1,144 @@
+import { Project, StoredAnimation } from "../types";
+import { t } from "./i18n";
+
+const DB_NAME = 'wisdommotion';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+// Video blobs live apart from project records so listing the library does
+// not pull every clip into memory. Keys are `${projectId}:${animationId}`.
+const VIDEOS = 'videos';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(VIDEOS)) db.createObjectStore(VIDEOS);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error(t('errors.message.openLibrary')));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error(t('errors.message.transaction')));
+  });
+
+const videoKey = (projectId: string, animationId: string) => `${projectId}:${animationId}`;
+const projectVideoRange = (projectId: string) => IDBKeyRange.bound(`${projectId}:`, `${projectId}:\uffff`);
+
+export const listProjects = async (): Promise<Project[]> => {
+  const db = await openDb();
+  const projects = await promisify(db.transaction(PROJECTS).objectStore(PROJECTS).getAll() as IDBRequest<Project[]>);
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<Project | undefined> => {
+  const db = await openDb();
+  return promisify(db.transaction(PROJECTS).objectStore(PROJECTS).get(id) as IDBRequest<Project | undefined>);
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  tx.objectStore(PROJECTS).put(project);
+  return transactionDone(tx);
+};
+
+export const saveVideo = async (projectId: string, animationId: string, video: Blob): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(VIDEOS, 'readwrite');
+  tx.objectStore(VIDEOS).put(video, videoKey(projectId, animationId));
+  return transactionDone(tx);
+};
+
+export const getVideo = async (projectId: string, animationId: string): Promise<Blob | undefined> => {
+  const db = await openDb();
+  return promisify(db.transaction(VIDEOS).objectStore(VIDEOS).get(videoKey(projectId, animationId)) as IDBRequest<Blob | undefined>);
+};
+
+// Used when a video finishes in the background: the clip and its metadata
+// land in the project even if it is no longer the one open in the UI.
+export const appendAnimation = async (projectId: string, animation: StoredAnimation, video: Blob): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, VIDEOS], 'readwrite');
+  const projects = tx.objectStore(PROJECTS);
+  tx.objectStore(VIDEOS).put(video, videoKey(projectId, animation.id));
+  const request = projects.get(projectId);
+  request.onsuccess = () => {
+    const project: Project | undefined = request.result;
+    if (!project || project.animations.some(a => a.id === animation.id)) return;
+    projects.put({ ...project, animations: [...project.animations, animation], updatedAt: Date.now() });
+  };
+  return transactionDone(tx);
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await getProject(id);
+  if (!project) throw new Error(t('errors.message.projectNotFound'));
+  await saveProject({ ...project, name, updatedAt: Date.now() });
+};
+
+export const duplicateProject = async (id: string): Promise<Project> => {
+  const project = await getProject(id);
+  if (!project) throw new Error(t('errors.message.projectNotFound'));
+
+  const now = Date.now();
+  const copy: Project = { ...project, id: crypto.randomUUID(), name: `${project.name} (copy)`, createdAt: now, updatedAt: now };
+
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, VIDEOS], 'readwrite');
+  const videos = tx.objectStore(VIDEOS);
+  tx.objectStore(PROJECTS).put(copy);
+  for (const animation of project.animations) {
+    const request = videos.get(videoKey(project.id, animation.id));
+    request.onsuccess = () => {
+      if (request.result) videos.put(request.result, videoKey(copy.id, animation.id));
+    };
+  }
+  await transactionDone(tx);
+  return copy;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, VIDEOS], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  tx.objectStore(VIDEOS).delete(projectVideoRange(id));
+  return transactionDone(tx);
+};
+
+// Stores a project read from a project file together with its videos. A
+// project whose id is already in the library is imported as a copy.
+export const importProject = async (project: Project, videos: Map<string, Blob>): Promise<Project> => {
+  const existing = await getProject(project.id);
+  const now = Date.now();
+  const imported: Project = existing
+    ? { ...project, id: crypto.randomUUID(), name: `${project.name} (imported)`, updatedAt: now }
+    : { ...project, updatedAt: now };
+
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, VIDEOS], 'readwrite');
+  tx.objectStore(PROJECTS).put(imported);
+  videos.forEach((video, animationId) => tx.objectStore(VIDEOS).put(video, videoKey(imported.id, animationId)));
+  await transactionDone(tx);
+  return imported;
+};
@@ -0,0 +1,128 @@
+import { AnimationPresetId, BrandBrief, ReferenceMode, StylePreset } from "../types";
+import { isHexColor } from "./palette";
+
+export const DEFAULT_PROMPT_SUFFIX = "Minimalist, vector style, suitable for educational non-profits. White background.";
+
+export const STYLE_PRESETS: Record<StylePreset, { label: string; icon: string; phrase: string }> = {
+  flat: { label: 'Flat', icon: 'fa-shapes', phrase: 'a flat, geometric logo mark built from simple shapes with no gradients' },
+  emblem: { label: 'Emblem', icon: 'fa-shield-halved', phrase: 'an emblem logo with the mark enclosed in a badge or crest' },
+  wordmark: { label: 'Wordmark', icon: 'fa-font', phrase: 'a wordmark logo made of distinctive custom lettering of the name' },
+  mascot: { label: 'Mascot', icon: 'fa-dove', phrase: 'a friendly mascot logo featuring an illustrated character' }
+};
+
+export const DEFAULT_BRIEF: BrandBrief = {
+  organizationName: 'More Wisdom',
+  tagline: '',
+  industry: 'education non-profit',
+  style: 'flat',
+  colors: ['#1d4ed8', '#f59e0b'],
+  moods: ['hopeful', 'trustworthy'],
+  avoid: '',
+  details: 'featuring a stylized open book and a sun rising',
+  suffix: DEFAULT_PROMPT_SUFFIX
+};
+
+const list = (items: string[]) =>
+  items.length < 2 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+// Half-typed or malformed entries in the colour fields are skipped.
+const brandColors = (brief: BrandBrief) => brief.colors.map(c => c.trim()).filter(isHexColor);
+
+// Turns the brief into the description half of the prompt. Empty fields are
+// left out rather than rendered as placeholders.
+export const compileBrief = (brief: BrandBrief): string => {
+  const name = brief.organizationName.trim();
+  const industry = brief.industry.trim();
+  const colors = brandColors(brief);
+  const moods = brief.moods.map(m => m.trim()).filter(Boolean);
+
+  let subject = STYLE_PRESETS[brief.style].phrase;
+  if (name) subject += ` for "${name}"`;
+  if (industry) subject += `${name ? ',' : ' for'} ${/^[aeiou]/i.test(industry) ? 'an' : 'a'} ${industry}`;
+
+  const sentences = [subject + (brief.details.trim() ? `, ${brief.details.trim()}` : '')];
+  if (brief.tagline.trim()) sentences.push(`Include the tagline "${brief.tagline.trim()}"`);
+  if (colors.length) sentences.push(`Use the brand colors ${list(colors)}`);
+  if (moods.length) sentences.push(`It should feel ${list(moods)}`);
+  if (brief.avoid.trim()) sentences.push(`Avoid ${brief.avoid.trim()}`);
+  return sentences.join('. ');
+};
+
+export const REFERENCE_MODES: Record<ReferenceMode, { label: string; instruction: string }> = {
+  inspire: {
+    label: 'Loose inspiration',
+    instruction: 'Use the attached image only as loose inspiration for shapes and composition.'
+  },
+  redraw: {
+    label: 'Faithful redraw',
+    instruction: 'Redraw the attached sketch or logo faithfully as a polished design, keeping its layout and main shapes.'
+  }
+};
+
+export const paletteInstruction = (palette: string[]) =>
+  `Use only this exact color palette: ${list(palette)}. Do not introduce any other colors.`;
+
+// The full text sent to the image model. `reference` adds the instruction for
+// an attached reference image, `palette` the locked brand colours.
+export const buildLogoPrompt = (
+  description: string,
+  suffix: string = DEFAULT_PROMPT_SUFFIX,
+  options: { reference?: ReferenceMode; palette?: string[] } = {}
+): string =>
+  [
+    `A clean, professional, high-resolution logo design for: ${description}.`,
+    options.reference ? REFERENCE_MODES[options.reference].instruction : '',
+    options.palette?.length ? paletteInstruction(options.palette) : '',
+    suffix.trim()
+  ].filter(Boolean).join(' ');
+
+// The text sent to the video model.
+export const buildAnimationPrompt = (prompt: string, palette?: string[]): string =>
+  palette?.length
+    ? `${prompt.trim()} Keep the logo's colors exactly as they are; any added light, particles or background use only ${list(palette)}.`
+    : prompt;
+
+// Curated starting points for the Animate step.
+export const ANIMATION_PRESETS: Record<AnimationPresetId, { label: string; icon: string; prompt: string }> = {
+  reveal: {
+    label: 'Reveal',
+    icon: 'fa-wand-magic-sparkles',
+    prompt: 'The logo is revealed from a clean empty background: its shapes draw on one stroke at a time, then the colors fill in and the finished logo settles in the center. Smooth easing, static camera.'
+  },
+  pulse: {
+    label: 'Pulse',
+    icon: 'fa-heart-pulse',
+    prompt: 'The logo stays centered and gently pulses, scaling up slightly and back in a calm rhythm while a soft glow in its own colors breathes around it. Seamless loop, static camera.'
+  },
+  particleAssemble: {
+    label: 'Particle Assemble',
+    icon: 'fa-atom',
+    prompt: 'Thousands of small glowing particles drift in from the edges of the frame and swirl together, assembling precisely into the logo, which then holds still with a faint shimmer.'
+  },
+  parallaxFloat: {
+    label: 'Parallax Float',
+    icon: 'fa-layer-group',
+    prompt: 'The elements of the logo separate into subtle depth layers and float gently with a parallax effect as the camera drifts slowly, in a dreamlike, airy atmosphere.'
+  }
+};
+
+export const DEFAULT_ANIMATION_PROMPT = "The sun rays pulsate slowly, the book's pages shimmer with golden light, and the entire logo gently floats in a dreamlike, educational atmosphere.";
+
+// Variables a prompt template can use, filled from the brief.
+export const TEMPLATE_VARIABLES: Record<string, { description: string; value: (brief: BrandBrief) => string }> = {
+  orgName: { description: 'Organization name', value: brief => brief.organizationName.trim() },
+  tagline: { description: 'Tagline', value: brief => brief.tagline.trim() },
+  industry: { description: 'Industry', value: brief => brief.industry.trim() },
+  style: { description: 'Logo style', value: brief => STYLE_PRESETS[brief.style].label.toLowerCase() },
+  color: { description: 'First brand colour', value: brief => brandColors(brief)[0] || '' },
+  colors: { description: 'All brand colours', value: brief => list(brandColors(brief)) },
+  mood: { description: 'Moods', value: brief => list(brief.moods.map(m => m.trim()).filter(Boolean)) }
+};
+
+export const templateVariables = (text: string): string[] =>
+  [...new Set([...text.matchAll(/\{(\w+)\}/g)].map(match => match[1]))];
+
+// Unknown variables and ones the brief has no value for are left in place so
+// the user can see what still needs filling in.
+export const fillTemplate = (text: string, brief: BrandBrief): string =>
+  text.replace(/\{(\w+)\}/g, (placeholder, name: string) => TEMPLATE_VARIABLES[name]?.value(brief) || placeholder);
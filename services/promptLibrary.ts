@@ -0,0 +1,119 @@
+import { BrandBrief, PromptHistoryEntry, PromptKind, PromptTemplate } from "../types";
+import { loadImage, createCanvas } from "./imageUtils";
+import { captureFrame } from "./videoEditor";
+
+const HISTORY_KEY = 'wisdommotion.promptHistory';
+const TEMPLATES_KEY = 'wisdommotion.promptTemplates';
+// Oldest entries are dropped past this; thumbnails keep each entry a few KB.
+const MAX_HISTORY = 100;
+const THUMBNAIL_SIZE = 96;
+
+type LibraryListener = () => void;
+
+export interface PromptLibraryState {
+  history: PromptHistoryEntry[];
+  templates: PromptTemplate[];
+}
+
+let state: PromptLibraryState | null = null;
+const listeners = new Set<LibraryListener>();
+
+const read = <T>(key: string): T[] => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const write = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage unavailable (private mode, quota): the library lives for this session.
+  }
+};
+
+export const getPromptLibrary = (): PromptLibraryState => {
+  if (!state) state = { history: read(HISTORY_KEY), templates: read(TEMPLATES_KEY) };
+  return state;
+};
+
+const update = (patch: Partial<PromptLibraryState>) => {
+  state = { ...getPromptLibrary(), ...patch };
+  if (patch.history) write(HISTORY_KEY, state.history);
+  if (patch.templates) write(TEMPLATES_KEY, state.templates);
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToPromptLibrary = (listener: LibraryListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Newest first. Sending the same prompt again moves it back to the top
+// instead of adding a duplicate.
+export const recordPrompt = (entry: { kind: PromptKind; prompt: string; projectId?: string; brief?: BrandBrief }): PromptHistoryEntry => {
+  const prompt = entry.prompt.trim();
+  const previous = getPromptLibrary().history.find(h => h.kind === entry.kind && h.prompt === prompt);
+  const recorded: PromptHistoryEntry = {
+    id: crypto.randomUUID(),
+    ...entry,
+    prompt,
+    createdAt: Date.now(),
+    thumbnail: previous?.thumbnail
+  };
+  update({ history: [recorded, ...getPromptLibrary().history.filter(h => h !== previous)].slice(0, MAX_HISTORY) });
+  return recorded;
+};
+
+export const setPromptThumbnail = (id: string, thumbnail: string) => {
+  update({ history: getPromptLibrary().history.map(h => (h.id === id ? { ...h, thumbnail } : h)) });
+};
+
+// Animation prompts are recorded when the job is submitted; the thumbnail is
+// attached to the latest matching entry once a video comes back.
+export const setPromptThumbnailFor = (kind: PromptKind, prompt: string, thumbnail: string) => {
+  const entry = getPromptLibrary().history.find(h => h.kind === kind && h.prompt === prompt.trim());
+  if (entry) setPromptThumbnail(entry.id, thumbnail);
+};
+
+export const removePromptHistoryEntry = (id: string) => {
+  update({ history: getPromptLibrary().history.filter(h => h.id !== id) });
+};
+
+export const clearPromptHistory = (kind: PromptKind) => {
+  update({ history: getPromptLibrary().history.filter(h => h.kind !== kind) });
+};
+
+export const saveTemplate = (template: { kind: PromptKind; name: string; text: string }): PromptTemplate => {
+  const saved: PromptTemplate = { id: crypto.randomUUID(), ...template, name: template.name.trim(), text: template.text.trim(), createdAt: Date.now() };
+  update({ templates: [...getPromptLibrary().templates, saved] });
+  return saved;
+};
+
+export const removeTemplate = (id: string) => {
+  update({ templates: getPromptLibrary().templates.filter(t => t.id !== id) });
+};
+
+export const createImageThumbnail = async (url: string, size = THUMBNAIL_SIZE): Promise<string> => {
+  const image = await loadImage(url);
+  const ratio = size / Math.max(image.naturalWidth, image.naturalHeight);
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(image.naturalWidth * ratio)), Math.max(1, Math.round(image.naturalHeight * ratio)));
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+// A frame a second in, past any fade from black.
+export const createVideoThumbnail = async (videoUrl: string, size = THUMBNAIL_SIZE): Promise<string> => {
+  const frame = URL.createObjectURL(await captureFrame(videoUrl, 1, size * 2));
+  try {
+    return await createImageThumbnail(frame, size);
+  } finally {
+    URL.revokeObjectURL(frame);
+  }
+};
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BlockedReason, FinishReason } from '@google/genai';
+import { geminiProvider } from './geminiProvider';
+import { saveApiKey, saveProxyUrl } from '../credentials';
+import { GenerationError } from '../errors';
+import { fakeGenAI, imageResponse, videoOperation, PIXEL_PNG } from '../../test/fakeGenAI';
+
+const image = { base64: PIXEL_PNG, mimeType: 'image/png' };
+
+describe('geminiProvider', () => {
+  beforeEach(() => {
+    saveApiKey('test-key');
+  });
+
+  describe('generateImage', () => {
+    it('returns the first inline image', async () => {
+      fakeGenAI.generateContent.mockResolvedValue(imageResponse('abc', 'image/png'));
+      await expect(geminiProvider.generateImage({ prompt: 'owl', size: '1K' })).resolves.toEqual({ base64: 'abc', mimeType: 'image/png' });
+      expect(fakeGenAI.clients.at(-1)).toMatchObject({ apiKey: 'test-key' });
+      expect(fakeGenAI.generateContent.mock.calls[0][0]).toMatchObject({
+        contents: { parts: [{ text: 'owl' }] },
+        config: { imageConfig: { aspectRatio: '1:1', imageSize: '1K' } }
+      });
+    });
+
+    it('keeps a custom mimeType and defaults a missing one to PNG', async () => {
+      fakeGenAI.generateContent.mockResolvedValueOnce(imageResponse('abc', 'image/jpeg'));
+      await expect(geminiProvider.generateImage({ prompt: 'owl', size: '2K' })).resolves.toEqual({ base64: 'abc', mimeType: 'image/jpeg' });
+
+      fakeGenAI.generateContent.mockResolvedValueOnce(imageResponse('abc'));
+      await expect(geminiProvider.generateImage({ prompt: 'owl', size: '2K' })).resolves.toEqual({ base64: 'abc', mimeType: 'image/png' });
+    });
+
+    it('sends the source image ahead of the prompt for edits', async () => {
+      fakeGenAI.generateContent.mockResolvedValue(imageResponse());
+      await geminiProvider.generateImage({ prompt: 'make it blue', size: '1K', sourceImage: image });
+      expect(fakeGenAI.generateContent.mock.calls[0][0].contents.parts).toEqual([
+        { inlineData: { data: image.base64, mimeType: image.mimeType } },
+        { text: 'make it blue' }
+      ]);
+    });
+
+    it('fails with noImage when there are no candidates', async () => {
+      fakeGenAI.generateContent.mockResolvedValue({ candidates: [] });
+      await expect(geminiProvider.generateImage({ prompt: 'owl', size: '1K' })).rejects.toMatchObject({ kind: 'noImage' });
+    });
+
+    it('fails with noImage when the answer has no inline data', async () => {
+      fakeGenAI.generateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: 'I cannot draw that.' }] }, finishReason: FinishReason.STOP }] });
+      await expect(geminiProvider.generateImage({ prompt: 'owl', size: '1K' })).rejects.toMatchObject({ kind: 'noImage' });
+    });
+
+    it('reports safety blocks on the prompt or the candidate', async () => {
+      fakeGenAI.generateContent.mockResolvedValueOnce({ promptFeedback: { blockReason: BlockedReason.SAFETY } });
+      await expect(geminiProvider.generateImage({ prompt: 'owl', size: '1K' })).rejects.toMatchObject({ kind: 'safety' });
+
+      fakeGenAI.generateContent.mockResolvedValueOnce({ candidates: [{ finishReason: FinishReason.IMAGE_SAFETY }] });
+      await expect(geminiProvider.generateImage({ prompt: 'owl', size: '1K' })).rejects.toMatchObject({ kind: 'safety' });
+    });
+
+    it('routes through the proxy in proxy mode', async () => {
+      saveProxyUrl('https://proxy.example/gemini');
+      fakeGenAI.generateContent.mockResolvedValue(imageResponse());
+      await geminiProvider.generateImage({ prompt: 'owl', size: '1K' });
+      expect(fakeGenAI.clients.at(-1)).toEqual({ apiKey: 'proxy', httpOptions: { baseUrl: 'https://proxy.example/gemini' } });
+    });
+  });
+
+  describe('video operations', () => {
+    it('maps started and polled operations', async () => {
+      fakeGenAI.generateVideos.mockResolvedValue(videoOperation('operations/1'));
+      await expect(geminiProvider.startVideo({ image, prompt: 'spin', aspectRatio: '9:16' })).resolves.toEqual({ name: 'operations/1', done: false, videoUri: undefined, error: undefined });
+      expect(fakeGenAI.generateVideos.mock.calls[0][0]).toMatchObject({
+        prompt: 'spin',
+        image: { imageBytes: image.base64, mimeType: image.mimeType },
+        config: { aspectRatio: '9:16', numberOfVideos: 1 }
+      });
+
+      fakeGenAI.getVideosOperation.mockResolvedValue(videoOperation('operations/1', { done: true, uri: 'https://video.example/v1?alt=media' }));
+      await expect(geminiProvider.getVideoOperation({ name: 'operations/1', done: false })).resolves.toEqual({
+        name: 'operations/1',
+        done: true,
+        videoUri: 'https://video.example/v1?alt=media',
+        error: undefined
+      });
+      expect(fakeGenAI.getVideosOperation.mock.calls[0][0].operation.name).toBe('operations/1');
+    });
+
+    it('turns filtered output into an error', async () => {
+      fakeGenAI.getVideosOperation.mockResolvedValue({
+        name: 'operations/1',
+        done: true,
+        response: { generatedVideos: [], raiMediaFilteredCount: 1, raiMediaFilteredReasons: ['Contains a celebrity.'] }
+      });
+      const operation = await geminiProvider.getVideoOperation({ name: 'operations/1', done: false });
+      expect(operation.error).toBe('Blocked by safety filters: Contains a celebrity.');
+    });
+  });
+
+  describe('downloadVideo', () => {
+    const finished = { name: 'operations/1', done: true, videoUri: 'https://generativelanguage.googleapis.com/v1beta/files/abc:download?alt=media' };
+
+    it('fetches the video with the key appended', async () => {
+      vi.mocked(fetch).mockResolvedValue(new Response('video-bytes', { status: 200 }));
+      const blob = await geminiProvider.downloadVideo(finished);
+      expect(await blob.text()).toBe('video-bytes');
+      expect(fetch).toHaveBeenCalledWith(`${finished.videoUri}&key=test-key`);
+    });
+
+    it('fetches from the proxy in proxy mode', async () => {
+      saveProxyUrl('https://proxy.example/gemini');
+      vi.mocked(fetch).mockResolvedValue(new Response('video-bytes', { status: 200 }));
+      await geminiProvider.downloadVideo(finished);
+      expect(fetch).toHaveBeenCalledWith('https://proxy.example/gemini/v1beta/files/abc:download?alt=media');
+    });
+
+    it('fails without a download link', async () => {
+      await expect(geminiProvider.downloadVideo({ name: 'operations/1', done: true })).rejects.toMatchObject({ kind: 'download' });
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('classifies network and HTTP failures', async () => {
+      await expect(geminiProvider.downloadVideo(finished)).rejects.toMatchObject({ kind: 'download' });
+
+      vi.mocked(fetch).mockResolvedValueOnce(new Response('', { status: 500 }));
+      const serverError = await geminiProvider.downloadVideo(finished).catch(err => err);
+      expect(serverError).toBeInstanceOf(GenerationError);
+      expect(serverError).toMatchObject({ kind: 'download', status: 500, retryable: true });
+
+      vi.mocked(fetch).mockResolvedValueOnce(new Response('', { status: 403 }));
+      await expect(geminiProvider.downloadVideo(finished)).rejects.toMatchObject({ kind: 'auth', status: 403 });
+    });
+  });
+});
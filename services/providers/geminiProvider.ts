@@ -0,0 +1,147 @@
+import { GoogleGenAI, GenerateVideosOperation, Type } from "@google/genai";
+import { GenerationProvider, VideoOperation } from "./types";
+import { GenerationError } from "../errors";
+import { getGeminiAuth, GEMINI_API_ORIGIN } from "../credentials";
+import { t } from "../i18n";
+
+const IMAGE_MODEL = 'gemini-3-pro-image-preview';
+const VIDEO_MODEL = 'veo-3.1-fast-generate-preview';
+const TEXT_MODEL = 'gemini-2.5-flash';
+const VIDEO_RESOLUTION = '720p';
+// Veo's default clip length.
+const VIDEO_SECONDS = 8;
+
+// A new client is created per call so a key changed on the Setup step (or
+// re-selected in AI Studio) is picked up.
+const getClient = () => {
+  const { apiKey, baseUrl } = getGeminiAuth();
+  return new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+};
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_PROHIBITED_CONTENT'];
+
+const toVideoOperation = (operation: GenerateVideosOperation): VideoOperation => {
+  const response = operation.response;
+  let error = operation.error ? String(operation.error.message || JSON.stringify(operation.error)) : undefined;
+  // Veo reports filtered output as a finished operation without videos.
+  if (!error && operation.done && !response?.generatedVideos?.length && response?.raiMediaFilteredCount) {
+    error = `Blocked by safety filters: ${(response.raiMediaFilteredReasons || []).join(' ') || 'no reason given'}`;
+  }
+  return {
+    name: operation.name || '',
+    done: !!operation.done,
+    videoUri: response?.generatedVideos?.[0]?.video?.uri,
+    error
+  };
+};
+
+export const geminiProvider: GenerationProvider = {
+  id: 'gemini',
+  label: 'Gemini 3 Pro & Veo',
+  requiresApiKey: true,
+  imageModel: IMAGE_MODEL,
+  videoModel: VIDEO_MODEL,
+  textModel: TEXT_MODEL,
+  videoResolution: VIDEO_RESOLUTION,
+  videoSeconds: VIDEO_SECONDS,
+  // Recommended polling interval for Veo models.
+  pollIntervalMs: 10000,
+
+  generateImage: async ({ prompt, size, sourceImage }) => {
+    const parts = sourceImage
+      ? [{ inlineData: { data: sourceImage.base64, mimeType: sourceImage.mimeType } }, { text: prompt }]
+      : [{ text: prompt }];
+    const response = await getClient().models.generateContent({
+      model: IMAGE_MODEL,
+      contents: { parts },
+      config: {
+        imageConfig: {
+          aspectRatio: "1:1",
+          imageSize: size
+        }
+      },
+    });
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData?.data) {
+        return {
+          base64: part.inlineData.data,
+          mimeType: part.inlineData.mimeType || 'image/png'
+        };
+      }
+    }
+
+    const candidate = response.candidates?.[0];
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason || (candidate?.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason))) {
+      throw new GenerationError('safety', t('errors.message.safetyReason', { reason: blockReason || candidate?.finishReason || '' }));
+    }
+    throw new GenerationError('noImage', t('errors.message.noImage'));
+  },
+
+  startVideo: async ({ image, prompt, aspectRatio }) => {
+    const operation = await getClient().models.generateVideos({
+      model: VIDEO_MODEL,
+      prompt,
+      image: {
+        imageBytes: image.base64,
+        mimeType: image.mimeType,
+      },
+      config: {
+        numberOfVideos: 1,
+        resolution: VIDEO_RESOLUTION,
+        aspectRatio
+      }
+    });
+    return toVideoOperation(operation);
+  },
+
+  getVideoOperation: async ({ name }) => {
+    const operation = new GenerateVideosOperation();
+    operation.name = name;
+    return toVideoOperation(await getClient().operations.getVideosOperation({ operation }));
+  },
+
+  downloadVideo: async ({ videoUri }) => {
+    if (!videoUri) throw new GenerationError('download', t('errors.message.noDownloadLink'));
+    // Through a proxy the file is fetched from the same path on the proxy,
+    // which adds the key itself.
+    const { apiKey, baseUrl } = getGeminiAuth();
+    const url = baseUrl ? videoUri.replace(GEMINI_API_ORIGIN, baseUrl) : `${videoUri}&key=${apiKey}`;
+    let response: Response;
+    try {
+      response = await fetch(url);
+    } catch (err) {
+      throw new GenerationError('download', t('errors.message.download'), { cause: err });
+    }
+    if (!response.ok) {
+      throw new GenerationError(
+        response.status === 401 || response.status === 403 ? 'auth' : 'download',
+        t('errors.message.downloadStatus', { status: response.status }),
+        { status: response.status }
+      );
+    }
+    return response.blob();
+  },
+
+  translateText: async ({ texts, from, to }) => {
+    const response = await getClient().models.generateContent({
+      model: TEXT_MODEL,
+      contents: `Translate each string in this JSON array from ${from} to ${to}. Keep proper nouns, brand names and anything already in ${to} as they are. Answer with a JSON array of the same length.\n\n${JSON.stringify(texts)}`,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } }
+      }
+    });
+    let translated: unknown;
+    try {
+      translated = JSON.parse(response.text || '');
+    } catch {
+      translated = null;
+    }
+    if (!Array.isArray(translated) || translated.length !== texts.length) {
+      throw new GenerationError('unknown', t('errors.message.translate'));
+    }
+    return translated.map(String);
+  }
+};
@@ -0,0 +1,43 @@
+import { GenerationProvider, ProviderId } from "./types";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+
+export * from "./types";
+
+const providers: Record<ProviderId, GenerationProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider
+};
+
+const isProviderId = (value: string | null | undefined): value is ProviderId =>
+  !!value && Object.hasOwn(providers, value);
+
+// `?provider=mock` in the URL wins over the GENERATION_PROVIDER build setting,
+// so a deployed build can still be demoed offline.
+export const resolveProviderId = (): ProviderId => {
+  const fromQuery = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get('provider')
+    : null;
+  if (isProviderId(fromQuery)) return fromQuery;
+  if (isProviderId(process.env.GENERATION_PROVIDER)) return process.env.GENERATION_PROVIDER;
+  return 'gemini';
+};
+
+let activeProvider: GenerationProvider | null = null;
+
+export const selectProvider = (id: ProviderId = resolveProviderId()): GenerationProvider => {
+  activeProvider = providers[id];
+  return activeProvider;
+};
+
+// Lets tests install a hand-rolled provider without touching the registry.
+export const setProvider = (provider: GenerationProvider) => {
+  activeProvider = provider;
+};
+
+export const getProvider = (): GenerationProvider => activeProvider || selectProvider();
+
+// Resumed jobs must be polled by the provider that started them, even if the
+// active one has changed since.
+export const getProviderById = (id: ProviderId): GenerationProvider =>
+  activeProvider?.id === id ? activeProvider : providers[id];
@@ -0,0 +1,136 @@
+import { AspectRatio, ImageSize } from "../../types";
+import { ImageInput } from "./types";
+import { bytesToBase64 } from "../binary";
+import { encodePng } from "../png";
+import { loadImage, createCanvas } from "../imageUtils";
+import { t } from "../i18n";
+
+// Placeholder dimensions per requested quality. Kept small on purpose: the
+// mock exists to exercise the app flow, not to look good.
+const MOCK_IMAGE_SIZES: Record<ImageSize, number> = {
+  '1K': 256,
+  '2K': 384,
+  '4K': 512
+};
+
+const MOCK_VIDEO_SIZES: Record<AspectRatio, [number, number]> = {
+  '16:9': [640, 360],
+  '9:16': [360, 640],
+  '1:1': [480, 480]
+};
+
+export const MOCK_VIDEO_DURATION_MS = 2000;
+
+// FNV-1a, so the same prompt always yields the same placeholder.
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [f(0), f(8), f(4)];
+};
+
+// Draws a white tile with a ring and a polygon whose colours and number of
+// sides are derived from the prompt hash.
+export const createPlaceholderLogo = (prompt: string, size: ImageSize): ImageInput => {
+  const dimension = MOCK_IMAGE_SIZES[size];
+  const hash = hashString(prompt);
+  const primary = hslToRgb(hash % 360, 0.65, 0.5);
+  const accent = hslToRgb((hash >>> 9) % 360, 0.7, 0.6);
+  const sides = 3 + ((hash >>> 18) % 4);
+  const rotation = ((hash >>> 22) % 360) * Math.PI / 180;
+
+  const pixels = new Uint8ClampedArray(dimension * dimension * 4);
+  const center = dimension / 2;
+  const outer = dimension * 0.42;
+  const inner = dimension * 0.36;
+  const polygon = dimension * 0.26;
+  const apothem = polygon * Math.cos(Math.PI / sides);
+
+  for (let y = 0; y < dimension; y++) {
+    for (let x = 0; x < dimension; x++) {
+      const dx = x + 0.5 - center;
+      const dy = y + 0.5 - center;
+      const distance = Math.hypot(dx, dy);
+      const angle = Math.atan2(dy, dx) - rotation;
+      const sector = (2 * Math.PI) / sides;
+      const local = ((angle % sector) + sector) % sector - sector / 2;
+      const insidePolygon = distance * Math.cos(local) <= apothem;
+
+      let color: [number, number, number] = [255, 255, 255];
+      if (insidePolygon) color = accent;
+      else if (distance <= outer && distance >= inner) color = primary;
+
+      const index = (y * dimension + x) * 4;
+      pixels[index] = color[0];
+      pixels[index + 1] = color[1];
+      pixels[index + 2] = color[2];
+      pixels[index + 3] = 255;
+    }
+  }
+
+  return {
+    base64: bytesToBase64(encodePng(dimension, dimension, pixels)),
+    mimeType: 'image/png'
+  };
+};
+
+// Records a short clip of the logo gently pulsing on a white stage. Frame
+// contents depend only on the input image and elapsed time; the encoder
+// itself is the browser's MediaRecorder.
+export const createPlaceholderClip = async (image: ImageInput, aspectRatio: AspectRatio): Promise<Blob> => {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error(t('errors.message.noMediaRecorder'));
+  }
+
+  const [width, height] = MOCK_VIDEO_SIZES[aspectRatio];
+  const { canvas, ctx } = createCanvas(width, height);
+
+  const logo = await loadImage(`data:${image.mimeType};base64,${image.base64}`);
+  const base = Math.min(width, height) * 0.7;
+
+  const drawFrame = (elapsed: number) => {
+    const t = elapsed / MOCK_VIDEO_DURATION_MS;
+    const scale = 1 + 0.08 * Math.sin(t * Math.PI * 2);
+    const side = base * scale;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(logo, (width - side) / 2, (height - side) / 2, side, side);
+  };
+
+  const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9') ? 'video/webm;codecs=vp9' : 'video/webm';
+  const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  return new Promise((resolve, reject) => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+    recorder.onerror = () => reject(new Error(t('errors.message.mockRecording')));
+
+    const start = performance.now();
+    const tick = () => {
+      const elapsed = performance.now() - start;
+      drawFrame(Math.min(elapsed, MOCK_VIDEO_DURATION_MS));
+      if (elapsed < MOCK_VIDEO_DURATION_MS) {
+        requestAnimationFrame(tick);
+      } else {
+        recorder.stop();
+      }
+    };
+    drawFrame(0);
+    recorder.start();
+    requestAnimationFrame(tick);
+  });
+};
@@ -0,0 +1,84 @@
+import { GenerationProvider, VideoRequest } from "./types";
+import { createPlaceholderLogo, createPlaceholderClip, MOCK_VIDEO_DURATION_MS } from "./mockAssets";
+import { t } from "../i18n";
+
+const IMAGE_LATENCY_MS = 600;
+// Number of status checks before a mock operation reports completion.
+const POLLS_UNTIL_DONE = 2;
+
+interface MockOperation {
+  request: VideoRequest;
+  polls: number;
+}
+
+const STORAGE_PREFIX = 'wisdommotion.mock.';
+const operations = new Map<string, MockOperation>();
+let operationCounter = 0;
+
+// Operations are mirrored into sessionStorage so a resumed job can still be
+// completed after a page reload, like a real server-side operation.
+const loadOperation = (name: string): MockOperation | undefined => {
+  const cached = operations.get(name);
+  if (cached || typeof sessionStorage === 'undefined') return cached;
+  const stored = sessionStorage.getItem(STORAGE_PREFIX + name);
+  if (!stored) return undefined;
+  const operation: MockOperation = JSON.parse(stored);
+  operations.set(name, operation);
+  return operation;
+};
+
+const storeOperation = (name: string, operation: MockOperation) => {
+  operations.set(name, operation);
+  if (typeof sessionStorage === 'undefined') return;
+  try {
+    sessionStorage.setItem(STORAGE_PREFIX + name, JSON.stringify(operation));
+  } catch {
+    // Quota exceeded: the in-memory copy still works until the next reload.
+  }
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const mockProvider: GenerationProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+  requiresApiKey: false,
+  imageModel: 'mock-image',
+  videoModel: 'mock-video',
+  textModel: 'mock-text',
+  videoResolution: '360p',
+  videoSeconds: MOCK_VIDEO_DURATION_MS / 1000,
+  pollIntervalMs: 500,
+
+  generateImage: async ({ prompt, size, variation = 0, sourceImage }) => {
+    await delay(IMAGE_LATENCY_MS);
+    // Edits hash the source too, so refining different versions diverges.
+    const seed = sourceImage ? `${sourceImage.base64.slice(-64)}|${prompt}` : prompt;
+    return createPlaceholderLogo(variation ? `${seed}#${variation}` : seed, size);
+  },
+
+  startVideo: async (request) => {
+    const name = `mock-operations/${Date.now().toString(36)}-${++operationCounter}`;
+    storeOperation(name, { request, polls: 0 });
+    return { name, done: false };
+  },
+
+  getVideoOperation: async ({ name }) => {
+    const operation = loadOperation(name);
+    if (!operation) throw new Error(t('errors.message.mockOperation', { name }));
+    operation.polls++;
+    storeOperation(name, operation);
+    const done = operation.polls >= POLLS_UNTIL_DONE;
+    return { name, done, videoUri: done ? `mock://${name}` : undefined };
+  },
+
+  downloadVideo: async ({ name }) => {
+    const operation = loadOperation(name);
+    if (!operation) throw new Error(t('errors.message.mockOperation', { name }));
+    return createPlaceholderClip(operation.request.image, operation.request.aspectRatio);
+  },
+
+  // Offline there is nothing to translate with; the placeholders do not
+  // read the prompt closely enough for it to matter.
+  translateText: async ({ texts }) => texts
+};
@@ -0,0 +1,60 @@
+import { ImageSize, AspectRatio, ProviderId } from "../../types";
+
+export type { ProviderId };
+
+export interface ImageInput {
+  base64: string;
+  mimeType: string;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  size: ImageSize;
+  // Index within a batch of variations. Providers that are deterministic
+  // (the mock) mix it in so siblings differ; live models can ignore it.
+  variation?: number;
+  // When present the model edits this image instead of starting from scratch.
+  sourceImage?: ImageInput;
+}
+
+export interface VideoRequest {
+  image: ImageInput;
+  prompt: string;
+  aspectRatio: AspectRatio;
+}
+
+// Provider-neutral view of a long-running video generation. `name` is enough
+// to look the operation up again with the provider that started it.
+export interface VideoOperation {
+  name: string;
+  done: boolean;
+  videoUri?: string;
+  error?: string;
+}
+
+// Languages are given by English name, e.g. `Spanish`. The result has one
+// entry per input text, in the same order.
+export interface TranslationRequest {
+  texts: string[];
+  from: string;
+  to: string;
+}
+
+export interface GenerationProvider {
+  id: ProviderId;
+  label: string;
+  requiresApiKey: boolean;
+  // Model names and clip format, recorded with every metered call.
+  imageModel: string;
+  videoModel: string;
+  textModel: string;
+  videoResolution: string;
+  videoSeconds: number;
+  // How long to wait between `getVideoOperation` calls.
+  pollIntervalMs: number;
+  generateImage: (request: ImageRequest) => Promise<ImageInput>;
+  startVideo: (request: VideoRequest) => Promise<VideoOperation>;
+  getVideoOperation: (operation: VideoOperation) => Promise<VideoOperation>;
+  downloadVideo: (operation: VideoOperation) => Promise<Blob>;
+  translateText: (request: TranslationRequest) => Promise<string[]>;
+}
@@ -0,0 +1,49 @@
+import { ReferenceImage } from "../types";
+import { loadImage, createCanvas, canvasToBlob, blobToBytes } from "./imageUtils";
+import { bytesToBase64 } from "./binary";
+import { t, formatNumber } from "./i18n";
+
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+export const MAX_UPLOAD_BYTES = 15 * 1024 * 1024;
+const MIN_DIMENSION = 64;
+// Longest side sent to the models. Larger uploads are scaled down; both
+// models work from far smaller inputs anyway.
+const MAX_DIMENSION = 1536;
+
+// Validates an uploaded or captured image and re-encodes it at a size the
+// models accept. Photos stay JPEG; everything else becomes PNG so that
+// transparency in existing logos survives.
+export const prepareReferenceImage = async (file: Blob, name = 'image'): Promise<ReferenceImage> => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    throw new Error(t('errors.message.unsupportedImage', { name }));
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new Error(t('errors.message.imageTooLarge', { name, size: formatNumber(file.size / 1024 / 1024, undefined, { maximumFractionDigits: 1 }), limit: MAX_UPLOAD_BYTES / 1024 / 1024 }));
+  }
+
+  const objectUrl = URL.createObjectURL(file);
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(objectUrl);
+  } catch {
+    throw new Error(t('errors.message.unreadableImage', { name }));
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+
+  const { naturalWidth, naturalHeight } = image;
+  if (Math.min(naturalWidth, naturalHeight) < MIN_DIMENSION) {
+    throw new Error(t('errors.message.imageTooSmall', { name, width: naturalWidth, height: naturalHeight, min: MIN_DIMENSION }));
+  }
+
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(naturalWidth, naturalHeight));
+  const width = Math.round(naturalWidth * scale);
+  const height = Math.round(naturalHeight * scale);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, width, height);
+
+  const mimeType = file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+  const base64 = bytesToBase64(await blobToBytes(await canvasToBlob(canvas, mimeType, 0.92)));
+  return { name, url: `data:${mimeType};base64,${base64}`, base64, mimeType, width, height };
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { AppStep } from '../types';
+import { formatRoute, parseRoute, guardRoute } from './router';
+
+describe('router', () => {
+  it('round-trips project routes, encoding the id', () => {
+    const route = { step: AppStep.Animate, projectId: 'a/b c' };
+    expect(formatRoute(route)).toBe('#/projects/a%2Fb%20c/animate');
+    expect(parseRoute(formatRoute(route))).toEqual(route);
+  });
+
+  it('sends unknown and malformed hashes to Setup', () => {
+    expect(parseRoute('#/nowhere')).toEqual({ step: AppStep.Setup });
+    expect(parseRoute('#/projects/p1/library')).toEqual({ step: AppStep.Setup });
+    expect(parseRoute('#/projects/%E0/design')).toEqual({ step: AppStep.Setup });
+  });
+
+  it('falls back to the nearest step whose prerequisites are met', () => {
+    const view = { step: AppStep.View, projectId: 'p1' };
+    expect(guardRoute(view, { ready: false, hasLogo: true, hasAnimation: true })).toEqual({ step: AppStep.Setup });
+    expect(guardRoute(view, { ready: true, hasLogo: true, hasAnimation: false })).toEqual({ step: AppStep.Animate, projectId: 'p1' });
+    expect(guardRoute(view, { ready: true, hasLogo: false, hasAnimation: false })).toEqual({ step: AppStep.Design, projectId: 'p1' });
+  });
+});
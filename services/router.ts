@@ -0,0 +1,110 @@
+import { AppStep } from "../types";
+
+// Hash URLs, so deep links work on static hosting and inside the AI Studio
+// frame without server rewrites:
+//   #/                       Setup
+//   #/projects               Library
+//   #/design                 Design, before the first generation saves a project
+//   #/projects/<id>/design   Design, Animate or View for a saved project
+export interface Route {
+  step: AppStep;
+  projectId?: string;
+}
+
+// What the guards need to know about the open project.
+export interface WorkflowState {
+  // Credentials are set up, or the provider needs none.
+  ready: boolean;
+  hasLogo: boolean;
+  hasAnimation: boolean;
+}
+
+type RouteListener = () => void;
+
+const STEP_SEGMENTS: Record<AppStep, string> = {
+  [AppStep.Setup]: '',
+  [AppStep.Library]: 'projects',
+  [AppStep.Design]: 'design',
+  [AppStep.Animate]: 'animate',
+  [AppStep.View]: 'view'
+};
+
+const stepForSegment = (segment: string) =>
+  (Object.keys(STEP_SEGMENTS) as AppStep[]).find(step => STEP_SEGMENTS[step] === segment);
+
+// Undefined for malformed escapes such as a truncated `%E0`.
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return undefined;
+  }
+};
+
+export const isProjectStep = (step: AppStep) =>
+  step === AppStep.Design || step === AppStep.Animate || step === AppStep.View;
+
+export const formatRoute = ({ step, projectId }: Route): string => {
+  if (!isProjectStep(step)) return `#/${STEP_SEGMENTS[step]}`;
+  return projectId ? `#/projects/${encodeURIComponent(projectId)}/${STEP_SEGMENTS[step]}` : `#/${STEP_SEGMENTS[step]}`;
+};
+
+// Anything unrecognised lands on Setup.
+export const parseRoute = (hash: string): Route => {
+  const segments = hash.replace(/^#\/?/, '').split('/').filter(Boolean);
+  if (segments[0] === 'projects' && segments.length === 3) {
+    const step = stepForSegment(segments[2]);
+    const projectId = decodeSegment(segments[1]);
+    if (step && isProjectStep(step) && projectId) return { step, projectId };
+  }
+  if (segments.length === 1) {
+    const step = stepForSegment(segments[0]);
+    if (step) return { step };
+  }
+  return { step: AppStep.Setup };
+};
+
+export const sameRoute = (a: Route, b: Route) => formatRoute(a) === formatRoute(b);
+
+// The route a request should end up on: a step whose prerequisites are
+// missing falls back to the nearest earlier step that has them.
+export const guardRoute = (route: Route, state: WorkflowState): Route => {
+  if (!isProjectStep(route.step)) return route;
+  if (!state.ready) return { step: AppStep.Setup };
+  if (route.step === AppStep.View && !state.hasAnimation) return guardRoute({ ...route, step: AppStep.Animate }, state);
+  if (route.step === AppStep.Animate && !state.hasLogo) return { ...route, step: AppStep.Design };
+  return route;
+};
+
+let current: { hash: string; route: Route } | null = null;
+const listeners = new Set<RouteListener>();
+
+export const getRoute = (): Route => {
+  const hash = window.location.hash;
+  if (!current || current.hash !== hash) current = { hash, route: parseRoute(hash) };
+  return current.route;
+};
+
+const emit = () => listeners.forEach(listener => listener());
+
+export const subscribeToRoute = (listener: RouteListener) => {
+  listeners.add(listener);
+  if (listeners.size === 1) window.addEventListener('hashchange', emit);
+  return () => {
+    listeners.delete(listener);
+    if (!listeners.size) window.removeEventListener('hashchange', emit);
+  };
+};
+
+// `replace` is for redirects, so Back does not return to the page that
+// redirected.
+export const navigate = (route: Route, { replace = false }: { replace?: boolean } = {}) => {
+  const hash = formatRoute(route);
+  if (hash === window.location.hash || (hash === '#/' && !window.location.hash)) return;
+  if (replace) {
+    window.history.replaceState(window.history.state, '', hash);
+    emit();
+  } else {
+    window.location.hash = hash;
+  }
+};
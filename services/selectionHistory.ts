@@ -0,0 +1,36 @@
+// Undo/redo for which logo version and animation are selected. Only ids are
+// kept; the caller looks them up in the open project.
+export interface Selection {
+  logoId?: string;
+  animationId?: string;
+}
+
+export interface SelectionHistory {
+  past: Selection[];
+  future: Selection[];
+}
+
+const MAX_UNDO = 50;
+
+export const EMPTY_SELECTION_HISTORY: SelectionHistory = { past: [], future: [] };
+
+export const sameSelection = (a: Selection, b: Selection) =>
+  a.logoId === b.logoId && a.animationId === b.animationId;
+
+// A new selection clears anything that could have been redone.
+export const recordSelection = (history: SelectionHistory, previous: Selection): SelectionHistory => ({
+  past: [...history.past, previous].slice(-MAX_UNDO),
+  future: []
+});
+
+export const undoSelection = (history: SelectionHistory, current: Selection): { history: SelectionHistory; selection: Selection } | null => {
+  const selection = history.past[history.past.length - 1];
+  if (!selection) return null;
+  return { history: { past: history.past.slice(0, -1), future: [current, ...history.future] }, selection };
+};
+
+export const redoSelection = (history: SelectionHistory, current: Selection): { history: SelectionHistory; selection: Selection } | null => {
+  const [selection, ...future] = history.future;
+  if (!selection) return null;
+  return { history: { past: [...history.past, current], future }, selection };
+};
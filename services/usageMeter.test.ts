@@ -0,0 +1,10 @@
+import { describe, expect, it } from 'vitest';
+import { estimateRequest, DEFAULT_PRICES } from './usageMeter';
+
+describe('estimateRequest', () => {
+  it('prices images, videos and text calls', () => {
+    expect(estimateRequest({ model: 'gemini-3-pro-image-preview', imageSize: '4K', count: 2 }, DEFAULT_PRICES)).toBeCloseTo(0.48);
+    expect(estimateRequest({ model: 'veo-3.1-fast-generate-preview', videoSeconds: 8, count: 1 }, DEFAULT_PRICES)).toBeCloseTo(1.2);
+    expect(estimateRequest({ model: 'gemini-2.5-flash', count: 3 }, DEFAULT_PRICES)).toBeCloseTo(0.003);
+  });
+});
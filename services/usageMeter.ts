@@ -0,0 +1,198 @@
+import { BudgetSettings, ImageSize, ModelPrice, UsageEvent } from "../types";
+import { classifyError } from "./errors";
+
+const EVENTS_KEY = 'wisdommotion.usage';
+const SETTINGS_KEY = 'wisdommotion.usageSettings';
+// Oldest events are dropped past this; a few hundred bytes each.
+const MAX_EVENTS = 5000;
+
+// Published list prices at the time of writing. They change, which is why
+// the table can be edited from the usage panel.
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-pro-image-preview': { perImage: { '1K': 0.134, '2K': 0.134, '4K': 0.24 } },
+  'veo-3.1-fast-generate-preview': { perSecond: 0.15 },
+  // A short brief is a few hundred tokens each way.
+  'gemini-2.5-flash': { perCall: 0.001 },
+  'mock-image': { perImage: { '1K': 0, '2K': 0, '4K': 0 } },
+  'mock-video': { perSecond: 0 },
+  'mock-text': { perCall: 0 }
+};
+
+export const DEFAULT_BUDGET: BudgetSettings = { action: 'confirm' };
+
+export interface UsageState {
+  events: UsageEvent[];
+  prices: Record<string, ModelPrice>;
+  budget: BudgetSettings;
+}
+
+export interface UsageSummary {
+  calls: number;
+  succeeded: number;
+  failed: number;
+  images: number;
+  videos: number;
+  videoSeconds: number;
+  cost: number;
+}
+
+// A generation that would take spending over a cap.
+export interface BudgetExceeded {
+  scope: 'daily' | 'project';
+  spent: number;
+  estimate: number;
+  limit: number;
+  action: BudgetSettings['action'];
+}
+
+type UsageListener = () => void;
+
+let state: UsageState | null = null;
+const listeners = new Set<UsageListener>();
+
+const write = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage unavailable (private mode, quota): usage is tracked for this session.
+  }
+};
+
+export const getUsage = (): UsageState => {
+  if (state) return state;
+  let events: UsageEvent[] = [];
+  let settings: Partial<Pick<UsageState, 'prices' | 'budget'>> = {};
+  try {
+    events = JSON.parse(localStorage.getItem(EVENTS_KEY) || '[]');
+    settings = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+  } catch {
+    // Corrupt storage starts over rather than breaking the app.
+  }
+  state = {
+    events,
+    prices: { ...DEFAULT_PRICES, ...settings.prices },
+    budget: { ...DEFAULT_BUDGET, ...settings.budget }
+  };
+  return state;
+};
+
+const update = (patch: Partial<UsageState>) => {
+  state = { ...getUsage(), ...patch };
+  if (patch.events) write(EVENTS_KEY, state.events);
+  if (patch.prices || patch.budget) write(SETTINGS_KEY, { prices: state.prices, budget: state.budget });
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToUsage = (listener: UsageListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const recordUsage = (event: Omit<UsageEvent, 'id' | 'timestamp'>): UsageEvent => {
+  const recorded: UsageEvent = { id: crypto.randomUUID(), timestamp: Date.now(), ...event };
+  update({ events: [...getUsage().events, recorded].slice(-MAX_EVENTS) });
+  return recorded;
+};
+
+// Runs one service call and records it whether it succeeds or fails.
+export const meter = async <T>(event: Omit<UsageEvent, 'id' | 'timestamp' | 'status' | 'durationMs'>, task: () => Promise<T>): Promise<T> => {
+  const started = Date.now();
+  try {
+    const result = await task();
+    recordUsage({ ...event, status: 'succeeded', durationMs: Date.now() - started });
+    return result;
+  } catch (err) {
+    const error = classifyError(err);
+    recordUsage({
+      ...event,
+      status: error.kind === 'cancelled' ? 'cancelled' : 'failed',
+      durationMs: Date.now() - started,
+      errorKind: error.kind
+    });
+    throw err;
+  }
+};
+
+export const clearUsage = () => update({ events: [] });
+
+export const setModelPrice = (model: string, price: ModelPrice) =>
+  update({ prices: { ...getUsage().prices, [model]: price } });
+
+export const resetPrices = () => update({ prices: { ...DEFAULT_PRICES } });
+
+export const setBudget = (budget: BudgetSettings) => update({ budget });
+
+// Only successful calls are counted: failed generations are not billed.
+export const estimateCost = (event: UsageEvent, prices = getUsage().prices): number => {
+  if (event.status !== 'succeeded') return 0;
+  const price = prices[event.model];
+  if (!price) return 0;
+  if (event.kind === 'image') return (event.imageSize && price.perImage?.[event.imageSize]) || 0;
+  if (event.kind === 'text') return price.perCall || 0;
+  return (price.perSecond || 0) * (event.videoSeconds || 0);
+};
+
+// Expected cost of a request that has not been made yet. Requests with
+// neither an image size nor a video length are text calls, priced per call.
+export const estimateRequest = (request: { model: string; count: number; imageSize?: ImageSize; videoSeconds?: number }, prices = getUsage().prices): number => {
+  const price = prices[request.model];
+  if (!price) return 0;
+  const each = request.imageSize
+    ? price.perImage?.[request.imageSize] || 0
+    : request.videoSeconds !== undefined
+      ? (price.perSecond || 0) * request.videoSeconds
+      : price.perCall || 0;
+  return each * request.count;
+};
+
+export const summarizeUsage = (events: UsageEvent[], prices = getUsage().prices): UsageSummary =>
+  events.reduce<UsageSummary>((summary, event) => {
+    const succeeded = event.status === 'succeeded';
+    return {
+      calls: summary.calls + 1,
+      succeeded: summary.succeeded + (succeeded ? 1 : 0),
+      failed: summary.failed + (event.status === 'failed' ? 1 : 0),
+      images: summary.images + (succeeded && event.kind === 'image' ? 1 : 0),
+      videos: summary.videos + (succeeded && event.kind === 'video' ? 1 : 0),
+      videoSeconds: summary.videoSeconds + (succeeded ? event.videoSeconds || 0 : 0),
+      cost: summary.cost + estimateCost(event, prices)
+    };
+  }, { calls: 0, succeeded: 0, failed: 0, images: 0, videos: 0, videoSeconds: 0, cost: 0 });
+
+// Local calendar day, e.g. `2024-05-01`.
+export const dayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const groupUsage = (events: UsageEvent[], key: (event: UsageEvent) => string): Map<string, UsageEvent[]> => {
+  const groups = new Map<string, UsageEvent[]>();
+  for (const event of events) {
+    const group = key(event);
+    groups.set(group, [...(groups.get(group) || []), event]);
+  }
+  return groups;
+};
+
+// The first cap the request would go over, if any. Spending already over a
+// cap counts as exceeding it even for free requests.
+export const checkBudget = (request: { projectId?: string; estimate: number }): BudgetExceeded | null => {
+  const { events, prices, budget } = getUsage();
+  const today = dayKey(Date.now());
+  const caps: [BudgetExceeded['scope'], number | undefined, UsageEvent[]][] = [
+    ['daily', budget.dailyLimit, events.filter(e => dayKey(e.timestamp) === today)],
+    ['project', request.projectId ? budget.projectLimit : undefined, events.filter(e => e.projectId === request.projectId)]
+  ];
+  for (const [scope, limit, scoped] of caps) {
+    if (limit === undefined) continue;
+    const spent = summarizeUsage(scoped, prices).cost;
+    if (spent + request.estimate > limit || spent >= limit) {
+      return { scope, spent, estimate: request.estimate, limit, action: budget.action };
+    }
+  }
+  return null;
+};
+
+export const formatCost = (dollars: number) => `$${dollars.toFixed(dollars > 0 && dollars < 1 ? 3 : 2)}`;
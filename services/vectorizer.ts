@@ -0,0 +1,250 @@
+import { loadImage, createCanvas } from "./imageUtils";
+
+export interface VectorizeOptions {
+  // Number of flat colours the logo is reduced to.
+  paletteSize: number;
+  // 0 keeps pixel-exact staircase edges; higher values simplify harder and
+  // draw curves through the remaining points.
+  smoothing: number;
+  // Longest side of the working bitmap. Larger is slower but keeps detail.
+  maxDimension?: number;
+}
+
+export interface VectorizeResult {
+  svg: string;
+  palette: string[];
+  pathCount: number;
+}
+
+type Rgb = [number, number, number];
+type Point = [number, number];
+
+const DEFAULT_MAX_DIMENSION = 320;
+const KMEANS_ITERATIONS = 12;
+
+const toHex = ([r, g, b]: Rgb) => `#${[r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+
+const distanceSq = (pixels: Uint8ClampedArray, index: number, color: Rgb) => {
+  const dr = pixels[index * 4] - color[0];
+  const dg = pixels[index * 4 + 1] - color[1];
+  const db = pixels[index * 4 + 2] - color[2];
+  return dr * dr + dg * dg + db * db;
+};
+
+// k-means in RGB space. Seeds are picked farthest-first starting from the top
+// left pixel, so the same image always yields the same palette.
+export const quantize = (pixels: Uint8ClampedArray, count: number, k: number): { palette: Rgb[]; labels: Uint8Array } => {
+  const centers: Rgb[] = [[pixels[0], pixels[1], pixels[2]]];
+  const nearest = new Float64Array(count).fill(Infinity);
+  while (centers.length < k) {
+    const last = centers[centers.length - 1];
+    let farthest = 0;
+    for (let i = 0; i < count; i++) {
+      nearest[i] = Math.min(nearest[i], distanceSq(pixels, i, last));
+      if (nearest[i] > nearest[farthest]) farthest = i;
+    }
+    if (nearest[farthest] === 0) break;
+    centers.push([pixels[farthest * 4], pixels[farthest * 4 + 1], pixels[farthest * 4 + 2]]);
+  }
+
+  const labels = new Uint8Array(count);
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    let changed = false;
+    for (let i = 0; i < count; i++) {
+      let best = 0;
+      let bestDistance = Infinity;
+      for (let c = 0; c < centers.length; c++) {
+        const d = distanceSq(pixels, i, centers[c]);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = c;
+        }
+      }
+      if (labels[i] !== best) changed = true;
+      labels[i] = best;
+      sums[best][0] += pixels[i * 4];
+      sums[best][1] += pixels[i * 4 + 1];
+      sums[best][2] += pixels[i * 4 + 2];
+      sums[best][3]++;
+    }
+    sums.forEach(([r, g, b, n], c) => {
+      if (n) centers[c] = [r / n, g / n, b / n];
+    });
+    if (!changed && iteration > 0) break;
+  }
+
+  return { palette: centers, labels };
+};
+
+// Emits the pixel-boundary edges of every region with the given label,
+// oriented clockwise around filled pixels, and chains them into closed loops.
+// Outer boundaries and holes come out with opposite winding, so the result
+// can be drawn with the even-odd rule.
+export const traceContours = (labels: Uint8Array, width: number, height: number, label: number): Point[][] => {
+  const inside = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && labels[y * width + x] === label;
+  const key = (x: number, y: number) => y * (width + 1) + x;
+  const edges = new Map<number, number[]>();
+  const addEdge = (x1: number, y1: number, x2: number, y2: number) => {
+    const from = key(x1, y1);
+    const list = edges.get(from);
+    if (list) list.push(key(x2, y2));
+    else edges.set(from, [key(x2, y2)]);
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!inside(x, y)) continue;
+      if (!inside(x, y - 1)) addEdge(x, y, x + 1, y);
+      if (!inside(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1);
+      if (!inside(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1);
+      if (!inside(x - 1, y)) addEdge(x, y + 1, x, y);
+    }
+  }
+
+  const loops: Point[][] = [];
+  for (const [start, targets] of edges) {
+    while (targets.length) {
+      const loop: Point[] = [];
+      let current = start;
+      let next = targets.pop()!;
+      while (true) {
+        loop.push([current % (width + 1), Math.floor(current / (width + 1))]);
+        current = next;
+        if (current === start) break;
+        const onward = edges.get(current);
+        if (!onward || !onward.length) break;
+        next = onward.pop()!;
+      }
+      if (loop.length > 2) loops.push(loop);
+    }
+  }
+  return loops;
+};
+
+const polygonArea = (points: Point[]) => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(area) / 2;
+};
+
+const perpendicularDistance = ([px, py]: Point, [ax, ay]: Point, [bx, by]: Point) => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const length = Math.hypot(dx, dy);
+  if (!length) return Math.hypot(px - ax, py - ay);
+  return Math.abs(dy * px - dx * py + bx * ay - by * ax) / length;
+};
+
+// Ramer-Douglas-Peucker on an open polyline.
+const simplifyPolyline = (points: Point[], epsilon: number): Point[] => {
+  if (points.length < 3) return points;
+  let maxDistance = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = perpendicularDistance(points[i], points[0], points[points.length - 1]);
+    if (d > maxDistance) {
+      maxDistance = d;
+      index = i;
+    }
+  }
+  if (maxDistance <= epsilon) return [points[0], points[points.length - 1]];
+  const left = simplifyPolyline(points.slice(0, index + 1), epsilon);
+  const right = simplifyPolyline(points.slice(index), epsilon);
+  return [...left.slice(0, -1), ...right];
+};
+
+// Closed loops are split at the point farthest from the first one so both
+// halves keep a fixed anchor.
+export const simplifyLoop = (points: Point[], epsilon: number): Point[] => {
+  if (points.length < 4) return points;
+  let split = 0;
+  let farthest = 0;
+  points.forEach(([x, y], i) => {
+    const d = Math.hypot(x - points[0][0], y - points[0][1]);
+    if (d > farthest) {
+      farthest = d;
+      split = i;
+    }
+  });
+  const first = simplifyPolyline(points.slice(0, split + 1), epsilon);
+  const second = simplifyPolyline([...points.slice(split), points[0]], epsilon);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+};
+
+const format = (value: number) => String(Math.round(value * 10) / 10);
+
+const loopToPath = (points: Point[], scale: number, curved: boolean) => {
+  const p = points.map(([x, y]) => [x * scale, y * scale] as Point);
+  if (!curved || p.length < 3) {
+    return `M${p.map(([x, y]) => `${format(x)} ${format(y)}`).join('L')}Z`;
+  }
+  // Quadratic curves through edge midpoints, using each vertex as control point.
+  const mid = (a: Point, b: Point): Point => [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+  const start = mid(p[p.length - 1], p[0]);
+  let d = `M${format(start[0])} ${format(start[1])}`;
+  for (let i = 0; i < p.length; i++) {
+    const end = mid(p[i], p[(i + 1) % p.length]);
+    d += `Q${format(p[i][0])} ${format(p[i][1])} ${format(end[0])} ${format(end[1])}`;
+  }
+  return `${d}Z`;
+};
+
+export const vectorizeImageData = (
+  data: ImageData,
+  outputWidth: number,
+  outputHeight: number,
+  { paletteSize, smoothing }: VectorizeOptions
+): VectorizeResult => {
+  const { width, height } = data;
+  const { palette, labels } = quantize(data.data, width * height, Math.max(2, Math.min(16, paletteSize)));
+  const scale = outputWidth / width;
+  const epsilon = 0.5 + smoothing * 0.3;
+  // Specks smaller than this (in working pixels) are dropped as noise.
+  const minArea = 2 + smoothing;
+
+  const layers = palette.map((color, label) => {
+    let area = 0;
+    for (let i = 0; i < labels.length; i++) if (labels[i] === label) area++;
+    return { color, label, area };
+  }).filter(layer => layer.area > 0).sort((a, b) => b.area - a.area);
+
+  let pathCount = 0;
+  const paths = layers.map(({ color, label }, index) => {
+    // The dominant colour is the backdrop; painting it as a rectangle avoids
+    // hairline gaps where simplified neighbours do not quite meet.
+    if (index === 0) return `<rect width="${outputWidth}" height="${outputHeight}" fill="${toHex(color)}"/>`;
+    const d = traceContours(labels, width, height, label)
+      .filter(loop => polygonArea(loop) >= minArea)
+      .map(loop => loopToPath(simplifyLoop(loop, epsilon), scale, smoothing > 0))
+      .join('');
+    if (!d) return '';
+    pathCount++;
+    return `<path fill="${toHex(color)}" fill-rule="evenodd" d="${d}"/>`;
+  }).filter(Boolean);
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${outputWidth} ${outputHeight}" width="${outputWidth}" height="${outputHeight}">`,
+    ...paths,
+    '</svg>'
+  ].join('\n');
+
+  return { svg, palette: layers.map(layer => toHex(layer.color)), pathCount };
+};
+
+export const vectorizeLogo = async (url: string, options: VectorizeOptions): Promise<VectorizeResult> => {
+  const image = await loadImage(url);
+  const maxDimension = options.maxDimension || DEFAULT_MAX_DIMENSION;
+  const ratio = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * ratio));
+  const height = Math.max(1, Math.round(image.naturalHeight * ratio));
+
+  const { ctx } = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, width, height);
+  return vectorizeImageData(ctx.getImageData(0, 0, width, height), image.naturalWidth, image.naturalHeight, options);
+};
@@ -0,0 +1,190 @@
+import { createCanvas, canvasToBlob, blobToBytes } from "./imageUtils";
+import { encodeGif } from "./gif";
+import { assembleApng } from "./png";
+import { t } from "./i18n";
+
+export type ClipFormat = 'gif' | 'webm' | 'apng';
+
+export interface ClipSettings {
+  // Trim range in seconds.
+  start: number;
+  end: number;
+  fps: number;
+  // Output width in pixels; height follows the source aspect ratio.
+  width: number;
+  // Seconds of the clip's tail that are cross-faded into its head. 0 leaves
+  // the clip as trimmed.
+  loopFade: number;
+}
+
+export interface DecodedClip {
+  frames: ImageData[];
+  width: number;
+  height: number;
+  delayMs: number;
+}
+
+export const FORMAT_DEFAULTS: Record<ClipFormat, { fps: number; width: number; extension: string }> = {
+  gif: { fps: 12, width: 480, extension: 'gif' },
+  webm: { fps: 24, width: 720, extension: 'webm' },
+  apng: { fps: 10, width: 240, extension: 'png' }
+};
+
+const waitFor = (target: HTMLMediaElement, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const onError = () => {
+      target.removeEventListener(event, onEvent);
+      reject(new Error(t('errors.message.videoDecode')));
+    };
+    const onEvent = () => {
+      target.removeEventListener('error', onError);
+      resolve();
+    };
+    target.addEventListener(event, onEvent, { once: true });
+    target.addEventListener('error', onError, { once: true });
+  });
+
+const seek = async (video: HTMLVideoElement, time: number) => {
+  const seeked = waitFor(video, 'seeked');
+  video.currentTime = time;
+  await seeked;
+};
+
+// Loads a detached video element. MediaRecorder output (the mock provider's
+// clips) reports an infinite duration until the browser has scanned to the
+// end, so seek far past it once to make the real duration known.
+export const loadVideo = async (url: string): Promise<HTMLVideoElement> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  const loaded = waitFor(video, 'loadeddata');
+  video.src = url;
+  await loaded;
+  if (!Number.isFinite(video.duration)) {
+    await seek(video, 1e6);
+    await seek(video, 0);
+  }
+  return video;
+};
+
+const frameSize = (video: HTMLVideoElement, width: number) => {
+  const outputWidth = Math.min(width, video.videoWidth) & ~1;
+  const outputHeight = Math.round((outputWidth * video.videoHeight) / video.videoWidth / 2) * 2;
+  return { width: Math.max(2, outputWidth), height: Math.max(2, outputHeight) };
+};
+
+// Blends the last `fadeFrames` frames into the first ones and drops the
+// head, so the final frame leads straight back into the first.
+export const makeSeamlessLoop = (frames: ImageData[], fadeFrames: number): ImageData[] => {
+  const fade = Math.min(fadeFrames, Math.floor(frames.length / 2));
+  if (fade < 1) return frames;
+  const body = frames.slice(fade);
+  const fadeStart = body.length - fade;
+  return body.map((frame, i) => {
+    if (i < fadeStart) return frame;
+    const k = i - fadeStart;
+    const head = frames[k].data;
+    const weight = (k + 1) / (fade + 1);
+    const blended = new ImageData(frame.width, frame.height);
+    for (let p = 0; p < frame.data.length; p++) {
+      blended.data[p] = frame.data[p] * (1 - weight) + head[p] * weight;
+    }
+    return blended;
+  });
+};
+
+// Seeks through the trim range at the requested frame rate and keeps every
+// frame as ImageData. Veo clips are short, so holding them in memory is fine.
+export const decodeClip = async (
+  url: string,
+  settings: ClipSettings,
+  onProgress?: (done: number, total: number) => void
+): Promise<DecodedClip> => {
+  const video = await loadVideo(url);
+  const { width, height } = frameSize(video, settings.width);
+  const { ctx } = createCanvas(width, height);
+  const end = Math.min(settings.end, video.duration);
+  const start = Math.max(0, Math.min(settings.start, end));
+  const total = Math.max(1, Math.floor((end - start) * settings.fps));
+
+  const frames: ImageData[] = [];
+  for (let i = 0; i < total; i++) {
+    await seek(video, start + i / settings.fps);
+    ctx.drawImage(video, 0, 0, width, height);
+    frames.push(ctx.getImageData(0, 0, width, height));
+    onProgress?.(i + 1, total);
+  }
+  video.removeAttribute('src');
+  video.load();
+
+  return {
+    frames: settings.loopFade > 0 ? makeSeamlessLoop(frames, Math.round(settings.loopFade * settings.fps)) : frames,
+    width,
+    height,
+    delayMs: 1000 / settings.fps
+  };
+};
+
+export const captureFrame = async (url: string, time: number, width?: number): Promise<Blob> => {
+  const video = await loadVideo(url);
+  await seek(video, Math.min(time, video.duration));
+  const size = frameSize(video, width || video.videoWidth);
+  const { canvas, ctx } = createCanvas(size.width, size.height);
+  ctx.drawImage(video, 0, 0, size.width, size.height);
+  return canvasToBlob(canvas);
+};
+
+export const encodeClipGif = (clip: DecodedClip): Blob =>
+  new Blob([encodeGif(clip.frames, clip.delayMs)], { type: 'image/gif' });
+
+export const encodeClipApng = async (clip: DecodedClip): Promise<Blob> => {
+  const { canvas, ctx } = createCanvas(clip.width, clip.height);
+  const pngs: Uint8Array[] = [];
+  for (const frame of clip.frames) {
+    ctx.putImageData(frame, 0, 0);
+    pngs.push(await blobToBytes(await canvasToBlob(canvas)));
+  }
+  return new Blob([assembleApng(pngs, clip.delayMs)], { type: 'image/apng' });
+};
+
+// Plays the frames onto a canvas in real time and records it, so this takes
+// as long as the clip itself.
+export const encodeClipWebm = async (clip: DecodedClip): Promise<Blob> => {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error(t('errors.message.noWebm'));
+  }
+  const { canvas, ctx } = createCanvas(clip.width, clip.height);
+  ctx.putImageData(clip.frames[0], 0, 0);
+  const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9') ? 'video/webm;codecs=vp9' : 'video/webm';
+  const recorder = new MediaRecorder(canvas.captureStream(Math.round(1000 / clip.delayMs)), { mimeType, videoBitsPerSecond: 4_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  return new Promise((resolve, reject) => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+    recorder.onerror = () => reject(new Error(t('errors.message.webmFailed')));
+
+    const startedAt = performance.now();
+    const duration = clip.frames.length * clip.delayMs;
+    const tick = () => {
+      const elapsed = performance.now() - startedAt;
+      if (elapsed >= duration) {
+        recorder.stop();
+        return;
+      }
+      ctx.putImageData(clip.frames[Math.floor(elapsed / clip.delayMs)], 0, 0);
+      requestAnimationFrame(tick);
+    };
+    recorder.start();
+    requestAnimationFrame(tick);
+  });
+};
+
+export const encodeClip = (clip: DecodedClip, format: ClipFormat): Promise<Blob> => {
+  if (format === 'gif') return Promise.resolve(encodeClipGif(clip));
+  if (format === 'apng') return encodeClipApng(clip);
+  return encodeClipWebm(clip);
+};
@@ -0,0 +1,51 @@
+import { vi } from 'vitest';
+import type { GenerateContentResponse, GenerateVideosOperation } from '@google/genai';
+
+// Scripted stand-in for the SDK's GoogleGenAI client, installed for every
+// test by test/setup.ts. Tests queue responses on the mocks below.
+export const fakeGenAI = {
+  generateContent: vi.fn<(params: any) => Promise<Partial<GenerateContentResponse>>>(),
+  generateVideos: vi.fn<(params: any) => Promise<Partial<GenerateVideosOperation>>>(),
+  getVideosOperation: vi.fn<(params: { operation: GenerateVideosOperation }) => Promise<Partial<GenerateVideosOperation>>>(),
+  // Constructor options of every client created, oldest first.
+  clients: [] as { apiKey?: string; httpOptions?: { baseUrl?: string } }[]
+};
+
+export class FakeGoogleGenAI {
+  models = {
+    generateContent: (params: any) => fakeGenAI.generateContent(params),
+    generateVideos: (params: any) => fakeGenAI.generateVideos(params)
+  };
+
+  operations = {
+    getVideosOperation: (params: { operation: GenerateVideosOperation }) => fakeGenAI.getVideosOperation(params)
+  };
+
+  constructor(options: { apiKey?: string; httpOptions?: { baseUrl?: string } }) {
+    fakeGenAI.clients.push(options);
+  }
+}
+
+export const resetFakeGenAI = () => {
+  fakeGenAI.generateContent.mockReset();
+  fakeGenAI.generateVideos.mockReset();
+  fakeGenAI.getVideosOperation.mockReset();
+  fakeGenAI.clients.length = 0;
+};
+
+// A 1x1 transparent PNG.
+export const PIXEL_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+export const imageResponse = (data = PIXEL_PNG, mimeType?: string): Partial<GenerateContentResponse> => ({
+  candidates: [{ content: { parts: [{ text: 'Here is your logo.' }, { inlineData: { data, mimeType } }] } }]
+});
+
+export const videoOperation = (
+  name: string,
+  { done = false, uri, error }: { done?: boolean; uri?: string; error?: string } = {}
+): Partial<GenerateVideosOperation> => ({
+  name,
+  done,
+  error: error ? { message: error } : undefined,
+  response: uri ? { generatedVideos: [{ video: { uri } }] } : undefined
+});
@@ -0,0 +1,52 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { FakeGoogleGenAI, resetFakeGenAI } from './fakeGenAI';
+
+// No test talks to Google: the SDK client is replaced wholesale and plain
+// fetch fails unless a test stubs it.
+vi.mock('@google/genai', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: FakeGoogleGenAI
+}));
+
+// jsdom never decodes images, so anything waiting for `onload` would hang.
+// Fail fast instead; image analysis is best effort everywhere it is used.
+Object.defineProperty(HTMLImageElement.prototype, 'src', {
+  configurable: true,
+  get(this: HTMLImageElement) {
+    return this.getAttribute('src') || '';
+  },
+  set(this: HTMLImageElement, value: string) {
+    this.setAttribute('src', value);
+    setTimeout(() => this.dispatchEvent(new Event('error')));
+  }
+});
+
+// jsdom's Blob predates `arrayBuffer()`, which every supported browser has.
+if (!Blob.prototype.arrayBuffer) {
+  Blob.prototype.arrayBuffer = function (this: Blob) {
+    return new Promise<ArrayBuffer>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as ArrayBuffer);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(this);
+    });
+  };
+}
+
+beforeEach(() => {
+  resetFakeGenAI();
+  localStorage.clear();
+  sessionStorage.clear();
+  window.history.replaceState(null, '', '/');
+  vi.stubGlobal('fetch', vi.fn(async () => {
+    throw new TypeError("Network access is disabled in tests.");
+  }));
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
@@ -3,20 +3,235 @@ export enum AppStep {
   Setup = 'SETUP',
   Design = 'DESIGN',
   Animate = 'ANIMATE',
-  View = 'VIEW'
+  View = 'VIEW',
+  Library = 'LIBRARY'
 }
 
 export interface LogoData {
+  id: string;
+  // Set on refinements: the version this one was edited from.
+  parentId?: string;
+  editInstruction?: string;
+  // Set on images the user uploaded instead of generating.
+  uploaded?: boolean;
   url: string;
   base64: string;
   mimeType: string;
   prompt: string;
+  size: ImageSize;
+  createdAt: number;
+  // Dominant colours, extracted by services/palette once the image exists.
+  palette?: PaletteColor[];
+  // Screen-reader description; generated with the palette, editable after.
+  altText?: string;
+}
+
+export interface PaletteColor {
+  hex: string;
+  rgb: [number, number, number];
+  // Percentages, 0-100.
+  cmyk: [number, number, number, number];
+  // Fraction of the non-background artwork covered by this colour.
+  share: number;
+  contrastOnWhite: number;
+  contrastOnBlack: number;
+}
+
+export type StylePreset = 'flat' | 'emblem' | 'wordmark' | 'mascot';
+
+// Interface language; see services/i18n.
+export type Locale = 'en' | 'es' | 'fr' | 'ar';
+
+// Structured design brief; compiled into the text prompt by services/promptBuilder.
+export interface BrandBrief {
+  organizationName: string;
+  tagline: string;
+  industry: string;
+  style: StylePreset;
+  // Hex values such as `#1d4ed8`.
+  colors: string[];
+  moods: string[];
+  avoid: string;
+  details: string;
+  // Sentence appended after the compiled brief; replaces the old fixed suffix.
+  suffix: string;
+  // Language the brief is written in; unset means English. Other languages
+  // are translated to English before the prompt is built.
+  language?: Locale;
+}
+
+// How closely generation follows an uploaded reference image.
+export type ReferenceMode = 'inspire' | 'redraw';
+
+// A user-supplied image, already validated and resized by services/referenceImage.
+export interface ReferenceImage {
+  name: string;
+  url: string;
+  base64: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+export type CandidateStatus = 'pending' | 'ready' | 'failed';
+
+// One slot in a batch of logo variations. `logo` is set once the slot is ready.
+export interface LogoCandidate {
+  id: string;
+  status: CandidateStatus;
+  logo?: LogoData;
+  error?: string;
+  favorite: boolean;
 }
 
 export interface AnimationData {
+  id: string;
+  // The logo version used as the starting frame.
+  logoId: string;
   videoUrl: string;
+  video: Blob;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  createdAt: number;
+}
+
+// Persisted forms drop object/data URLs; they are rebuilt when a project opens.
+export type StoredLogo = Omit<LogoData, 'url'> & { favorite?: boolean };
+export type StoredAnimation = Omit<AnimationData, 'videoUrl' | 'video'>;
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // Step to resume at when the project is reopened.
+  step: AppStep;
+  logos: StoredLogo[];
+  selectedLogoId?: string;
+  animations: StoredAnimation[];
+  selectedAnimationId?: string;
+  brief?: BrandBrief;
+  // Hex colours every later generation and animation is held to.
+  lockedPalette?: string[];
+}
+
+export type VideoJobStatus = 'queued' | 'starting' | 'generating' | 'downloading' | 'succeeded' | 'failed' | 'cancelled' | 'timedOut';
+
+// A tracked video generation. Persisted without any binary data so that
+// polling can resume after a page reload.
+export interface VideoJob {
+  id: string;
+  // Jobs submitted together share a batch id.
+  batchId: string;
+  projectId: string;
+  logoId: string;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  providerId: ProviderId;
+  // Set once the provider has accepted the request.
+  operationName?: string;
+  status: VideoJobStatus;
+  queuedAt: number;
+  // Set when the job leaves the queue; the timeout counts from here.
+  startedAt?: number;
+  finishedAt?: number;
+  lastPolledAt?: number;
+  pollCount: number;
+  timeoutMs: number;
+  // Locked palette at submission time, applied to the prompt when it starts.
+  palette?: string[];
+  error?: string;
+  // Category of `error`, used to offer the right recovery action.
+  errorKind?: GenerationErrorKind;
+  // Id of the AnimationData produced on success.
+  animationId?: string;
+}
+
+export type PromptKind = 'logo' | 'animation' | 'refine';
+
+// A prompt that was sent to a model, recorded automatically.
+export interface PromptHistoryEntry {
+  id: string;
+  kind: PromptKind;
+  // Animation and refine entries keep the instruction as typed. Logo entries
+  // keep the brief compiled into English (machine-translated if it was written
+  // in another language); `brief` holds the original. The style, palette and
+  // reference wording services/promptBuilder adds before sending is not stored.
   prompt: string;
+  createdAt: number;
+  projectId?: string;
+  // Brief the logo prompt was compiled from, so it can be restored whole.
+  brief?: BrandBrief;
+  // Small JPEG data URL of the first result; added once the result arrives.
+  thumbnail?: string;
 }
 
+// A user-saved prompt. `{orgName}`, `{color}` and the other variables are
+// filled from the current brief when the template is used.
+export interface PromptTemplate {
+  id: string;
+  kind: PromptKind;
+  name: string;
+  text: string;
+  createdAt: number;
+}
+
+export type AnimationPresetId = 'reveal' | 'pulse' | 'particleAssemble' | 'parallaxFloat';
+
+export type UsageStatus = 'succeeded' | 'failed' | 'cancelled';
+
+// One metered model call. Cost is not stored: it is estimated from the
+// current price table whenever usage is shown.
+export interface UsageEvent {
+  id: string;
+  timestamp: number;
+  projectId?: string;
+  providerId: ProviderId;
+  model: string;
+  kind: 'image' | 'video' | 'text';
+  operation: 'generate' | 'refine' | 'animate' | 'translate';
+  status: UsageStatus;
+  // Wall-clock time of the call, including retries and, for videos, polling.
+  durationMs: number;
+  imageSize?: ImageSize;
+  resolution?: string;
+  aspectRatio?: AspectRatio;
+  videoSeconds?: number;
+  errorKind?: GenerationErrorKind;
+}
+
+// US dollars. Images are priced per output size, videos per generated second
+// and text calls (brief translation) at a flat rate per call.
+export interface ModelPrice {
+  perImage?: Partial<Record<ImageSize, number>>;
+  perSecond?: number;
+  perCall?: number;
+}
+
+export interface BudgetSettings {
+  // US dollars; unset means no cap.
+  dailyLimit?: number;
+  projectLimit?: number;
+  // What happens to a generation that would go over a cap.
+  action: 'block' | 'confirm';
+}
+
+// Where Gemini credentials come from: the AI Studio key picker, a key the
+// user typed into this browser, or a backend proxy that holds the key.
+export type CredentialMode = 'aistudio' | 'userKey' | 'proxy';
+
+export type ProviderId = 'gemini' | 'mock';
+
+// Failure categories; see services/errors.
+export type GenerationErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'noImage'
+  | 'network'
+  | 'download'
+  | 'timeout'
+  | 'cancelled'
+  | 'unknown';
 export type ImageSize = '1K' | '2K' | '4K';
 export type AspectRatio = '1:1' | '16:9' | '9:16';
@@ -1,18 +1,38 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+// Dev-server route that forwards to the Gemini API with GEMINI_API_KEY added
+// on the way, so the key stays out of the browser bundle.
+const DEV_PROXY_PATH = '/api/gemini';
+
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    const devProxy = command === 'serve' && !!env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: devProxy ? {
+          [DEV_PROXY_PATH]: {
+            target: 'https://generativelanguage.googleapis.com',
+            changeOrigin: true,
+            rewrite: (route) => route.slice(DEV_PROXY_PATH.length),
+            headers: { 'x-goog-api-key': env.GEMINI_API_KEY }
+          }
+        } : undefined,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GENERATION_PROVIDER': JSON.stringify(env.GENERATION_PROVIDER),
+        'process.env.GENERATION_PROXY_URL': JSON.stringify(env.GENERATION_PROXY_URL || (devProxy ? DEV_PROXY_PATH : ''))
+      },
+      // Unit and component tests run offline in jsdom; see test/setup.ts.
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./test/setup.ts'],
+        restoreMocks: true
       },
       resolve: {
         alias: {